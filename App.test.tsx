@@ -0,0 +1,259 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import JSZip from 'jszip';
+import App from './App';
+import { BUILT_IN_PROMPTS } from './services/promptLibrary';
+
+// Files whose bytes contain this marker are rejected by the stubbed model with a non-retryable 400.
+const FAILING_MARKER = 'reject-me';
+
+const { generateContent, generateContentStream } = vi.hoisted(() => ({ generateContent: vi.fn(), generateContentStream: vi.fn() }));
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: class {
+    models = { generateContent, generateContentStream };
+  },
+  Modality: { IMAGE: 'IMAGE', TEXT: 'TEXT' },
+  Type: { OBJECT: 'OBJECT', ARRAY: 'ARRAY', STRING: 'STRING', NUMBER: 'NUMBER' },
+}));
+
+type GenerateRequest = {
+  model: string;
+  contents: Array<{ parts: Array<{ text?: string; inlineData?: { data: string; mimeType: string } }> }>;
+};
+
+const imageResponse = (data: string) => ({
+  candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data } }] } }],
+});
+
+const stubGemini = () => {
+  let imageCalls = 0;
+  generateContent.mockImplementation(async ({ model, contents }: GenerateRequest) => {
+    const image = contents[0].parts.find(part => part.inlineData)?.inlineData;
+    if (image && atob(image.data).includes(FAILING_MARKER)) {
+      throw new Error(JSON.stringify({ error: { code: 400, status: 'INVALID_ARGUMENT', message: 'Unsupported image.' } }));
+    }
+    if (model.includes('image')) {
+      return imageResponse(btoa(`processed image ${++imageCalls}`));
+    }
+    return { text: 'TOTAL 12.34' };
+  });
+};
+
+type Download = { name: string; blob: Blob };
+
+// Captures what saveFile hands to the download anchor instead of letting jsdom navigate.
+const captureDownloads = (): Download[] => {
+  const downloads: Download[] = [];
+  const blobsByUrl = new Map<string, Blob>();
+  vi.mocked(URL.createObjectURL).mockImplementation((blob: Blob | MediaSource) => {
+    const url = `blob:test/${blobsByUrl.size}`;
+    blobsByUrl.set(url, blob as Blob);
+    return url;
+  });
+  vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+    downloads.push({ name: this.download, blob: blobsByUrl.get(this.href)! });
+  });
+  return downloads;
+};
+
+const uploadFiles = async (files: File[]) => {
+  const input = document.getElementById('file-upload') as HTMLInputElement;
+  fireEvent.change(input, { target: { files } });
+  for (const file of files) {
+    await screen.findAllByText(file.name);
+  }
+};
+
+// The selected file's name also appears in the tool view, so look for the file list row, which has
+// its checkbox as a direct child.
+const toggleFile = (fileName: string) => {
+  const checkbox = screen.getAllByText(fileName)
+    .map(element => element.closest('div:has(> input[type="checkbox"])')?.querySelector(':scope > input[type="checkbox"]'))
+    .find(Boolean)!;
+  fireEvent.click(checkbox);
+};
+
+// The "Select All" label is not tied to its checkbox, and batch actions add checkboxes above it.
+const clickSelectAll = () => {
+  fireEvent.click(screen.getByText('Select All').previousElementSibling!);
+};
+
+// jsdom's Blob has no text()/arrayBuffer(), so go through FileReader.
+const readBlob = <T extends 'text' | 'arrayBuffer'>(blob: Blob, as: T): Promise<T extends 'text' ? string : ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T extends 'text' ? string : ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    if (as === 'text') reader.readAsText(blob);
+    else reader.readAsArrayBuffer(blob);
+  });
+
+describe('App batch flows', () => {
+  let downloads: Download[];
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+    stubGemini();
+    downloads = captureDownloads();
+    vi.spyOn(window, 'alert').mockImplementation(() => undefined);
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  const renderApp = async () => {
+    render(<App />);
+    // jsdom has no IndexedDB, so restoring ends with an error message instead of files.
+    await screen.findByText(/Could not restore the previous session/);
+  };
+
+  it('uploads images and rejects non-image files', async () => {
+    await renderApp();
+    const notAnImage = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+    await uploadFiles([new File(['one'], 'one.png', { type: 'image/png' })]);
+    fireEvent.change(document.getElementById('file-upload')!, { target: { files: [notAnImage] } });
+
+    await waitFor(() => expect(window.alert).toHaveBeenCalledWith(expect.stringContaining('notes.txt')));
+    expect(screen.getAllByText('one.png').length).toBeGreaterThan(0);
+    expect(screen.queryByText('notes.txt')).toBeNull();
+  });
+
+  it('shows batch actions only for selected files', async () => {
+    await renderApp();
+    await uploadFiles([
+      new File(['one'], 'one.png', { type: 'image/png' }),
+      new File(['two'], 'two.png', { type: 'image/png' }),
+    ]);
+    expect(screen.queryByText(/Batch Actions/)).toBeNull();
+
+    toggleFile('one.png');
+    expect(screen.getByText('Batch Actions (1 selected)')).toBeTruthy();
+
+    clickSelectAll();
+    expect(screen.getByText('Batch Actions (2 selected)')).toBeTruthy();
+
+    toggleFile('one.png');
+    toggleFile('two.png');
+    expect(screen.queryByText(/Batch Actions/)).toBeNull();
+  });
+
+  it('auto-processes a batch, keeps going past a failure and zips the results', async () => {
+    await renderApp();
+    await uploadFiles([
+      new File(['good receipt'], 'good.png', { type: 'image/png' }),
+      new File([FAILING_MARKER], 'bad.png', { type: 'image/png' }),
+    ]);
+    clickSelectAll();
+
+    fireEvent.click(screen.getByText('Run Pipeline on Batch'));
+    await screen.findByText('Finished: 1 done, 1 failed, 0 skipped.', undefined, { timeout: 5000 });
+    expect(screen.getByText(/Unsupported image\./)).toBeTruthy();
+    expect(downloads.map(d => d.name).sort()).toEqual(['good_Enhanced_for_OCR.png', 'good_OCR_TEXT.txt']);
+    expect(await readBlob(downloads.find(d => d.name === 'good_OCR_TEXT.txt')!.blob, 'text')).toBe('TOTAL 12.34');
+
+    fireEvent.click(screen.getByText('Mark Approved'));
+    fireEvent.click(screen.getByText('Download Images (ZIP)'));
+    await waitFor(() => expect(downloads.some(d => d.name === 'processed_images.zip')).toBe(true));
+
+    const zipBlob = downloads.find(d => d.name === 'processed_images.zip')!.blob;
+    const zip = await JSZip.loadAsync(await readBlob(zipBlob, 'arrayBuffer'));
+    expect(Object.keys(zip.files).sort()).toEqual(['bad_Original.png', 'good_Enhanced_for_OCR.png']);
+    expect(await zip.file('good_Enhanced_for_OCR.png')!.async('string')).toBe('processed image 2');
+    expect(await zip.file('bad_Original.png')!.async('string')).toBe(FAILING_MARKER);
+  });
+
+  it('exports only approved files and filters the list by review status', async () => {
+    await renderApp();
+    await uploadFiles([
+      new File(['first'], 'first.png', { type: 'image/png' }),
+      new File(['second'], 'second.png', { type: 'image/png' }),
+    ]);
+    clickSelectAll();
+
+    fireEvent.click(screen.getByText('Download Images (ZIP)'));
+    expect(window.alert).toHaveBeenCalledWith(expect.stringContaining('None of the selected files are approved'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Review' }));
+    fireEvent.keyDown(window, { key: 'a' });
+    expect(screen.getByText('Exports include approved files only (1 of 2 selected).')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Filter by review status'), { target: { value: 'approved' } });
+    expect(screen.queryByText('second.png')).toBeNull();
+    fireEvent.change(screen.getByLabelText('Filter by review status'), { target: { value: 'all' } });
+
+    fireEvent.click(screen.getByText('Download Images (ZIP)'));
+    await waitFor(() => expect(downloads.some(d => d.name === 'processed_images.zip')).toBe(true));
+    const zipBlob = downloads.find(d => d.name === 'processed_images.zip')!.blob;
+    const zip = await JSZip.loadAsync(await readBlob(zipBlob, 'arrayBuffer'));
+    expect(Object.keys(zip.files)).toEqual(['first_Original.png']);
+  });
+
+  it('drops an approval when OCR runs again on the file', async () => {
+    await renderApp();
+    await uploadFiles([new File(['receipt'], 'receipt.png', { type: 'image/png' })]);
+    clickSelectAll();
+
+    fireEvent.click(screen.getByText('Mark Approved'));
+    expect(screen.getByText('Exports include approved files only (1 of 1 selected).')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'OCR' }));
+    await screen.findByText('Exports include approved files only (0 of 1 selected).', undefined, { timeout: 5000 });
+    fireEvent.change(screen.getByLabelText('Filter by review status'), { target: { value: 'unreviewed' } });
+    expect(screen.getAllByText('receipt.png').length).toBeGreaterThan(0);
+  });
+
+  it('asks for the values of variables in a changed built-in prompt before running OCR', async () => {
+    await renderApp();
+    await uploadFiles([new File(['receipt'], 'receipt.png', { type: 'image/png' })]);
+    clickSelectAll();
+
+    fireEvent.change(screen.getByDisplayValue(BUILT_IN_PROMPTS.ocr.text), { target: { value: 'Read this {{language}} receipt.' } });
+    fireEvent.click(screen.getByRole('button', { name: 'OCR' }));
+    expect(window.alert).toHaveBeenCalledWith(expect.stringContaining('{{language}}'));
+    expect(generateContent).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Value for language'), { target: { value: 'German' } });
+    fireEvent.click(screen.getByRole('button', { name: 'OCR' }));
+    await waitFor(() => expect(generateContent).toHaveBeenCalled());
+    const request = generateContent.mock.calls[0][0] as GenerateRequest;
+    expect(request.contents[0].parts.map(part => part.text).join('')).toContain('Read this German receipt.');
+  });
+
+  it('streams chat replies, keeps stopped ones and sends the conversation with follow-ups', async () => {
+    type StreamRequest = Omit<GenerateRequest, 'contents'> & {
+      contents: Array<GenerateRequest['contents'][number] & { role: string }>;
+      config: { abortSignal: AbortSignal };
+    };
+    generateContentStream
+      .mockImplementationOnce(async ({ config }: StreamRequest) => (async function* () {
+        yield { text: 'The receipt ' };
+        yield { text: 'shows a total' };
+        await new Promise((_, reject) => config.abortSignal.addEventListener('abort', () => reject(new Error('aborted'))));
+      })())
+      .mockImplementationOnce(async () => (async function* () {
+        yield { text: 'Two items.' };
+      })());
+    await renderApp();
+    await uploadFiles([new File(['receipt'], 'receipt.png', { type: 'image/png' })]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Analyzer' }));
+    fireEvent.change(screen.getByLabelText('Message'), { target: { value: 'What is the total?' } });
+    fireEvent.click(screen.getByText('Send'));
+    await screen.findByText('The receipt shows a total');
+
+    fireEvent.click(screen.getByText('Stop'));
+    await screen.findByText('Stopped before the reply was complete.');
+
+    fireEvent.change(screen.getByLabelText('Message'), { target: { value: 'Which items were taxed?' } });
+    fireEvent.click(screen.getByText('Send'));
+    await screen.findByText('Two items.');
+    expect(screen.getByText('The receipt shows a total')).toBeTruthy();
+    expect(window.alert).not.toHaveBeenCalled();
+
+    const followUp = generateContentStream.mock.calls[1][0] as StreamRequest;
+    expect(followUp.contents.map(turn => turn.role)).toEqual(['user', 'model', 'user']);
+    expect(followUp.contents[0].parts[0].inlineData).toBeTruthy();
+    expect(followUp.contents[2].parts).toEqual([{ text: 'Which items were taxed?' }]);
+  });
+});
@@ -1,54 +1,209 @@
 
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import JSZip from 'jszip';
-import { UploadedFile, ProcessedImage, LoadingState, ActiveTool } from './types';
+import {
+  UploadedFile,
+  ProcessedImage,
+  LoadingState,
+  ActiveTool,
+  ResizeOptions,
+  MetadataPolicy,
+  OutputFormatOptions,
+  ReceiptResult,
+  ExportConfig,
+  Pipeline,
+  EnhanceOptions,
+  PdfExportOptions,
+  OcrResult,
+  OcrWord,
+  FileReview,
+  ReceiptData,
+  ReviewStatus,
+  ChatMessage,
+  SpendingLimits,
+  UsageRecord,
+  GenerationOptions,
+  GenerationParams,
+  PromptLibrary,
+  BuiltInPromptId,
+} from './types';
 import {
   preprocessImage,
   enhanceForOcr,
   performOcr,
-  analyzeImage,
+  performOcrStream,
+  performOcrWithLayout,
+  extractReceipt,
+  chat,
   editImage,
-  generateImage,
-} from './services/geminiService';
+  generateImages,
+  isRetryableAiError,
+  getAiProvider,
+  setAiProvider,
+  AI_PROVIDERS,
+  AiProviderId,
+} from './services/aiService';
+import {
+  appendStep,
+  createHistoryStep,
+  getCurrentStep,
+  getStep,
+  redoStep,
+  revertToStep,
+  revokeHistoryUrls,
+  undoStep,
+} from './services/historyService';
+import { resizeImage, describeResize, DEFAULT_RESIZE_OPTIONS } from './services/resizeService';
+import { createReceiptResult } from './services/receiptValidation';
+import { buildChatTurns, chatToMarkdown, createChatMessage, getAttachedFileIds } from './services/chatService';
+import {
+  clearUsage,
+  getLimitBreach,
+  getUsageRecords,
+  loadSpendingLimits,
+  saveSpendingLimits,
+  subscribeToUsage,
+  sumCost,
+  withUsageScope,
+} from './services/usageService';
+import { buildExportFiles, DEFAULT_EXPORT_CONFIG, ExportSource } from './services/exportService';
+import { buildPdf, DEFAULT_PDF_EXPORT_OPTIONS, imageToPdfPage, PdfPage } from './services/pdfService';
+import {
+  convertImageFormat,
+  describeFormat,
+  getExtensionForMimeType,
+  getFormatLabel,
+  DEFAULT_OUTPUT_FORMAT,
+} from './services/formatService';
+import ResizeControls from './components/ResizeControls';
+import OutputFormatControls from './components/OutputFormatControls';
+import ReceiptDataView from './components/ReceiptDataView';
+import MetadataPanel from './components/MetadataPanel';
+import ExportPanel from './components/ExportPanel';
+import PdfExportPanel from './components/PdfExportPanel';
+import OcrResultView from './components/OcrResultView';
+import ReviewPanel from './components/ReviewPanel';
+import DuplicateReviewDialog from './components/DuplicateReviewDialog';
+import UsageDashboard from './components/UsageDashboard';
+import ChatPanel from './components/ChatPanel';
+import HistoryTimeline, { CompareSelection } from './components/HistoryTimeline';
+import JobQueuePanel, { BatchJobState, JOB_STATUS_COLORS } from './components/JobQueuePanel';
+import PipelineBuilder from './components/PipelineBuilder';
+import CornerEditor from './components/CornerEditor';
+import EnhanceControls from './components/EnhanceControls';
+import TransformEditor from './components/TransformEditor';
+import GenerationControls from './components/GenerationControls';
+import GenerationGrid from './components/GenerationGrid';
+import PromptPicker from './components/PromptPicker';
+import PromptLibraryPanel from './components/PromptLibraryPanel';
+import MaskEditor from './components/MaskEditor';
+import {
+  createJobQueue,
+  DEFAULT_JOB_QUEUE_OPTIONS,
+  JobQueue,
+  JobQueueOptions,
+  JobStatus,
+  JobWorker,
+} from './services/jobQueue';
+import {
+  BUILT_IN_PIPELINES,
+  loadSavedPipelines,
+  savePipelines,
+  runPipeline,
+  validatePipeline,
+} from './services/pipelineService';
+import {
+  loadWorkspace,
+  clearWorkspace,
+  createWorkspaceSync,
+  saveMeta,
+  getStorageEstimate,
+  requestPersistentStorage,
+  StorageEstimate,
+} from './services/workspaceStore';
+import { dataURLtoBlob, fileToDataUrl, getFileNameParts } from './services/fileUtils';
+import { deskewImage, detectDocumentQuad, warpPerspective, DocumentDetection, Quad } from './services/deskewService';
+import { cropImage, flipImage, rotateImage, straightenImage } from './services/transformService';
+import { DEFAULT_ENHANCE_OPTIONS, describeEnhance, enhanceImageLocally, hasActiveEnhanceFilters } from './services/enhanceService';
+import { applyExifOrientation, stripMetadata } from './services/exifService';
+import { MaskShape, compositeMaskedEdit, renderMaskDataUrl, toImagePixels } from './services/maskService';
+import { loadImage } from './services/imageUtils';
+import { DEFAULT_GENERATION_OPTIONS, getGeneratedFileName, getSupportedGenerationOptions } from './services/generationService';
+import {
+  fillTemplate,
+  getMissingBuiltInVariables,
+  getMissingVariables,
+  loadPromptLibrary,
+  mergePromptLibraries,
+  parsePromptLibraryJson,
+  promptLibraryToJson,
+  savePromptLibrary,
+  setActivePromptLibrary,
+} from './services/promptLibrary';
+import { IMPORT_ACCEPT, ImportedImage, describeSource, importFile } from './services/importService';
+import { getLayoutWords, isLowConfidence, layoutToText } from './services/ocrLayout';
+import {
+    REVIEW_STATUSES,
+    REVIEW_STATUS_COLORS,
+    REVIEW_STATUS_LABELS,
+    ReviewFilter,
+    describeCorrections,
+    findNextWithStatus,
+    getReviewStatus,
+    getReviewedOcrText,
+    getReviewedReceipt,
+    invalidateReview,
+    updateReview,
+} from './services/reviewService';
+import { DuplicateGroup, computeImageHashes, findDuplicateGroups, getPairKey } from './services/duplicateService';
 
-// Helper to convert data URL to Blob for saving
-async function dataURLtoBlob(dataUrl: string): Promise<Blob> {
-    const response = await fetch(dataUrl);
-    return await response.blob();
-}
+// Re-encodes an image for download (if a target format is chosen), applies the metadata policy
+// and picks the extension from the actual mime type of the bytes being saved.
+const prepareImageForDownload = async (
+    source: string | Blob,
+    fallbackExtension: string,
+    outputFormat: OutputFormatOptions,
+    metadataPolicy: MetadataPolicy
+): Promise<{ blob: Blob; extension: string }> => {
+    let blob: Blob;
+    if (outputFormat.mimeType === 'original') {
+        blob = typeof source === 'string' ? await dataURLtoBlob(source) : source;
+    } else {
+        const dataUrl = typeof source === 'string' ? source : await fileToDataUrl(source);
+        blob = await dataURLtoBlob(await convertImageFormat(dataUrl, outputFormat));
+    }
+    blob = await stripMetadata(blob, metadataPolicy);
+    return { blob, extension: getExtensionForMimeType(blob.type, fallbackExtension) };
+};
 
-// Helper to read a File object into a Base64 data URL
-const fileToDataUrl = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = e => {
-            if (typeof e.target?.result === 'string') {
-                resolve(e.target.result);
-            } else {
-                reject(new Error('Failed to read file as data URL.'));
-            }
-        };
-        reader.onerror = error => reject(error);
-        reader.readAsDataURL(file);
-    });
+const formatSizeChange = (before: number, after: number): string => {
+    if (before <= 0 || after <= 0) return '';
+    const percent = Math.round(((after - before) / before) * 100);
+    return ` (${percent > 0 ? '+' : ''}${percent}% vs original)`;
 };
 
-// Efficiently and synchronously calculate size from a data URL.
-function getBase64Size(dataUrl: string): number {
-    const base64Index = dataUrl.indexOf(',');
-    if (base64Index === -1) return 0;
-    
-    const base64 = dataUrl.substring(base64Index + 1);
-    
-    let padding = 0;
-    if (base64.endsWith('==')) {
-        padding = 2;
-    } else if (base64.endsWith('=')) {
-        padding = 1;
-    }
-    
-    return (base64.length * 3 / 4) - padding;
-}
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Live previews of local filters run on a downscaled copy so slider changes stay responsive.
+const ENHANCE_PREVIEW_MAX_EDGE = 900;
+const ENHANCE_PREVIEW_DELAY_MS = 250;
+
+// Feather for masked edits, as a share of the image's longer side.
+const DEFAULT_MASK_FEATHER_PERCENT = 1;
+
+// Images decoded at once for duplicate hashes, so restoring a large workspace doesn't spike memory.
+const HASH_CONCURRENCY = 2;
+
+// Keys for small app state kept in the workspace store next to the files.
+const META_KEYS = {
+    ocrResults: 'ocrResults',
+    receiptResults: 'receiptResults',
+    batchSelectedIds: 'batchSelectedIds',
+    prompts: 'prompts',
+    reviews: 'reviews',
+    dismissedDuplicates: 'dismissedDuplicates',
+    chats: 'chats',
+} as const;
 
 const getErrorMessage = (error: unknown): string => {
     if (error instanceof Error && error.message) {
@@ -66,28 +221,96 @@ const getErrorMessage = (error: unknown): string => {
     return 'An unknown error occurred.';
 };
 
+interface OcrOverlay {
+    stepId: string | null; // The step the words were read from
+    words: OcrWord[];
+    selectedWordId: string | null;
+    onSelectWord: (wordId: string | null) => void;
+}
+
 // Optimized and memoized component for displaying images.
-const ImageWithHistory: React.FC<{ file: UploadedFile | undefined }> = React.memo(({ file }) => {
+// By default the original is shown next to the current step; `compare` picks any two steps instead.
+// A `preview` replaces the right pane and shows the current step on the left.
+// An `ocrOverlay` outlines the recognised words on whichever pane shows the step they were read from.
+const ImageWithHistory: React.FC<{
+    file: UploadedFile | undefined;
+    compare?: CompareSelection | null;
+    preview?: { dataUrl: string; description: string } | null;
+    ocrOverlay?: OcrOverlay | null;
+}> = React.memo(({ file, compare, preview, ocrOverlay }) => {
     if (!file) return null;
 
-    const originalDisplayUrl = file.thumbnailUrl;
-    const originalDescription = 'Original';
     const originalSize = file.file.size;
-    const currentProcessed = file.history.length > 0 ? file.history[file.history.length - 1] : null;
+    const leftStep = preview ? getCurrentStep(file) : compare ? getStep(file, compare.left) : undefined;
+    const rightStep = compare ? getStep(file, compare.right) : getCurrentStep(file);
+    const showRight = compare ? true : !!rightStep;
 
-    return (
-        <div style={styles.imageComparison}>
+    const renderImage = (step: ProcessedImage | undefined, image: React.ReactNode) => {
+        if (!ocrOverlay || ocrOverlay.stepId !== (step?.id ?? null)) return image;
+        return (
+            <div style={styles.overlayContainer}>
+                {image}
+                <svg viewBox="0 0 1 1" preserveAspectRatio="none" style={styles.overlay}>
+                    {ocrOverlay.words.map(word => {
+                        const isSelected = word.id === ocrOverlay.selectedWordId;
+                        const color = isLowConfidence(word) ? '#e8a33d' : '#4fc3f7';
+                        return (
+                            <rect
+                                key={word.id}
+                                x={word.box.x}
+                                y={word.box.y}
+                                width={word.box.width}
+                                height={word.box.height}
+                                fill={isSelected ? color : 'transparent'}
+                                fillOpacity={isSelected ? 0.35 : 0}
+                                stroke={color}
+                                strokeWidth={isSelected ? 2 : 1}
+                                vectorEffect="non-scaling-stroke"
+                                style={{ cursor: 'pointer' }}
+                                onClick={() => ocrOverlay.onSelectWord(isSelected ? null : word.id)}
+                            >
+                                <title>{word.text}</title>
+                            </rect>
+                        );
+                    })}
+                </svg>
+            </div>
+        );
+    };
+
+    const renderPane = (step: ProcessedImage | undefined) => {
+        if (!step) {
+            return (
+                <div style={styles.imageDisplay}>
+                    <h4>Original</h4>
+                    {renderImage(step, <img src={file.thumbnailUrl} alt="Original" style={{maxWidth: '100%', borderRadius: '4px'}}/>)}
+                    <p>{getFormatLabel(file.file.type)} · Size: {(originalSize / 1024).toFixed(2)} KB</p>
+                </div>
+            );
+        }
+        return (
             <div style={styles.imageDisplay}>
-                <h4>{originalDescription}</h4>
-                <img src={originalDisplayUrl} alt={originalDescription} style={{maxWidth: '100%', borderRadius: '4px'}}/>
-                <p>Size: {(originalSize / 1024).toFixed(2)} KB</p>
+                <h4>{step.description}</h4>
+                {renderImage(step, <img src={step.objectUrl} alt={step.description} style={{maxWidth: '100%', borderRadius: '4px'}}/>)}
+                <p>
+                    {getFormatLabel(step.blob.type)} · Size: {step.size > 0 ? `${(step.size / 1024).toFixed(2)} KB` : 'N/A'}
+                    {formatSizeChange(originalSize, step.size)}
+                </p>
             </div>
-            {currentProcessed && currentProcessed.dataUrl && (
+        );
+    };
+
+    return (
+        <div style={styles.imageComparison}>
+            {renderPane(leftStep)}
+            {preview ? (
                 <div style={styles.imageDisplay}>
-                    <h4>{currentProcessed.description}</h4>
-                    <img src={currentProcessed.dataUrl} alt={currentProcessed.description} style={{maxWidth: '100%', borderRadius: '4px'}}/>
-                    <p>Size: {currentProcessed.size > 0 ? `${(currentProcessed.size / 1024).toFixed(2)} KB` : 'N/A'}</p>
+                    <h4>Preview: {preview.description}</h4>
+                    <img src={preview.dataUrl} alt="Preview" style={{maxWidth: '100%', borderRadius: '4px'}}/>
+                    <p>Reduced-size preview, not applied yet</p>
                 </div>
+            ) : (
+                showRight && renderPane(rightStep)
             )}
         </div>
     );
@@ -101,10 +324,69 @@ const App: React.FC = () => {
     const [batchSelectedIds, setBatchSelectedIds] = useState<Set<string>>(new Set());
     const [loadingState, setLoadingState] = useState<LoadingState>({ active: false, message: '' });
     const [prompts, setPrompts] = useState<{ [key in ActiveTool]?: string }>({});
-    const [ocrResults, setOcrResults] = useState<Record<string, { name: string, text: string }>>({});
-    const [analysisResult, setAnalysisResult] = useState<string>('');
+    const [ocrResults, setOcrResults] = useState<Record<string, OcrResult>>({});
+    const [ocrWithLayout, setOcrWithLayout] = useState(false);
+    const [selectedOcrWordId, setSelectedOcrWordId] = useState<string | null>(null);
+    const [receiptResults, setReceiptResults] = useState<Record<string, ReceiptResult>>({});
+    const [reviews, setReviews] = useState<Record<string, FileReview>>({});
+    const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all');
+    // Pairs of file ids the user marked as not duplicates, see getPairKey.
+    const [dismissedDuplicates, setDismissedDuplicates] = useState<string[]>([]);
+    const [isDuplicateDialogOpen, setIsDuplicateDialogOpen] = useState(false);
+    // Analyzer conversations by file id.
+    const [chats, setChats] = useState<Record<string, ChatMessage[]>>({});
+    const [chatAttachments, setChatAttachments] = useState<string[]>([]);
+    // The streaming request in progress. Streams do not block the UI; only one runs at a time.
+    const [textStream, setTextStream] = useState<{ kind: 'chat' | 'ocr'; fileId: string; controller: AbortController } | null>(null);
+    const [compareSteps, setCompareSteps] = useState<CompareSelection | null>(null);
     const [downloadFolderName, setDownloadFolderName] = useState<string | null>(null);
     const [canUseDirectoryPicker, setCanUseDirectoryPicker] = useState(false);
+    const [resizeOptions, setResizeOptions] = useState<ResizeOptions>(DEFAULT_RESIZE_OPTIONS);
+    const [outputFormat, setOutputFormat] = useState<OutputFormatOptions>(DEFAULT_OUTPUT_FORMAT);
+    const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('keep');
+    const [exportConfig, setExportConfig] = useState<ExportConfig>(DEFAULT_EXPORT_CONFIG);
+    const [pdfExportOptions, setPdfExportOptions] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+    const [isWorkspaceRestored, setIsWorkspaceRestored] = useState(false);
+    const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+    const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+    const [promptLibraryError, setPromptLibraryError] = useState<string | null>(null);
+    const [workspaceSync] = useState(createWorkspaceSync);
+    const [batchJob, setBatchJob] = useState<BatchJobState | null>(null);
+    const [queueOptions, setQueueOptions] = useState<JobQueueOptions>(DEFAULT_JOB_QUEUE_OPTIONS);
+    const [aiProviderId, setAiProviderId] = useState<AiProviderId>(() => getAiProvider().id);
+    const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(getUsageRecords);
+    const [spendingLimits, setSpendingLimits] = useState<SpendingLimits>(loadSpendingLimits);
+    const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(loadPromptLibrary);
+    const [savedPipelines, setSavedPipelines] = useState<Pipeline[]>(loadSavedPipelines);
+    const [selectedPipelineId, setSelectedPipelineId] = useState<string>(BUILT_IN_PIPELINES[0].id);
+    const [enhanceOptions, setEnhanceOptions] = useState<EnhanceOptions>(DEFAULT_ENHANCE_OPTIONS);
+    const [isEnhancePreviewOn, setIsEnhancePreviewOn] = useState(false);
+    const [enhancePreview, setEnhancePreview] = useState<{ fileId: string; stepId: string | null; dataUrl: string } | null>(null);
+    // The image and step the corners were detected on, so they are never applied to a different version.
+    const [cornerEditor, setCornerEditor] = useState<{ fileId: string; stepId: string | null; dataUrl: string; detection: DocumentDetection } | null>(null);
+    const [isMaskMode, setIsMaskMode] = useState(false);
+    const [maskShapes, setMaskShapes] = useState<MaskShape[]>([]);
+    const [maskFeather, setMaskFeather] = useState(DEFAULT_MASK_FEATHER_PERCENT);
+    // A masked edit waiting to be applied: the model's raw output is kept so the feather can be
+    // changed and re-blended without another request.
+    const [maskedEdit, setMaskedEdit] = useState<{
+        fileId: string;
+        stepId: string | null;
+        prompt: string;
+        original: string;
+        edited: string;
+        result: string | null;
+    } | null>(null);
+    const [showMaskedBefore, setShowMaskedBefore] = useState(false);
+    const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+    // Variations waiting to be picked; none are in the workspace until added.
+    const [generationResult, setGenerationResult] = useState<{ params: Omit<GenerationParams, 'variation'>; images: string[] } | null>(null);
+
+    const allPipelines = useMemo(() => [...BUILT_IN_PIPELINES, ...savedPipelines], [savedPipelines]);
+
+    const isBatchRunning = !!batchJob && !batchJob.finished;
+    const batchCost = useMemo(() => (batchJob ? sumCost(usageRecords, batchJob.id) : 0), [batchJob, usageRecords]);
+    const isBusy = loadingState.active || isBatchRunning;
 
     const uploadedFilesRef = useRef(uploadedFiles);
     useEffect(() => {
@@ -112,6 +394,35 @@ const App: React.FC = () => {
     }, [uploadedFiles]);
 
     const directoryHandleRef = useRef<FileSystemDirectoryHandle | null>(null);
+    const jobQueueRef = useRef<JobQueue | null>(null);
+    const lastJobRef = useRef<{ title: string; worker: JobWorker } | null>(null);
+
+    // Read by running batches, so a limit changed mid-batch applies to the next item.
+    const spendingLimitsRef = useRef(spendingLimits);
+    useEffect(() => {
+        spendingLimitsRef.current = spendingLimits;
+        saveSpendingLimits(spendingLimits);
+    }, [spendingLimits]);
+
+    useEffect(() => subscribeToUsage(setUsageRecords), []);
+
+    useEffect(() => {
+        savePipelines(savedPipelines);
+    }, [savedPipelines]);
+
+    // Services read the built-in prompt overrides from the active library.
+    const promptLibraryRef = useRef(promptLibrary);
+    useEffect(() => {
+        promptLibraryRef.current = promptLibrary;
+        setActivePromptLibrary(promptLibrary);
+        try {
+            savePromptLibrary(promptLibrary);
+            setPromptLibraryError(null);
+        } catch (error) {
+            console.error('Failed to save the prompt library:', error);
+            setPromptLibraryError(`Prompt library changes are not being saved: ${getErrorMessage(error)}`);
+        }
+    }, [promptLibrary]);
     
     // Effect to manage Object URL cleanup
     useEffect(() => {
@@ -119,10 +430,106 @@ const App: React.FC = () => {
             // On component unmount, revoke all existing thumbnail URLs
             uploadedFilesRef.current.forEach(file => {
                 URL.revokeObjectURL(file.thumbnailUrl);
+                revokeHistoryUrls(file);
             });
         };
     }, []);
 
+    // Restore the previous session before anything is written back.
+    useEffect(() => {
+        let cancelled = false;
+        setLoadingState({ active: true, message: 'Restoring workspace...' });
+        loadWorkspace()
+            .then(({ files, meta }) => {
+                if (cancelled) {
+                    files.forEach(file => {
+                        URL.revokeObjectURL(file.thumbnailUrl);
+                        revokeHistoryUrls(file);
+                    });
+                    return;
+                }
+                workspaceSync.markLoaded(files);
+                setUploadedFiles(prev => [...files, ...prev]);
+                setOcrResults(prev => ({ ...(meta[META_KEYS.ocrResults] as typeof prev | undefined), ...prev }));
+                setReceiptResults(prev => ({ ...(meta[META_KEYS.receiptResults] as typeof prev | undefined), ...prev }));
+                setPrompts(prev => ({ ...(meta[META_KEYS.prompts] as typeof prev | undefined), ...prev }));
+                setReviews(prev => ({ ...(meta[META_KEYS.reviews] as typeof prev | undefined), ...prev }));
+                setChats(prev => ({ ...(meta[META_KEYS.chats] as typeof prev | undefined), ...prev }));
+                const dismissed = meta[META_KEYS.dismissedDuplicates];
+                if (Array.isArray(dismissed)) {
+                    setDismissedDuplicates(prev => [...new Set([...dismissed as string[], ...prev])]);
+                }
+                hashFilesInBackground(files.filter(file => !file.hashes));
+                const selection = meta[META_KEYS.batchSelectedIds];
+                if (Array.isArray(selection)) {
+                    setBatchSelectedIds(prev => new Set([...selection as string[], ...prev]));
+                }
+            })
+            .catch(error => {
+                if (cancelled) return;
+                console.error('Failed to restore workspace:', error);
+                setWorkspaceError(`Could not restore the previous session: ${getErrorMessage(error)}`);
+            })
+            .finally(() => {
+                if (cancelled) return;
+                setIsWorkspaceRestored(true);
+                setLoadingState({ active: false, message: '' });
+            });
+        requestPersistentStorage().catch(() => undefined);
+        return () => {
+            cancelled = true;
+        };
+    }, [workspaceSync]);
+
+    const refreshStorageEstimate = useCallback(() => {
+        getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+    }, []);
+
+    useEffect(() => {
+        if (!isWorkspaceRestored) return;
+        workspaceSync.syncFiles(uploadedFiles)
+            .then(() => setWorkspaceError(null))
+            .catch(error => {
+                console.error('Failed to save workspace:', error);
+                setWorkspaceError(`Changes are not being saved: ${getErrorMessage(error)}`);
+            })
+            .finally(refreshStorageEstimate);
+    }, [uploadedFiles, isWorkspaceRestored, workspaceSync, refreshStorageEstimate]);
+
+    // Small app state is cheap to rewrite whole, so it is saved on every change.
+    const persistMeta = useCallback((key: string, value: unknown) => {
+        saveMeta(key, value).catch(error => console.error(`Failed to save ${key}:`, error));
+    }, []);
+
+    useEffect(() => {
+        if (isWorkspaceRestored) persistMeta(META_KEYS.ocrResults, ocrResults);
+    }, [ocrResults, isWorkspaceRestored, persistMeta]);
+
+    useEffect(() => {
+        if (isWorkspaceRestored) persistMeta(META_KEYS.receiptResults, receiptResults);
+    }, [receiptResults, isWorkspaceRestored, persistMeta]);
+
+    useEffect(() => {
+        if (isWorkspaceRestored) persistMeta(META_KEYS.batchSelectedIds, Array.from(batchSelectedIds));
+    }, [batchSelectedIds, isWorkspaceRestored, persistMeta]);
+
+    useEffect(() => {
+        if (isWorkspaceRestored) persistMeta(META_KEYS.prompts, prompts);
+    }, [prompts, isWorkspaceRestored, persistMeta]);
+
+    useEffect(() => {
+        if (isWorkspaceRestored) persistMeta(META_KEYS.reviews, reviews);
+    }, [reviews, isWorkspaceRestored, persistMeta]);
+
+    useEffect(() => {
+        if (isWorkspaceRestored) persistMeta(META_KEYS.dismissedDuplicates, dismissedDuplicates);
+    }, [dismissedDuplicates, isWorkspaceRestored, persistMeta]);
+
+    // Skipped while a reply streams in, so the store is not rewritten for every chunk.
+    useEffect(() => {
+        if (isWorkspaceRestored && textStream?.kind !== 'chat') persistMeta(META_KEYS.chats, chats);
+    }, [chats, textStream, isWorkspaceRestored, persistMeta]);
+
     useEffect(() => {
         const isSupported = 'showDirectoryPicker' in window;
         const isTopLevel = window.self === window.top;
@@ -139,62 +546,107 @@ const App: React.FC = () => {
     }, [uploadedFiles, selectedFileId]);
 
     useEffect(() => {
-        setAnalysisResult('');
+        setChatAttachments([]);
+        setCompareSteps(null);
+        setSelectedOcrWordId(null);
     }, [selectedFileId]);
 
     const selectedFile = useMemo(() => uploadedFiles.find(f => f.id === selectedFileId), [uploadedFiles, selectedFileId]);
 
+    const duplicateGroups = useMemo(() => findDuplicateGroups(
+        uploadedFiles.map(file => ({
+            id: file.id,
+            hashes: file.hashes,
+            receipt: getReviewedReceipt(receiptResults[file.id], reviews[file.id])?.data ?? null,
+        })),
+        new Set(dismissedDuplicates)
+    ), [uploadedFiles, receiptResults, reviews, dismissedDuplicates]);
+    const duplicateIds = useMemo(() => new Set(duplicateGroups.flatMap(group => group.fileIds)), [duplicateGroups]);
+
+    const visibleFiles = useMemo(
+        () => (reviewFilter === 'all' ? uploadedFiles : uploadedFiles.filter(f => getReviewStatus(reviews[f.id]) === reviewFilter)),
+        [uploadedFiles, reviews, reviewFilter]
+    );
+
+    const selectedOcrResult = selectedFileId ? ocrResults[selectedFileId] : undefined;
+    const ocrOverlay = useMemo<OcrOverlay | null>(() => {
+        if (!selectedOcrResult?.layout || selectedOcrResult.stepId === undefined) return null;
+        return {
+            stepId: selectedOcrResult.stepId,
+            words: getLayoutWords(selectedOcrResult.layout),
+            selectedWordId: selectedOcrWordId,
+            onSelectWord: setSelectedOcrWordId,
+        };
+    }, [selectedOcrResult, selectedOcrWordId]);
+
     // Derived state for the currently displayed image (original or last processed)
     const currentImageForDisplay = useMemo(() => {
         if (!selectedFile) return undefined;
-        if (selectedFile.history.length > 0) {
-            return selectedFile.history[selectedFile.history.length - 1];
+        const current = getCurrentStep(selectedFile);
+        if (current) {
+            return current;
         }
-        // If no history, represent the original file for display purposes
+        // If the original is current, represent the original file for display purposes
         return {
-            dataUrl: selectedFile.thumbnailUrl, // Use object URL for display
+            objectUrl: selectedFile.thumbnailUrl,
             size: selectedFile.file.size,
             description: 'Original',
         };
     }, [selectedFile]);
 
-    // NEW: Creates a file object without reading the full file into memory.
-    const createUploadedFile = (file: File): Promise<UploadedFile> => {
-        return new Promise((resolve, reject) => {
-            if (!file.type.startsWith('image/')) {
-                return reject(new Error(`File is not a valid image: ${file.name}`));
+    // Creates a file object without keeping the file contents in memory. Photos with an EXIF
+    // rotation get an upright first step so every later tool sees the same pixels.
+    const createUploadedFile = async ({ file, source, metadata }: ImportedImage): Promise<UploadedFile> => {
+        if (!file.type.startsWith('image/')) {
+            throw new Error(`File is not a valid image: ${file.name}`);
+        }
+        const newFile: UploadedFile = {
+            id: `${file.name}-${Date.now()}`,
+            file,
+            thumbnailUrl: URL.createObjectURL(file),
+            history: [], // History starts empty, original is not stored here
+            currentStepId: null,
+            redoStack: [],
+            metadata,
+            source,
+            hashes: null,
+            generation: null,
+        };
+        if (metadata?.orientation && metadata.orientation > 1) {
+            try {
+                const upright = await applyExifOrientation(file);
+                return appendStep(newFile, createHistoryStep(upright, `Auto-rotated (EXIF orientation ${metadata.orientation})`, null));
+            } catch (error) {
+                console.warn(`Could not apply the EXIF orientation of ${file.name}:`, error);
             }
-            const thumbnailUrl = URL.createObjectURL(file);
-            const newFile: UploadedFile = {
-                id: `${file.name}-${Date.now()}`,
-                file,
-                thumbnailUrl,
-                history: [], // History starts empty, original is not stored here
-            };
-            resolve(newFile);
-        });
+        }
+        return newFile;
     };
 
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
-            setLoadingState({ active: true, message: 'Uploading files...' });
-            const files = Array.from(e.target.files);
-            const results = await Promise.allSettled(files.map(createUploadedFile));
+            setLoadingState({ active: true, message: 'Importing files...' });
+            const files = Array.from<File>(e.target.files);
+            // A PDF or multi-page TIFF expands into one entry per page.
+            const results = await Promise.allSettled(
+                files.map(async file => Promise.all((await importFile(file)).map(createUploadedFile)))
+            );
 
             const newFiles: UploadedFile[] = [];
             const failedFiles: string[] = [];
 
             results.forEach((result, index) => {
                 if (result.status === 'fulfilled') {
-                    newFiles.push(result.value);
+                    newFiles.push(...result.value);
                 } else {
                     console.error("File upload failed:", result.reason);
-                    failedFiles.push(files[index].name);
+                    failedFiles.push(`${files[index].name}: ${getErrorMessage(result.reason)}`);
                 }
             });
 
             if (newFiles.length > 0) {
                 setUploadedFiles(prev => [...prev, ...newFiles]);
+                hashFilesInBackground(newFiles);
             }
             
             if (failedFiles.length > 0) {
@@ -205,91 +657,262 @@ const App: React.FC = () => {
         }
     };
     
-    const updateFileHistory = useCallback((fileId: string, dataUrl: string, description: string) => {
-        const newHistoryEntry: ProcessedImage = {
-            dataUrl,
-            size: getBase64Size(dataUrl),
-            description,
-        };
+    // Called whenever a file's image or one of its results changes; see invalidateReview.
+    const resetReview = useCallback((fileId: string, replaced?: 'ocrText' | 'receipt') => {
+        setReviews(prev => {
+            const review = prev[fileId];
+            const next = review && invalidateReview(review, replaced);
+            return next && next !== review ? { ...prev, [fileId]: next } : prev;
+        });
+    }, []);
 
+    // Adds a step as a child of the current one. If the current step is not the newest, this starts a branch.
+    // The step is built outside the updater, which may run twice; only its parent is set in there.
+    // Returns the new step's id.
+    const updateFileHistory = useCallback((fileId: string, dataUrl: string, description: string): string => {
+        const step = createHistoryStep(dataUrl, description, null);
         setUploadedFiles(currentFiles =>
             currentFiles.map(f => {
                 if (f.id === fileId) {
-                    const newHistory = [...f.history];
-                    // Prune the dataUrl of the PREVIOUSLY last item to save memory
-                    if (newHistory.length > 0) {
-                        const lastIndex = newHistory.length - 1;
-                        newHistory[lastIndex] = { ...newHistory[lastIndex], dataUrl: '' };
-                    }
-                    newHistory.push(newHistoryEntry);
-                    return { ...f, history: newHistory };
+                    return appendStep(f, { ...step, parentId: f.currentStepId });
                 }
                 return f;
             })
         );
+        resetReview(fileId);
+        return step.id;
+    }, [resetReview]);
+
+    const updateFile = useCallback((fileId: string, update: (file: UploadedFile) => UploadedFile) => {
+        setUploadedFiles(currentFiles => currentFiles.map(f => (f.id === fileId ? update(f) : f)));
     }, []);
 
-    // Gets the data URL for the latest version of a file, lazy-loading from the File object if needed.
+    const moveToStep = useCallback((fileId: string, move: (file: UploadedFile) => UploadedFile) => {
+        updateFile(fileId, move);
+        resetReview(fileId);
+    }, [updateFile, resetReview]);
+
+    // Hashes for duplicate detection decode each image again, so they are filled in after the files are listed.
+    const hashFilesInBackground = useCallback((files: UploadedFile[]) => {
+        const filesById = new Map(files.map(file => [file.id, file]));
+        const queue = createJobQueue(
+            files.map(file => ({ id: file.id, label: file.file.name })),
+            async fileId => {
+                const file = filesById.get(fileId)!;
+                try {
+                    const hashes = await computeImageHashes(getCurrentStep(file)?.blob ?? file.file);
+                    updateFile(fileId, f => ({ ...f, hashes }));
+                } catch (error) {
+                    console.warn(`Could not hash ${file.file.name} for duplicate detection:`, error);
+                }
+            },
+            { ...DEFAULT_JOB_QUEUE_OPTIONS, concurrency: HASH_CONCURRENCY, maxRetries: 0 },
+            { onChange: () => {}, isRetryable: () => false }
+        );
+        queue.run();
+    }, [updateFile]);
+
+    // Gets the data URL for the current version of a file, lazy-loading from a Blob or the File object if needed.
     const getLatestImageDataUrl = async (file: UploadedFile): Promise<string> => {
-        if (file.history.length > 0) {
-            const latest = file.history[file.history.length - 1];
-            if (latest.dataUrl) {
-                return latest.dataUrl;
-            }
+        const current = getCurrentStep(file);
+        if (current) {
+            return current.dataUrl || fileToDataUrl(current.blob);
         }
-        // If no history or last history is pruned, read from the original file.
         return fileToDataUrl(file.file);
     };
 
-    const handleBatchAction = useCallback(async (
+    const handleUndo = useCallback(() => {
+        if (selectedFileId) moveToStep(selectedFileId, undoStep);
+    }, [selectedFileId, moveToStep]);
+
+    const handleRedo = useCallback(() => {
+        if (selectedFileId) moveToStep(selectedFileId, redoStep);
+    }, [selectedFileId, moveToStep]);
+
+    const handleRevertToStep = useCallback((stepId: string | null) => {
+        if (selectedFileId) moveToStep(selectedFileId, f => revertToStep(f, stepId));
+    }, [selectedFileId, moveToStep]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isBusy || !(e.ctrlKey || e.metaKey)) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleUndo, handleRedo, isBusy]);
+
+    const requireFile = (fileId: string): UploadedFile => {
+        const file = uploadedFilesRef.current.find(f => f.id === fileId);
+        if (!file) {
+            throw new Error('The file was removed from the workspace.');
+        }
+        return file;
+    };
+
+    // Runs one worker per file through the job queue. Only one batch job runs at a time.
+    const runBatchJob = useCallback(async (title: string, targetFileIds: string[], worker: JobWorker) => {
+      if (targetFileIds.length === 0 || jobQueueRef.current) return;
+
+      const items = targetFileIds.map(id => ({
+          id,
+          label: uploadedFilesRef.current.find(f => f.id === id)?.file.name ?? id,
+      }));
+      // Every model call made by the worker is recorded against its file and this batch. Before an
+      // item starts, the batch's average cost per item so far predicts whether it would pass a limit.
+      const batchId = `batch-${Date.now()}`;
+      let runningCount = 0;
+      let finishedCount = 0;
+      const meteredWorker: JobWorker = async (fileId, context) => {
+          const usage = getUsageRecords();
+          const batchCost = sumCost(usage, batchId);
+          const averageCost = finishedCount > 0 ? batchCost / finishedCount : 0;
+          const breach = getLimitBreach(spendingLimitsRef.current, { session: sumCost(usage), batch: batchCost }, averageCost * (runningCount + 1));
+          if (breach) {
+              queue.cancel(breach);
+              throw new Error(breach);
+          }
+          runningCount++;
+          try {
+              await worker(fileId, {
+                  ...context,
+                  retry: operation => context.retry(() => withUsageScope({ fileId, batchId }, operation)),
+              });
+          } finally {
+              runningCount--;
+              finishedCount++;
+          }
+      };
+
+      const queue = createJobQueue(items, meteredWorker, queueOptions, {
+          onChange: updatedItems => setBatchJob(prev => (prev ? { ...prev, items: updatedItems } : prev)),
+          isRetryable: isRetryableAiError,
+      });
+      jobQueueRef.current = queue;
+      lastJobRef.current = { title, worker };
+      setBatchJob({ id: batchId, title, items: [], paused: false, finished: false });
+
+      try {
+          await queue.run();
+      } finally {
+          jobQueueRef.current = null;
+          setBatchJob(prev => (prev ? { ...prev, paused: false, finished: true } : prev));
+      }
+    }, [queueOptions]);
+
+    // Single requests cannot be estimated up front, so they only stop once the session limit is used up.
+    const checkSessionLimit = () => {
+        const breach = getLimitBreach({ perBatch: null, perSession: spendingLimitsRef.current.perSession }, { session: sumCost(getUsageRecords()), batch: 0 }, 0);
+        if (breach) alert(`${breach}. Raise or clear the limit under Usage to continue.`);
+        return !breach;
+    };
+
+    // Fills a prompt's {{variables}} from the library; null (after telling the user) if any has no value.
+    const resolvePrompt = (template: string): string | null => {
+        const { variables } = promptLibraryRef.current;
+        const missing = getMissingVariables(template, variables);
+        if (missing.length > 0) {
+            alert(`Enter a value for ${missing.map(name => `{{${name}}}`).join(', ')} under Saved prompts first.`);
+            return null;
+        }
+        return fillTemplate(template, variables);
+    };
+
+    // The same check for the built-in prompts a Processor action sends, whose overrides may use variables.
+    const checkBuiltInPrompts = (ids: BuiltInPromptId[]): boolean => {
+        const missing = getMissingBuiltInVariables(promptLibraryRef.current, ids);
+        if (missing.length > 0) {
+            alert(`Enter a value for ${missing.map(name => `{{${name}}}`).join(', ')} under Prompt Library > Variables first.`);
+            return false;
+        }
+        return true;
+    };
+
+    const handlePauseJob = () => {
+        jobQueueRef.current?.pause();
+        setBatchJob(prev => (prev ? { ...prev, paused: true } : prev));
+    };
+
+    const handleResumeJob = () => {
+        jobQueueRef.current?.resume();
+        setBatchJob(prev => (prev ? { ...prev, paused: false } : prev));
+    };
+
+    const handleCancelJob = () => {
+        jobQueueRef.current?.cancel();
+    };
+
+    const handleRetryFailedJobs = () => {
+        const lastJob = lastJobRef.current;
+        if (!batchJob || !lastJob) return;
+        const failedIds = batchJob.items.filter(item => item.status === 'failed').map(item => item.id);
+        runBatchJob(lastJob.title, failedIds, lastJob.worker);
+    };
+
+    const handleBatchAction = useCallback((
       processorFn: (dataUrl: string) => Promise<string>,
       description: string,
       targetFileIds: string[]
     ) => {
-      if (targetFileIds.length === 0) return;
+      return runBatchJob(description, targetFileIds, async (fileId, { retry, signal }) => {
+          const file = requireFile(fileId);
+          const currentImageDataUrl = await getLatestImageDataUrl(file);
+          const processedDataUrl = await retry(() => processorFn(currentImageDataUrl));
+          signal.throwIfAborted();
+          updateFileHistory(fileId, processedDataUrl, description);
+      });
+    }, [runBatchJob, updateFileHistory]);
 
-      setLoadingState({ active: true, message: `Starting batch ${description.toLowerCase()}...` });
-      try {
-        for (let i = 0; i < targetFileIds.length; i++) {
-          const fileId = targetFileIds[i];
-          const file = uploadedFilesRef.current.find(f => f.id === fileId);
-          if (file) {
-            setLoadingState({ active: true, message: `Processing ${i + 1}/${targetFileIds.length}: ${file.file.name}` });
-            const currentImageDataUrl = await getLatestImageDataUrl(file);
-            const processedDataUrl = await processorFn(currentImageDataUrl);
-            updateFileHistory(fileId, processedDataUrl, description);
-          }
-        }
-      } catch (error) {
-          console.error(`${description} failed:`, error);
-          alert(`Failed to ${description.toLowerCase()} one or more images.\n\n${getErrorMessage(error)}`);
-      } finally {
-          setLoadingState({ active: false, message: '' });
-      }
-    }, [updateFileHistory]);
+    const handleBatchPreprocess = useCallback((targetFileIds: string[]) => {
+      if (!checkBuiltInPrompts(['preprocess'])) return;
+      return handleBatchAction(preprocessImage, 'Preprocessed', targetFileIds);
+    }, [handleBatchAction]);
 
-    const handleBatchOcr = useCallback(async (targetFileIds: string[]) => {
-      if (targetFileIds.length === 0) return;
+    const handleBatchEnhanceForOcr = useCallback((targetFileIds: string[]) => {
+      if (!checkBuiltInPrompts(['enhanceForOcr'])) return;
+      return handleBatchAction(enhanceForOcr, 'Enhanced for OCR', targetFileIds);
+    }, [handleBatchAction]);
 
-      setLoadingState({ active: true, message: 'Starting batch OCR...' });
-      try {
-        for (let i = 0; i < targetFileIds.length; i++) {
-          const fileId = targetFileIds[i];
-          const file = uploadedFilesRef.current.find(f => f.id === fileId);
-          if (file) {
-            setLoadingState({ active: true, message: `Performing OCR ${i + 1}/${targetFileIds.length}: ${file.file.name}` });
-            const currentImageDataUrl = await getLatestImageDataUrl(file);
-            const text = await performOcr(currentImageDataUrl);
-            setOcrResults(prev => ({ ...prev, [fileId]: { name: file.file.name, text } }));
+    const handleBatchOcr = useCallback((targetFileIds: string[]) => {
+      if (!checkBuiltInPrompts([ocrWithLayout ? 'ocrLayout' : 'ocr'])) return;
+      return runBatchJob('OCR', targetFileIds, async (fileId, { retry, signal }) => {
+          const file = requireFile(fileId);
+          const currentImageDataUrl = await getLatestImageDataUrl(file);
+          let result: OcrResult;
+          if (ocrWithLayout) {
+              const layout = await retry(() => performOcrWithLayout(currentImageDataUrl));
+              result = { name: file.file.name, text: layoutToText(layout), layout, stepId: file.currentStepId };
+          } else {
+              const text = await retry(() => performOcr(currentImageDataUrl));
+              result = { name: file.file.name, text, stepId: file.currentStepId };
           }
-        }
-      } catch (error) {
-        console.error('OCR failed:', error);
-        alert(`Failed to perform OCR on one or more images.\n\n${getErrorMessage(error)}`);
-      } finally {
-        setLoadingState({ active: false, message: '' });
-      }
-    }, []);
+          signal.throwIfAborted();
+          setOcrResults(prev => ({ ...prev, [fileId]: result }));
+          resetReview(fileId, 'ocrText');
+      });
+    }, [runBatchJob, ocrWithLayout, resetReview]);
+
+    const handleBatchExtractReceipts = useCallback((targetFileIds: string[]) => {
+      if (!checkBuiltInPrompts(['extractReceipt'])) return;
+      return runBatchJob('Receipt extraction', targetFileIds, async (fileId, { retry, signal }) => {
+          const file = requireFile(fileId);
+          const currentImageDataUrl = await getLatestImageDataUrl(file);
+          const data = await retry(() => extractReceipt(currentImageDataUrl));
+          signal.throwIfAborted();
+          setReceiptResults(prev => ({ ...prev, [fileId]: createReceiptResult(file.file.name, data, file.metadata?.captureDate ?? null) }));
+          resetReview(fileId, 'receipt');
+      });
+    }, [runBatchJob, resetReview]);
 
     const saveFile = useCallback(async (blob: Blob, fileName: string) => {
         const downloadWithAnchor = () => {
@@ -318,65 +941,68 @@ const App: React.FC = () => {
         }
     }, []);
 
-    const getFileNameParts = (fileName: string) => {
-        const dotIndex = fileName.lastIndexOf('.');
-        if (dotIndex === -1 || dotIndex === 0) {
-            return { baseName: fileName, extension: '' };
+    const handleRunPipeline = useCallback((pipeline: Pipeline, targetFileIds: string[]) => {
+        const problems = validatePipeline(pipeline, promptLibraryRef.current);
+        if (problems.length > 0) {
+            alert(`The pipeline "${pipeline.name}" cannot run:\n\n${problems.join('\n')}`);
+            return;
         }
-        return {
-            baseName: fileName.substring(0, dotIndex),
-            extension: fileName.substring(dotIndex),
-        };
+        return runBatchJob(pipeline.name, targetFileIds, async (fileId, jobContext) => {
+            const file = requireFile(fileId);
+            const { baseName, extension } = getFileNameParts(file.file.name);
+            const initialDataUrl = await getLatestImageDataUrl(file);
+            // OCR results refer to the step the pipeline committed last, like they do outside pipelines.
+            let stepId = file.currentStepId;
+
+            await runPipeline(pipeline, initialDataUrl, {
+                ...jobContext,
+                commitImage: (dataUrl, description) => {
+                    stepId = updateFileHistory(fileId, dataUrl, description);
+                },
+                commitOcr: text => {
+                    setOcrResults(prev => ({ ...prev, [fileId]: { name: file.file.name, text, stepId } }));
+                    resetReview(fileId, 'ocrText');
+                },
+                commitReceipt: data => {
+                    setReceiptResults(prev => ({
+                        ...prev,
+                        [fileId]: createReceiptResult(file.file.name, data, file.metadata?.captureDate ?? null),
+                    }));
+                    resetReview(fileId, 'receipt');
+                },
+                saveImage: async (dataUrl, suffix) => {
+                    const image = await prepareImageForDownload(dataUrl, extension, outputFormat, metadataPolicy);
+                    await saveFile(image.blob, `${baseName}_${suffix}${image.extension}`);
+                },
+                saveText: async (text, suffix) => {
+                    await saveFile(new Blob([text], { type: 'text/plain' }), `${baseName}_${suffix}.txt`);
+                },
+            });
+        });
+    }, [runBatchJob, updateFileHistory, resetReview, saveFile, outputFormat, metadataPolicy]);
+
+    const handleSavePipeline = (pipeline: Pipeline) => {
+        setSavedPipelines(prev => {
+            const exists = prev.some(p => p.id === pipeline.id);
+            return exists ? prev.map(p => (p.id === pipeline.id ? pipeline : p)) : [...prev, pipeline];
+        });
     };
 
-    const handleAutoProcessBatch = useCallback(async (targetFileIds: string[]) => {
-        if (targetFileIds.length === 0) return;
-        setLoadingState({ active: true, message: 'Starting Auto-Process batch...' });
-    
-        try {
-            for (let i = 0; i < targetFileIds.length; i++) {
-                const fileId = targetFileIds[i];
-                let file = uploadedFilesRef.current.find(f => f.id === fileId);
-                if (!file) continue;
-    
-                let currentImageUrl = await getLatestImageDataUrl(file);
-    
-                setLoadingState({ active: true, message: `[${i + 1}/${targetFileIds.length}] Preprocessing: ${file.file.name}` });
-                const preprocessedUrl = await preprocessImage(currentImageUrl);
-                updateFileHistory(fileId, preprocessedUrl, 'Preprocessed');
-                
-                // Get the updated file state for the next step
-                file = uploadedFilesRef.current.find(f => f.id === fileId)!;
-                currentImageUrl = await getLatestImageDataUrl(file);
-
-                setLoadingState({ active: true, message: `[${i + 1}/${targetFileIds.length}] Enhancing: ${file.file.name}` });
-                const enhancedUrl = await enhanceForOcr(currentImageUrl);
-                updateFileHistory(fileId, enhancedUrl, 'Enhanced for OCR');
-
-                // We use enhancedUrl directly for OCR and saving
-                setLoadingState({ active: true, message: `[${i + 1}/${targetFileIds.length}] Performing OCR: ${file.file.name}` });
-                const text = await performOcr(enhancedUrl);
-                setOcrResults(prev => ({ ...prev, [fileId]: { name: file.file.name, text } }));
-
-                setLoadingState({ active: true, message: `[${i + 1}/${targetFileIds.length}] Saving results: ${file.file.name}` });
-                
-                const { baseName, extension } = getFileNameParts(file.file.name);
-                
-                const imageBlob = await dataURLtoBlob(enhancedUrl);
-                const imageName = `${baseName}_Enhanced_for_OCR${extension}`;
-                await saveFile(imageBlob, imageName);
-
-                const textBlob = new Blob([text], { type: 'text/plain' });
-                const textName = `${baseName}_OCR_TEXT.txt`;
-                await saveFile(textBlob, textName);
-            }
-        } catch (error) {
-            console.error('Auto-Process failed:', error);
-            alert(`The auto-process batch failed on one of the steps. Any completed files have been saved.\n\n${getErrorMessage(error)}`);
-        } finally {
-            setLoadingState({ active: false, message: '' });
-        }
-    }, [updateFileHistory, saveFile]);
+    const handleDeletePipeline = (pipelineId: string) => {
+        setSavedPipelines(prev => prev.filter(p => p.id !== pipelineId));
+        if (selectedPipelineId === pipelineId) setSelectedPipelineId(BUILT_IN_PIPELINES[0].id);
+    };
+
+    const handleBatchResize = useCallback((targetFileIds: string[]) => {
+        const options = resizeOptions;
+        return handleBatchAction(dataUrl => resizeImage(dataUrl, options), describeResize(options), targetFileIds);
+    }, [resizeOptions, handleBatchAction]);
+
+    const handleBatchConvertFormat = useCallback((targetFileIds: string[]) => {
+        const options = outputFormat;
+        if (options.mimeType === 'original') return;
+        return handleBatchAction(dataUrl => convertImageFormat(dataUrl, options), `Converted to ${describeFormat(options)}`, targetFileIds);
+    }, [outputFormat, handleBatchAction]);
 
     const handleToggleBatchSelect = (fileId: string, checked: boolean) => {
         setBatchSelectedIds(prev => {
@@ -390,57 +1016,112 @@ const App: React.FC = () => {
         });
     };
     
+    // Only acts on the files the review filter shows, so a status can be selected as a batch.
     const handleSelectAll = (checked: boolean) => {
-        if (checked) {
-            setBatchSelectedIds(new Set(uploadedFiles.map(f => f.id)));
-        } else {
-            setBatchSelectedIds(new Set());
-        }
+        setBatchSelectedIds(prev => {
+            const newSet = new Set(prev);
+            visibleFiles.forEach(f => (checked ? newSet.add(f.id) : newSet.delete(f.id)));
+            return newSet;
+        });
     };
 
+    const handleSetReviewStatus = useCallback((fileIds: string[], status: ReviewStatus) => {
+        setReviews(prev => {
+            const next = { ...prev };
+            fileIds.forEach(id => { next[id] = updateReview(prev[id], { status }); });
+            return next;
+        });
+    }, []);
+
+    // Corrections identical to the model output are dropped so the file does not show as edited.
+    const handleCorrectOcr = useCallback((fileId: string, text: string | null) => {
+        const ocrText = text !== null && text !== ocrResults[fileId]?.text ? text : null;
+        setReviews(prev => ({ ...prev, [fileId]: updateReview(prev[fileId], { ocrText }) }));
+    }, [ocrResults]);
+
+    const handleCorrectReceipt = useCallback((fileId: string, data: ReceiptData | null) => {
+        const original = receiptResults[fileId]?.data;
+        const receipt = data && JSON.stringify(data) !== JSON.stringify(original) ? data : null;
+        setReviews(prev => ({ ...prev, [fileId]: updateReview(prev[fileId], { receipt }) }));
+    }, [receiptResults]);
+
+    const handleNextUnreviewed = useCallback(() => {
+        const nextId = findNextWithStatus(uploadedFilesRef.current.map(f => f.id), reviews, selectedFileId, 'unreviewed');
+        if (nextId) setSelectedFileId(nextId);
+    }, [reviews, selectedFileId]);
+
+    // Single-key shortcuts for working through files in the Review tool.
+    useEffect(() => {
+        if (activeTool !== ActiveTool.Review) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isBusy || e.ctrlKey || e.metaKey || e.altKey || !selectedFileId) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+
+            const key = e.key.toLowerCase();
+            const statusByKey: Record<string, ReviewStatus> = { a: 'approved', f: 'needsAttention', u: 'unreviewed' };
+            if (statusByKey[key]) {
+                e.preventDefault();
+                handleSetReviewStatus([selectedFileId], statusByKey[key]);
+            } else if (key === 'n') {
+                e.preventDefault();
+                handleNextUnreviewed();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [activeTool, isBusy, selectedFileId, handleSetReviewStatus, handleNextUnreviewed]);
+
+    // Exports only ever include approved files, in file list order.
+    const getFilesToExport = useCallback((): UploadedFile[] => {
+        const approved = uploadedFilesRef.current.filter(f => batchSelectedIds.has(f.id) && getReviewStatus(reviews[f.id]) === 'approved');
+        if (approved.length === 0) {
+            alert('None of the selected files are approved. Approve them in the Review tab before exporting.');
+        }
+        return approved;
+    }, [batchSelectedIds, reviews]);
+
     const handleDownloadFile = useCallback(async (fileId: string) => {
       const file = uploadedFilesRef.current.find(f => f.id === fileId);
       if (!file) return;
 
-      if (file.history.length > 0) {
-          const current = file.history[file.history.length - 1];
-          if (current.dataUrl) {
-              const blob = await dataURLtoBlob(current.dataUrl);
-              const { baseName, extension } = getFileNameParts(file.file.name);
-              const downloadName = `${baseName}_${current.description.replace(/\s+/g, '_')}${extension}`;
-              await saveFile(blob, downloadName);
+      const { baseName, extension } = getFileNameParts(file.file.name);
+      try {
+          const current = getCurrentStep(file);
+          if (current) {
+              const image = await prepareImageForDownload(current.blob, extension, outputFormat, metadataPolicy);
+              const downloadName = `${baseName}_${current.description.replace(/\s+/g, '_')}${image.extension}`;
+              await saveFile(image.blob, downloadName);
           } else {
-               alert("The data for this image has been pruned to save memory and cannot be downloaded.");
+              // History is empty, download the original file.
+              const image = await prepareImageForDownload(file.file, extension, outputFormat, metadataPolicy);
+              await saveFile(image.blob, `${baseName}${image.extension}`);
           }
-      } else {
-          // History is empty, download the original file.
-          await saveFile(file.file, file.file.name);
+      } catch (error) {
+          console.error('Download failed:', error);
+          alert(`Failed to download image.\n\n${getErrorMessage(error)}`);
       }
-    }, [saveFile]);
+    }, [saveFile, outputFormat, metadataPolicy]);
 
     const handleBatchDownload = useCallback(async () => {
-        if (batchSelectedIds.size === 0) return;
+        const filesToZip = getFilesToExport();
+        if (filesToZip.length === 0) return;
     
         setLoadingState({ active: true, message: 'Creating ZIP file...' });
         try {
             const zip = new JSZip();
-            const filesToZip = Array.from(batchSelectedIds)
-                .map(id => uploadedFilesRef.current.find(f => f.id === id))
-                .filter((f): f is UploadedFile => !!f);
-    
             for (const file of filesToZip) {
                 const { baseName, extension } = getFileNameParts(file.file.name);
-                if (file.history.length > 0) {
-                    const current = file.history[file.history.length - 1];
-                    if (current.dataUrl) {
-                        const blob = await dataURLtoBlob(current.dataUrl);
-                        const downloadName = `${baseName}_${current.description.replace(/\s+/g, '_')}${extension}`;
-                        zip.file(downloadName, blob);
-                    }
+                const current = getCurrentStep(file);
+                if (current) {
+                    const image = await prepareImageForDownload(current.blob, extension, outputFormat, metadataPolicy);
+                    const downloadName = `${baseName}_${current.description.replace(/\s+/g, '_')}${image.extension}`;
+                    zip.file(downloadName, image.blob);
                 } else {
                     // No history, zip the original file
-                    const downloadName = `${baseName}_Original${extension}`;
-                    zip.file(downloadName, file.file);
+                    const image = await prepareImageForDownload(file.file, extension, outputFormat, metadataPolicy);
+                    const downloadName = `${baseName}_Original${image.extension}`;
+                    zip.file(downloadName, image.blob);
                 }
             }
     
@@ -452,10 +1133,10 @@ const App: React.FC = () => {
         } finally {
             setLoadingState({ active: false, message: '' });
         }
-    }, [batchSelectedIds, saveFile]);
+    }, [getFilesToExport, saveFile, outputFormat, metadataPolicy]);
 
     const handleDownloadOcrText = useCallback(async () => {
-        const idsWithOcr = [...batchSelectedIds].filter(id => ocrResults[id]);
+        const idsWithOcr = getFilesToExport().map(f => f.id).filter(id => ocrResults[id]);
         if (idsWithOcr.length === 0) return;
     
         setLoadingState({ active: true, message: 'Creating ZIP file with OCR text...' });
@@ -464,7 +1145,7 @@ const App: React.FC = () => {
             for (const fileId of idsWithOcr) {
                 const result = ocrResults[fileId];
                 if (result) {
-                    const blob = new Blob([result.text], { type: 'text/plain' });
+                    const blob = new Blob([getReviewedOcrText(result, reviews[fileId])!], { type: 'text/plain' });
                     const { baseName } = getFileNameParts(result.name);
                     const fileName = `${baseName}_OCR_TEXT.txt`;
                     zip.file(fileName, blob);
@@ -478,7 +1159,123 @@ const App: React.FC = () => {
         } finally {
             setLoadingState({ active: false, message: '' });
         }
-    }, [batchSelectedIds, ocrResults, saveFile]);
+    }, [getFilesToExport, ocrResults, reviews, saveFile]);
+
+    // One PDF with a page per selected file, in file list order, using each file's current image.
+    const handleExportPdf = useCallback(async () => {
+        const files = getFilesToExport();
+        if (files.length === 0) return;
+
+        const options = pdfExportOptions;
+        try {
+            const pages: PdfPage[] = [];
+            for (const [index, file] of files.entries()) {
+                setLoadingState({ active: true, message: `Adding page ${index + 1} of ${files.length} to the PDF...` });
+                const current = getCurrentStep(file);
+                pages.push(await imageToPdfPage(current ? current.blob : file.file, getReviewedOcrText(ocrResults[file.id], reviews[file.id])));
+            }
+            const pdf = buildPdf(pages, options);
+            await saveFile(new Blob([pdf], { type: 'application/pdf' }), `${options.fileName.trim() || DEFAULT_PDF_EXPORT_OPTIONS.fileName}.pdf`);
+        } catch (error) {
+            console.error('Failed to export PDF:', error);
+            alert(`Failed to export PDF.\n\n${getErrorMessage(error)}`);
+        } finally {
+            setLoadingState({ active: false, message: '' });
+        }
+    }, [getFilesToExport, ocrResults, reviews, pdfExportOptions, saveFile]);
+
+    const handleExportData = useCallback(async () => {
+        const sources: ExportSource[] = getFilesToExport().map(file => ({
+            fileName: file.file.name,
+            historyStep: getCurrentStep(file)?.description ?? 'Original',
+            ocrText: getReviewedOcrText(ocrResults[file.id], reviews[file.id]),
+            receipt: getReviewedReceipt(receiptResults[file.id], reviews[file.id]),
+            corrections: describeCorrections(ocrResults[file.id], receiptResults[file.id], reviews[file.id]),
+        }));
+        if (sources.length === 0) return;
+
+        setLoadingState({ active: true, message: `Exporting ${sources.length} receipts...` });
+        try {
+            const files = await buildExportFiles(sources, exportConfig, 'receipts_export');
+            for (const { blob, fileName } of files) {
+                await saveFile(blob, fileName);
+            }
+        } catch (error) {
+            console.error('Failed to export data:', error);
+            alert(`There was an error exporting the receipt data.\n\n${getErrorMessage(error)}`);
+        } finally {
+            setLoadingState({ active: false, message: '' });
+        }
+    }, [getFilesToExport, ocrResults, receiptResults, reviews, exportConfig, saveFile]);
+
+    const handleClearWorkspace = async () => {
+        if (!confirm('Remove all files, history and results from this workspace? This cannot be undone.')) return;
+        setLoadingState({ active: true, message: 'Clearing workspace...' });
+        try {
+            await clearWorkspace();
+            workspaceSync.reset();
+            uploadedFilesRef.current.forEach(file => {
+                URL.revokeObjectURL(file.thumbnailUrl);
+                revokeHistoryUrls(file);
+            });
+            setUploadedFiles([]);
+            setOcrResults({});
+            setReceiptResults({});
+            setReviews({});
+            setDismissedDuplicates([]);
+            setBatchSelectedIds(new Set());
+            setPrompts({});
+            setChats({});
+            setWorkspaceError(null);
+        } catch (error) {
+            console.error('Failed to clear workspace:', error);
+            alert(`Failed to clear the workspace.\n\n${getErrorMessage(error)}`);
+        } finally {
+            setLoadingState({ active: false, message: '' });
+            refreshStorageEstimate();
+        }
+    };
+
+    const handleRemoveFiles = useCallback((fileIds: string[]) => {
+        const removed = new Set(fileIds);
+        const withoutRemoved = <T,>(record: Record<string, T>) =>
+            Object.fromEntries(Object.entries(record).filter(([id]) => !removed.has(id)));
+        uploadedFilesRef.current.filter(f => removed.has(f.id)).forEach(file => {
+            URL.revokeObjectURL(file.thumbnailUrl);
+            revokeHistoryUrls(file);
+        });
+        setUploadedFiles(prev => prev.filter(f => !removed.has(f.id)));
+        setOcrResults(withoutRemoved);
+        setReceiptResults(withoutRemoved);
+        setReviews(withoutRemoved);
+        setChats(withoutRemoved);
+        setBatchSelectedIds(prev => new Set([...prev].filter(id => !removed.has(id))));
+    }, []);
+
+    // Keeps one file of a duplicate group. Merging first copies over the OCR, receipt and review
+    // results the kept file does not have yet, taking them from the other files in list order.
+    const handleResolveDuplicates = useCallback((group: DuplicateGroup, keepId: string, merge: boolean) => {
+        const others = group.fileIds.filter(id => id !== keepId);
+        const names = others.map(id => uploadedFilesRef.current.find(f => f.id === id)?.file.name ?? id);
+        if (!confirm(`Remove ${names.join(', ')} from the workspace?${merge ? ' Their results are merged into the kept file first.' : ''}`)) return;
+
+        if (merge) {
+            const fillFrom = <T,>(record: Record<string, T>): Record<string, T> => {
+                const sourceId = record[keepId] ? undefined : others.find(id => record[id]);
+                return sourceId ? { ...record, [keepId]: record[sourceId] } : record;
+            };
+            setOcrResults(fillFrom);
+            setReceiptResults(fillFrom);
+            setReviews(fillFrom);
+            setChats(fillFrom);
+        }
+        handleRemoveFiles(others);
+    }, [handleRemoveFiles]);
+
+    const handleDismissDuplicates = useCallback((group: DuplicateGroup) => {
+        const pairs = group.matches.map(match => getPairKey(match.a, match.b));
+        setDismissedDuplicates(prev => [...new Set([...prev, ...pairs])]);
+    }, []);
 
     const handleSelectDownloadFolder = async () => {
         if (!canUseDirectoryPicker) {
@@ -509,17 +1306,127 @@ const App: React.FC = () => {
         }
     };
 
+    // Close the corner editor once the image it was opened for is no longer the current one.
+    useEffect(() => {
+        setCornerEditor(prev => (prev && (prev.fileId !== selectedFileId || prev.stepId !== selectedFile?.currentStepId) ? null : prev));
+    }, [selectedFileId, selectedFile?.currentStepId]);
+
+    // A mask and a pending masked edit only make sense on the image they were made for.
+    useEffect(() => {
+        setMaskShapes([]);
+        setMaskedEdit(null);
+    }, [selectedFileId, selectedFile?.currentStepId]);
+
+    // Re-blends the pending masked edit shortly after the feather changes.
+    useEffect(() => {
+        if (!maskedEdit) return;
+        let cancelled = false;
+        const { original, edited } = maskedEdit;
+        const timer = setTimeout(async () => {
+            try {
+                const image = await loadImage(original);
+                const featherRadius = toImagePixels(maskFeather, image.naturalWidth, image.naturalHeight);
+                const result = await compositeMaskedEdit(original, edited, maskShapes, featherRadius);
+                if (!cancelled) setMaskedEdit(prev => (prev && prev.edited === edited ? { ...prev, result } : prev));
+            } catch (error) {
+                if (cancelled) return;
+                console.error('Masked edit blending failed:', error);
+                alert(`Failed to blend the edit into the image.\n\n${getErrorMessage(error)}`);
+                setMaskedEdit(null);
+            }
+        }, ENHANCE_PREVIEW_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [maskedEdit?.edited, maskFeather, maskShapes]);
+
+    // Recomputes the local filter preview shortly after the options or the current image change.
+    useEffect(() => {
+        const file = uploadedFilesRef.current.find(f => f.id === selectedFileId);
+        if (!isEnhancePreviewOn || !file || activeTool !== ActiveTool.Processor) {
+            setEnhancePreview(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const dataUrl = await getLatestImageDataUrl(file);
+                const preview = await enhanceImageLocally(dataUrl, enhanceOptions, ENHANCE_PREVIEW_MAX_EDGE);
+                if (!cancelled) setEnhancePreview({ fileId: file.id, stepId: file.currentStepId, dataUrl: preview });
+            } catch (error) {
+                if (cancelled) return;
+                console.error('Enhancement preview failed:', error);
+                setEnhancePreview(null);
+            }
+        }, ENHANCE_PREVIEW_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isEnhancePreviewOn, selectedFileId, selectedFile?.currentStepId, enhanceOptions, activeTool]);
+
+    const handleApplyLocalEnhance = useCallback((targetFileIds: string[]) => {
+        const options = enhanceOptions;
+        setIsEnhancePreviewOn(false);
+        return handleBatchAction(dataUrl => enhanceImageLocally(dataUrl, options), describeEnhance(options), targetFileIds);
+    }, [enhanceOptions, handleBatchAction]);
+
+    const handleStartLocalDeskew = useCallback(async () => {
+        const file = uploadedFilesRef.current.find(f => f.id === selectedFileId);
+        if (!file) return;
+
+        setLoadingState({ active: true, message: 'Detecting document edges...' });
+        try {
+            const dataUrl = await getLatestImageDataUrl(file);
+            const detection = await detectDocumentQuad(dataUrl);
+            setCornerEditor({ fileId: file.id, stepId: file.currentStepId, dataUrl, detection });
+        } catch (error) {
+            console.error('Edge detection failed:', error);
+            alert(`Failed to detect the document edges.\n\n${getErrorMessage(error)}`);
+        } finally {
+            setLoadingState({ active: false, message: '' });
+        }
+    }, [selectedFileId]);
+
+    const handleApplyLocalDeskew = useCallback(async (corners: Quad) => {
+        if (!cornerEditor) return;
+        setLoadingState({ active: true, message: 'Applying de-skew...' });
+        try {
+            const warpedDataUrl = await warpPerspective(cornerEditor.dataUrl, corners);
+            updateFileHistory(cornerEditor.fileId, warpedDataUrl, 'De-skewed (local)');
+            setCornerEditor(null);
+        } catch (error) {
+            console.error('De-skew failed:', error);
+            alert(`Failed to de-skew image.\n\n${getErrorMessage(error)}`);
+        } finally {
+            setLoadingState({ active: false, message: '' });
+        }
+    }, [cornerEditor, updateFileHistory]);
+
     const handleEditImage = useCallback(async () => {
-        const prompt = prompts[ActiveTool.Editor];
-        if (!selectedFileId || !prompt) return;
+        const template = prompts[ActiveTool.Editor];
+        if (!selectedFileId || !template) return;
 
         const file = uploadedFilesRef.current.find(f => f.id === selectedFileId);
         if (!file) return;
 
+        const prompt = resolvePrompt(template);
+        if (!prompt || !checkSessionLimit()) return;
+
         setLoadingState({ active: true, message: 'Editing image...' });
         try {
             const imageUrlToEdit = await getLatestImageDataUrl(file);
-            const editedDataUrl = await editImage(imageUrlToEdit, prompt);
+            if (isMaskMode && maskShapes.length > 0) {
+                // The blended result is previewed first and only added to the history on Apply.
+                const image = await loadImage(imageUrlToEdit);
+                const maskDataUrl = renderMaskDataUrl(maskShapes, image.naturalWidth, image.naturalHeight);
+                const edited = await withUsageScope({ fileId: selectedFileId }, () => editImage(imageUrlToEdit, prompt, maskDataUrl));
+                setShowMaskedBefore(false);
+                setMaskedEdit({ fileId: file.id, stepId: file.currentStepId, prompt, original: imageUrlToEdit, edited, result: null });
+                return;
+            }
+            const editedDataUrl = await withUsageScope({ fileId: selectedFileId }, () => editImage(imageUrlToEdit, prompt));
             updateFileHistory(selectedFileId, editedDataUrl, `Edited: ${prompt.substring(0, 30)}...`);
         } catch (error) {
             console.error('Editing failed:', error);
@@ -527,59 +1434,177 @@ const App: React.FC = () => {
         } finally {
             setLoadingState({ active: false, message: '' });
         }
-    }, [prompts, selectedFileId, updateFileHistory]);
+    }, [prompts, selectedFileId, updateFileHistory, isMaskMode, maskShapes]);
+
+    const handleApplyMaskedEdit = useCallback(() => {
+        if (!maskedEdit?.result) return;
+        updateFileHistory(maskedEdit.fileId, maskedEdit.result, `Edited (masked): ${maskedEdit.prompt.substring(0, 30)}...`);
+        setMaskedEdit(null);
+    }, [maskedEdit, updateFileHistory]);
 
     const handleGenerateImage = useCallback(async () => {
-        const prompt = prompts[ActiveTool.Generator];
-        if (!prompt) return;
-        setLoadingState({ active: true, message: 'Generating image...' });
+        const template = prompts[ActiveTool.Generator];
+        if (!template) return;
+        const prompt = resolvePrompt(template);
+        if (!prompt || !checkSessionLimit()) return;
+
+        const provider = getAiProvider();
+        const options = getSupportedGenerationOptions(generationOptions, provider.imageGeneration);
+        setLoadingState({ active: true, message: options.numberOfImages > 1 ? `Generating ${options.numberOfImages} images...` : 'Generating image...' });
         try {
-            const generatedDataUrl = await generateImage(prompt);
-            const blob = await dataURLtoBlob(generatedDataUrl);
-            const safePrompt = prompt.replace(/[\\/:"*?<>|]/g, '-').slice(0, 20);
-            const file = new File([blob], `${safePrompt}.jpg`, { type: blob.type });
-            
-            // Use the new memory-safe creation function
-            const newFile = await createUploadedFile(file);
-            
-            // Manually add a history entry for the generated image
-            const generatedHistoryEntry: ProcessedImage = {
-                dataUrl: generatedDataUrl,
-                size: getBase64Size(generatedDataUrl),
-                description: `Generated: ${prompt.substring(0, 30)}...`,
-            };
-            newFile.history.push(generatedHistoryEntry);
-            
-            setUploadedFiles(prev => [...prev, newFile]);
-            setSelectedFileId(newFile.id);
+            const images = await generateImages(prompt, options);
+            setGenerationResult({
+                params: { ...options, prompt, provider: provider.label, model: provider.imageGeneration.model, createdAt: Date.now() },
+                images,
+            });
         } catch (error) {
             console.error('Generation failed:', error);
             alert(`Failed to generate image.\n\n${getErrorMessage(error)}`);
         } finally {
             setLoadingState({ active: false, message: '' });
         }
-    }, [prompts]);
+    }, [prompts, generationOptions]);
+
+    // Adds the picked variations as new files, each carrying the parameters it was generated with.
+    const handleAddGeneratedImages = useCallback(async (indexes: number[]) => {
+        if (!generationResult) return;
+        const { params, images } = generationResult;
+        try {
+            const newFiles = await Promise.all(indexes.map(async index => {
+                const generation: GenerationParams = { ...params, variation: index + 1 };
+                const blob = await dataURLtoBlob(images[index]);
+                const file = new File([blob], getGeneratedFileName(generation), { type: blob.type });
+                const uploaded = await createUploadedFile({ file, source: null, metadata: null });
+                return appendStep({ ...uploaded, generation }, createHistoryStep(images[index], `Generated: ${params.prompt.substring(0, 30)}...`, null));
+            }));
+            setUploadedFiles(prev => [...prev, ...newFiles]);
+            setSelectedFileId(newFiles[newFiles.length - 1].id);
+            setGenerationResult(null);
+        } catch (error) {
+            console.error('Adding generated images failed:', error);
+            alert(`Failed to add the generated images.\n\n${getErrorMessage(error)}`);
+        }
+    }, [generationResult]);
+
+    // Sends the drafted question with the conversation so far and streams the reply into it.
+    const handleSendChatMessage = useCallback(async () => {
+        const template = prompts[ActiveTool.Analyzer]?.trim();
+        if (!selectedFileId || !template || textStream) return;
 
-    const handleAnalyzeImage = useCallback(async () => {
-        const prompt = prompts[ActiveTool.Analyzer];
-        if (!selectedFileId || !prompt) return;
-        
         const file = uploadedFilesRef.current.find(f => f.id === selectedFileId);
         if (!file) return;
 
-        setLoadingState({ active: true, message: 'Analyzing image...' });
-        setAnalysisResult('');
+        const prompt = resolvePrompt(template);
+        if (!prompt || !checkSessionLimit()) return;
+
+        const fileId = file.id;
+        const question = createChatMessage('user', prompt, chatAttachments);
+        const reply = createChatMessage('model', '');
+        const conversation = [...(chats[fileId] ?? []), question];
+        const updateReply = (changes: Partial<ChatMessage>) => setChats(prev => ({
+            ...prev,
+            [fileId]: (prev[fileId] ?? []).map(message => (message.id === reply.id ? { ...message, ...changes } : message)),
+        }));
+
+        const controller = new AbortController();
+        setChats(prev => ({ ...prev, [fileId]: [...(prev[fileId] ?? []), question, reply] }));
+        setPrompts(p => ({ ...p, [ActiveTool.Analyzer]: '' }));
+        setChatAttachments([]);
+        setTextStream({ kind: 'chat', fileId, controller });
         try {
-            const imageUrlToAnalyze = await getLatestImageDataUrl(file);
-            const result = await analyzeImage(imageUrlToAnalyze, prompt);
-            setAnalysisResult(result);
+            const mainImage = await getLatestImageDataUrl(file);
+            const attachedImages: Record<string, string> = {};
+            for (const id of getAttachedFileIds(conversation)) {
+                const attached = uploadedFilesRef.current.find(f => f.id === id);
+                if (attached) attachedImages[id] = await getLatestImageDataUrl(attached);
+            }
+            const text = await withUsageScope({ fileId }, () => chat(buildChatTurns(conversation, mainImage, attachedImages), {
+                signal: controller.signal,
+                onText: partialText => updateReply({ text: partialText, partial: true }),
+            }));
+            updateReply({ text, partial: controller.signal.aborted });
         } catch (error) {
-            console.error('Analysis failed:', error);
-            alert(`Failed to analyze image.\n\n${getErrorMessage(error)}`);
+            // Whatever arrived before the failure stays in the transcript.
+            updateReply({ partial: true });
+            console.error('Chat failed:', error);
+            alert(`Failed to get a reply.\n\n${getErrorMessage(error)}`);
         } finally {
-            setLoadingState({ active: false, message: '' });
+            setTextStream(null);
+        }
+    }, [prompts, selectedFileId, textStream, chats, chatAttachments]);
+
+    const handleExportChat = useCallback(async (fileId: string) => {
+        const file = uploadedFilesRef.current.find(f => f.id === fileId);
+        if (!file) return;
+        const nameOf = (id: string) => uploadedFilesRef.current.find(f => f.id === id)?.file.name ?? 'Removed file';
+        const markdown = chatToMarkdown(file.file.name, chats[fileId] ?? [], nameOf);
+        try {
+            await saveFile(new Blob([markdown], { type: 'text/markdown' }), `${getFileNameParts(file.file.name).baseName}_chat.md`);
+        } catch (error) {
+            console.error('Chat export failed:', error);
+            alert(`Failed to export the conversation.\n\n${getErrorMessage(error)}`);
         }
-    }, [prompts, selectedFileId]);
+    }, [chats, saveFile]);
+
+    const handleClearChat = (fileId: string) => {
+        if (!confirm('Delete this conversation? This cannot be undone.')) return;
+        setChats(prev => {
+            const { [fileId]: _removed, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleExportPromptLibrary = () => {
+        saveFile(new Blob([promptLibraryToJson(promptLibrary)], { type: 'application/json' }), 'prompt-library.json')
+            .catch(error => {
+                console.error('Prompt library export failed:', error);
+                alert(`Failed to export the prompt library.\n\n${getErrorMessage(error)}`);
+            });
+    };
+
+    // Imported prompts are added to the library; ones with the same id as a saved prompt replace it.
+    const handleImportPromptLibrary = async (file: File) => {
+        try {
+            const imported = parsePromptLibraryJson(await file.text());
+            setPromptLibrary(prev => mergePromptLibraries(prev, imported));
+            alert(`Imported ${imported.prompts.length} prompts from ${file.name}.`);
+        } catch (error) {
+            console.error('Prompt library import failed:', error);
+            alert(`Failed to import the prompt library.\n\n${getErrorMessage(error)}`);
+        }
+    };
+
+    // Plain OCR of the selected file, shown as it arrives. OCR with word positions needs the
+    // complete JSON response, so it goes through the job queue instead.
+    const handleStreamOcr = useCallback(async () => {
+        if (!selectedFileId || textStream) return;
+        const file = uploadedFilesRef.current.find(f => f.id === selectedFileId);
+        if (!file) return;
+
+        if (!checkSessionLimit() || !checkBuiltInPrompts(['ocr'])) return;
+
+        const controller = new AbortController();
+        const fileId = file.id;
+        const setText = (text: string, partial: boolean) => {
+            if (!text) return;
+            setOcrResults(prev => ({ ...prev, [fileId]: { name: file.file.name, text, stepId: file.currentStepId, partial } }));
+            resetReview(fileId, 'ocrText');
+        };
+        setTextStream({ kind: 'ocr', fileId, controller });
+        try {
+            const imageDataUrl = await getLatestImageDataUrl(file);
+            const text = await withUsageScope({ fileId }, () => performOcrStream(imageDataUrl, {
+                signal: controller.signal,
+                onText: partialText => setText(partialText, true),
+            }));
+            setText(text, controller.signal.aborted);
+        } catch (error) {
+            console.error('OCR failed:', error);
+            alert(`Failed to perform OCR.\n\n${getErrorMessage(error)}`);
+        } finally {
+            setTextStream(null);
+        }
+    }, [selectedFileId, textStream, resetReview]);
 
     const renderToolUI = () => {
       const isImageSelected = !!selectedFile;
@@ -593,57 +1618,231 @@ const App: React.FC = () => {
             if (!isImageSelected) return noImagePlaceholder('Upload and select an image to use the Processor.');
             return (
                 <div style={styles.imageViewer}>
-                    <ImageWithHistory file={selectedFile} />
+                    {cornerEditor ? (
+                        <CornerEditor
+                            key={`${cornerEditor.fileId}-${cornerEditor.stepId}`}
+                            imageUrl={cornerEditor.dataUrl}
+                            width={cornerEditor.detection.width}
+                            height={cornerEditor.detection.height}
+                            initialCorners={cornerEditor.detection.corners}
+                            detected={cornerEditor.detection.detected}
+                            disabled={isBusy}
+                            onApply={handleApplyLocalDeskew}
+                            onCancel={() => setCornerEditor(null)}
+                        />
+                    ) : (
+                        <ImageWithHistory
+                            file={selectedFile}
+                            compare={compareSteps}
+                            preview={enhancePreview && enhancePreview.fileId === selectedFileId && enhancePreview.stepId === selectedFile?.currentStepId
+                                ? { dataUrl: enhancePreview.dataUrl, description: describeEnhance(enhanceOptions) }
+                                : null}
+                            ocrOverlay={ocrOverlay}
+                        />
+                    )}
                     <div style={styles.toolControls}>
                         <h3>Processor</h3>
                         <p>Actions for: <b>{selectedFile?.file.name}</b></p>
-                        <button style={styles.button} onClick={() => handleBatchAction(preprocessImage, 'Preprocessed', [selectedFileId!])} disabled={loadingState.active}>Preprocess (De-skew & Crop)</button>
-                        <button style={styles.button} onClick={() => handleBatchAction(enhanceForOcr, 'Enhanced for OCR', [selectedFileId!])} disabled={loadingState.active}>Enhance for OCR</button>
-                        <button style={styles.button} onClick={() => handleBatchOcr([selectedFileId!])} disabled={loadingState.active}>Perform OCR</button>
-                        <button style={{...styles.button, backgroundColor: '#1a73e8'}} onClick={() => handleDownloadFile(selectedFileId!)} disabled={loadingState.active}>Download Current Image</button>
-
-                        {selectedFileId && ocrResults[selectedFileId] && (
-                            <div style={styles.ocrResult}>
-                                <h4>OCR Result:</h4>
-                                <pre style={styles.preformattedText}>{ocrResults[selectedFileId].text}</pre>
-                            </div>
+                        {selectedFile?.source && <p style={styles.sourceNote}>Source: {describeSource(selectedFile.source)}</p>}
+                        <HistoryTimeline
+                            file={selectedFile!}
+                            compare={compareSteps}
+                            disabled={isBusy}
+                            onRevert={handleRevertToStep}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onCompareChange={setCompareSteps}
+                        />
+                        <button style={styles.button} onClick={handleStartLocalDeskew} disabled={isBusy || !!cornerEditor} title="Finds the document edges and flattens the page locally. The text is resampled, never redrawn.">De-skew & Crop (Local)</button>
+                        <button style={styles.button} onClick={() => handleBatchPreprocess([selectedFileId!])} disabled={isBusy}>Preprocess with AI</button>
+                        <button style={styles.button} onClick={() => handleBatchEnhanceForOcr([selectedFileId!])} disabled={isBusy}>Enhance for OCR with AI</button>
+                        <EnhanceControls options={enhanceOptions} onChange={setEnhanceOptions} />
+                        <label style={styles.checkboxLabel}>
+                            <input type="checkbox" checked={isEnhancePreviewOn} onChange={(e) => setIsEnhancePreviewOn(e.target.checked)} />
+                            Live preview
+                        </label>
+                        <button style={styles.button} onClick={() => handleApplyLocalEnhance([selectedFileId!])} disabled={isBusy || !hasActiveEnhanceFilters(enhanceOptions)}>Apply Local Enhancement</button>
+                        <label style={styles.checkboxLabel} title="Slower; outlines each word on the image and flags uncertain ones">
+                            <input type="checkbox" checked={ocrWithLayout} onChange={(e) => setOcrWithLayout(e.target.checked)} />
+                            Include word positions
+                        </label>
+                        {textStream?.kind === 'ocr'
+                            ? <button style={{ ...styles.button, backgroundColor: '#c53929' }} onClick={() => textStream.controller.abort()}>Stop OCR</button>
+                            : <button style={styles.button} onClick={() => (ocrWithLayout ? handleBatchOcr([selectedFileId!]) : handleStreamOcr())} disabled={isBusy || !!textStream}>Perform OCR</button>}
+                        <button style={styles.button} onClick={() => handleBatchExtractReceipts([selectedFileId!])} disabled={isBusy}>Extract Receipt Data</button>
+                        <ResizeControls options={resizeOptions} onChange={setResizeOptions} />
+                        <button style={styles.button} onClick={() => handleBatchResize([selectedFileId!])} disabled={isBusy}>Resize</button>
+                        <button style={{...styles.button, backgroundColor: '#1a73e8'}} onClick={() => handleDownloadFile(selectedFileId!)} disabled={isBusy}>Download Current Image</button>
+
+                        {selectedOcrResult && (
+                            <OcrResultView
+                                result={selectedOcrResult}
+                                selectedWordId={selectedOcrWordId}
+                                onSelectWord={setSelectedOcrWordId}
+                                isStreaming={textStream?.kind === 'ocr' && textStream.fileId === selectedFileId}
+                            />
+                        )}
+                        {selectedFileId && receiptResults[selectedFileId] && (
+                            <ReceiptDataView result={receiptResults[selectedFileId]} />
                         )}
+                        <MetadataPanel metadata={selectedFile!.metadata} generation={selectedFile!.generation} />
                     </div>
                 </div>
             );
-        case ActiveTool.Editor:
+        case ActiveTool.Editor: {
             if (!isImageSelected) return noImagePlaceholder('Upload and select an image to use the Editor.');
+            const currentImageUrl = getCurrentStep(selectedFile!)?.objectUrl ?? selectedFile!.thumbnailUrl;
+            let editorView = <ImageWithHistory file={selectedFile} compare={compareSteps} />;
+            if (maskedEdit) {
+                editorView = (
+                    <div style={styles.imageDisplay}>
+                        <h4>{showMaskedBefore ? 'Before' : `After: ${maskedEdit.prompt}`}</h4>
+                        {maskedEdit.result
+                            ? <img src={showMaskedBefore ? maskedEdit.original : maskedEdit.result} alt={showMaskedBefore ? 'Before' : 'After'} style={{maxWidth: '100%', borderRadius: '4px'}}/>
+                            : <p>Blending the edit into the image...</p>}
+                        <p>Only the masked region changes. Not applied yet.</p>
+                    </div>
+                );
+            } else if (isMaskMode) {
+                editorView = (
+                    <MaskEditor
+                        key={currentImageUrl}
+                        imageUrl={currentImageUrl}
+                        shapes={maskShapes}
+                        featherPercent={maskFeather}
+                        disabled={isBusy}
+                        onShapesChange={setMaskShapes}
+                        onFeatherChange={setMaskFeather}
+                    />
+                );
+            }
             return (
                 <div style={styles.imageViewer}>
-                    <ImageWithHistory file={selectedFile} />
+                    {editorView}
                     <div style={styles.toolControls}>
                         <h3>Editor</h3>
+                        <HistoryTimeline
+                            file={selectedFile!}
+                            compare={compareSteps}
+                            disabled={isBusy}
+                            onRevert={handleRevertToStep}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onCompareChange={setCompareSteps}
+                        />
+                        <PromptPicker
+                            tool={ActiveTool.Editor}
+                            library={promptLibrary}
+                            text={prompts[ActiveTool.Editor] || ''}
+                            onTextChange={(text) => setPrompts(p => ({...p, [ActiveTool.Editor]: text}))}
+                            onLibraryChange={setPromptLibrary}
+                        />
                         <textarea
                             value={prompts[ActiveTool.Editor] || ''}
                             onChange={(e) => setPrompts(p => ({...p, [ActiveTool.Editor]: e.target.value}))}
                             placeholder="e.g., 'add a hat on the person'"
                             style={styles.promptInput}
                         />
-                        <button style={styles.button} onClick={handleEditImage} disabled={loadingState.active || !prompts[ActiveTool.Editor]}>Apply Edit</button>
+                        <label style={styles.checkboxLabel}>
+                            <input type="checkbox" checked={isMaskMode} onChange={(e) => setIsMaskMode(e.target.checked)} disabled={!!maskedEdit} />
+                            Limit the edit to a painted region
+                        </label>
+                        {maskedEdit ? (
+                            <>
+                                <label style={styles.checkboxLabel}>
+                                    Feather
+                                    <input type="range" min={0} max={5} step={0.25} value={maskFeather} onChange={(e) => setMaskFeather(Number(e.target.value))} />
+                                </label>
+                                <button style={{...styles.button, backgroundColor: '#4a4a4a'}} onClick={() => setShowMaskedBefore(b => !b)} disabled={!maskedEdit.result}>
+                                    {showMaskedBefore ? 'Show After' : 'Show Before'}
+                                </button>
+                                <button style={styles.button} onClick={handleApplyMaskedEdit} disabled={isBusy || !maskedEdit.result}>Apply Masked Edit</button>
+                                <button style={{...styles.button, backgroundColor: '#4a4a4a'}} onClick={() => setMaskedEdit(null)} disabled={isBusy}>Discard</button>
+                            </>
+                        ) : (
+                            <button
+                                style={styles.button}
+                                onClick={handleEditImage}
+                                disabled={isBusy || !prompts[ActiveTool.Editor] || (isMaskMode && maskShapes.length === 0)}
+                                title={isMaskMode && maskShapes.length === 0 ? 'Paint the region to edit first' : undefined}
+                            >
+                                Apply Edit
+                            </button>
+                        )}
+                    </div>
+                </div>
+            );
+        }
+        case ActiveTool.Transform: {
+            if (!isImageSelected) return noImagePlaceholder('Upload and select an image to use the Transform tool.');
+            const transformTarget = [selectedFileId!];
+            const currentImageUrl = getCurrentStep(selectedFile!)?.objectUrl ?? selectedFile!.thumbnailUrl;
+            return (
+                <div style={styles.imageViewer}>
+                    <TransformEditor
+                        key={currentImageUrl}
+                        imageUrl={currentImageUrl}
+                        disabled={isBusy}
+                        onCrop={(rect) => handleBatchAction(dataUrl => cropImage(dataUrl, rect), `Cropped to ${rect.width}x${rect.height}`, transformTarget)}
+                        onStraighten={(angle) => handleBatchAction(dataUrl => straightenImage(dataUrl, angle), `Straightened ${angle > 0 ? '+' : ''}${angle}°`, transformTarget)}
+                    />
+                    <div style={styles.toolControls}>
+                        <h3>Transform</h3>
+                        <HistoryTimeline
+                            file={selectedFile!}
+                            compare={compareSteps}
+                            disabled={isBusy}
+                            onRevert={handleRevertToStep}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onCompareChange={setCompareSteps}
+                        />
+                        <button style={styles.button} onClick={() => handleBatchAction(dataUrl => rotateImage(dataUrl, -1), 'Rotated 90° left', transformTarget)} disabled={isBusy}>Rotate 90° Left</button>
+                        <button style={styles.button} onClick={() => handleBatchAction(dataUrl => rotateImage(dataUrl, 1), 'Rotated 90° right', transformTarget)} disabled={isBusy}>Rotate 90° Right</button>
+                        <button style={styles.button} onClick={() => handleBatchAction(dataUrl => flipImage(dataUrl, 'horizontal'), 'Flipped horizontally', transformTarget)} disabled={isBusy}>Flip Horizontal</button>
+                        <button style={styles.button} onClick={() => handleBatchAction(dataUrl => flipImage(dataUrl, 'vertical'), 'Flipped vertically', transformTarget)} disabled={isBusy}>Flip Vertical</button>
+                        <button style={{...styles.button, backgroundColor: '#1a73e8'}} onClick={() => handleDownloadFile(selectedFileId!)} disabled={isBusy}>Download Current Image</button>
                     </div>
                 </div>
             );
+        }
         case ActiveTool.Generator:
             return (
                 <div style={{...styles.imageViewer, flexDirection: 'column'}}>
                     <div style={{...styles.toolControls, width: '100%'}}>
                         <h3>Generator</h3>
+                        <PromptPicker
+                            tool={ActiveTool.Generator}
+                            library={promptLibrary}
+                            text={prompts[ActiveTool.Generator] || ''}
+                            onTextChange={(text) => setPrompts(p => ({...p, [ActiveTool.Generator]: text}))}
+                            onLibraryChange={setPromptLibrary}
+                        />
                         <textarea
                             value={prompts[ActiveTool.Generator] || ''}
                             onChange={(e) => setPrompts(p => ({...p, [ActiveTool.Generator]: e.target.value}))}
                             placeholder="e.g., 'a cat wearing a spacesuit on Mars, cinematic lighting'"
                             style={styles.promptInput}
                         />
-                        <button style={styles.button} onClick={handleGenerateImage} disabled={loadingState.active || !prompts[ActiveTool.Generator]}>Generate Image</button>
+                        <GenerationControls options={generationOptions} support={getAiProvider().imageGeneration} onChange={setGenerationOptions} />
+                        <button style={styles.button} onClick={handleGenerateImage} disabled={isBusy || !prompts[ActiveTool.Generator]}>
+                            {generationOptions.numberOfImages > 1 ? `Generate ${generationOptions.numberOfImages} Images` : 'Generate Image'}
+                        </button>
                     </div>
-                    {isImageSelected && selectedFile?.history[0]?.description.startsWith('Generated:') ? (
+                    {generationResult ? (
+                        <GenerationGrid
+                            key={generationResult.params.createdAt}
+                            prompt={generationResult.params.prompt}
+                            images={generationResult.images}
+                            requested={generationResult.params.numberOfImages}
+                            disabled={isBusy}
+                            onAdd={handleAddGeneratedImages}
+                            onDiscard={() => setGenerationResult(null)}
+                        />
+                    ) : isImageSelected && selectedFile?.history[0]?.description.startsWith('Generated:') ? (
                         <div style={{ marginTop: '20px' }}>
                             <ImageWithHistory file={selectedFile} />
+                            {selectedFile.generation && <MetadataPanel metadata={null} generation={selectedFile.generation} />}
                         </div>
                     ) : (
                       !isImageSelected && <div style={styles.placeholder}>Enter a prompt to generate an image.</div>
@@ -658,30 +1857,85 @@ const App: React.FC = () => {
                     <ImageWithHistory file={selectedFile} />
                     <div style={styles.toolControls}>
                         <h3>Analyzer</h3>
-                        <textarea
-                            value={prompts[ActiveTool.Analyzer] || ''}
-                            onChange={(e) => setPrompts(p => ({...p, [ActiveTool.Analyzer]: e.target.value}))}
-                            placeholder="e.g., 'describe this image in detail'"
-                            style={styles.promptInput}
+                        <PromptPicker
+                            tool={ActiveTool.Analyzer}
+                            library={promptLibrary}
+                            text={prompts[ActiveTool.Analyzer] || ''}
+                            onTextChange={(text) => setPrompts(p => ({...p, [ActiveTool.Analyzer]: text}))}
+                            onLibraryChange={setPromptLibrary}
+                        />
+                        <ChatPanel
+                            messages={chats[selectedFileId!] ?? []}
+                            otherFiles={uploadedFiles.filter(f => f.id !== selectedFileId)}
+                            draft={prompts[ActiveTool.Analyzer] || ''}
+                            attachedIds={chatAttachments}
+                            isStreaming={textStream?.kind === 'chat' && textStream.fileId === selectedFileId}
+                            disabled={isBusy || !!textStream}
+                            onDraftChange={(draft) => setPrompts(p => ({ ...p, [ActiveTool.Analyzer]: draft }))}
+                            onAttachedChange={setChatAttachments}
+                            onSend={handleSendChatMessage}
+                            onStop={() => textStream?.controller.abort()}
+                            onExport={() => handleExportChat(selectedFileId!)}
+                            onClear={() => handleClearChat(selectedFileId!)}
+                        />
+                    </div>
+                </div>
+            );
+        case ActiveTool.Review:
+            if (!isImageSelected) return noImagePlaceholder('Upload and select an image to review its results.');
+            return (
+                <div style={styles.imageViewer}>
+                    <ImageWithHistory file={selectedFile} ocrOverlay={ocrOverlay} />
+                    <div style={styles.toolControls}>
+                        <h3>Review</h3>
+                        <ReviewPanel
+                            key={selectedFileId}
+                            ocr={selectedOcrResult}
+                            receipt={receiptResults[selectedFileId!]}
+                            review={reviews[selectedFileId!]}
+                            unreviewedCount={uploadedFiles.filter(f => getReviewStatus(reviews[f.id]) === 'unreviewed').length}
+                            disabled={isBusy}
+                            onStatusChange={(status) => handleSetReviewStatus([selectedFileId!], status)}
+                            onCorrectOcr={(text) => handleCorrectOcr(selectedFileId!, text)}
+                            onCorrectReceipt={(data) => handleCorrectReceipt(selectedFileId!, data)}
+                            onNextUnreviewed={handleNextUnreviewed}
                         />
-                        <button style={styles.button} onClick={handleAnalyzeImage} disabled={loadingState.active || !prompts[ActiveTool.Analyzer]}>Analyze</button>
-                        {analysisResult && (
-                            <div style={styles.ocrResult}>
-                                <h4>Analysis Result:</h4>
-                                <pre style={styles.preformattedText}>{analysisResult}</pre>
-                            </div>
-                        )}
                     </div>
                 </div>
             );
+        case ActiveTool.Pipelines: {
+            const targetIds = batchSelectedIds.size > 0 ? Array.from(batchSelectedIds) : (selectedFileId ? [selectedFileId] : []);
+            return (
+                <div style={styles.imageViewer}>
+                    <PipelineBuilder
+                        pipelines={allPipelines}
+                        library={promptLibrary}
+                        onSave={handleSavePipeline}
+                        onDelete={handleDeletePipeline}
+                        onRun={(pipeline) => handleRunPipeline(pipeline, targetIds)}
+                        canRun={!isBusy && targetIds.length > 0}
+                    />
+                </div>
+            );
+        }
         default:
             return null;
       }
     };
     
-    const allFilesSelected = uploadedFiles.length > 0 && batchSelectedIds.size === uploadedFiles.length;
+    const allFilesSelected = visibleFiles.length > 0 && visibleFiles.every(f => batchSelectedIds.has(f.id));
+
+    const approvedSelectedIds = [...batchSelectedIds].filter(id => getReviewStatus(reviews[id]) === 'approved');
+    const ocrCountForSelected = approvedSelectedIds.filter(id => ocrResults[id]).length;
+    const hasOcrForSelected = ocrCountForSelected > 0;
+    const reviewCounts = Object.fromEntries(REVIEW_STATUSES.map(status => [
+        status,
+        uploadedFiles.filter(f => getReviewStatus(reviews[f.id]) === status).length,
+    ])) as Record<ReviewStatus, number>;
 
-    const hasOcrForSelected = [...batchSelectedIds].some(id => ocrResults[id]);
+    const jobStatusById: Record<string, JobStatus> = Object.fromEntries(
+        (batchJob?.items ?? []).map(item => [item.id, item.status])
+    );
 
     const selectFolderBtnStyle = {
       ...styles.batchButton,
@@ -701,6 +1955,21 @@ const App: React.FC = () => {
             )}
             <header style={styles.header}>
                 <h1>Gemini Image Studio</h1>
+                <label style={styles.providerLabel} title="Mock returns local, deterministic results without calling any API">
+                    AI backend
+                    <select
+                        value={aiProviderId}
+                        onChange={(e) => {
+                            const id = e.target.value as AiProviderId;
+                            setAiProvider(id);
+                            setAiProviderId(id);
+                        }}
+                        style={styles.pipelineSelect}
+                        disabled={isBusy}
+                    >
+                        {Object.values(AI_PROVIDERS).map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+                    </select>
+                </label>
                 <nav style={styles.nav}>
                     {Object.values(ActiveTool).map(tool => (
                         <button
@@ -719,7 +1988,7 @@ const App: React.FC = () => {
                       <label htmlFor="file-upload" style={styles.uploadLabel}>
                           Upload Images
                       </label>
-                      <input id="file-upload" type="file" multiple accept="image/*" onChange={handleFileChange} style={{ display: 'none' }} />
+                      <input id="file-upload" type="file" multiple accept={IMPORT_ACCEPT} onChange={handleFileChange} style={{ display: 'none' }} />
                   </div>
 
                   <div style={styles.downloadSettings}>
@@ -733,50 +2002,201 @@ const App: React.FC = () => {
                       Select Download Folder
                     </button>
                     <p style={styles.folderName}>Folder: <span>{downloadFolderName || 'Not set'}</span></p>
+                    <OutputFormatControls options={outputFormat} onChange={setOutputFormat} />
+                    <label style={styles.settingRow}>
+                      Metadata
+                      <select value={metadataPolicy} onChange={(e) => setMetadataPolicy(e.target.value as MetadataPolicy)} style={styles.pipelineSelect}>
+                        <option value="keep">Keep</option>
+                        <option value="stripGps">Remove location</option>
+                        <option value="stripAll">Remove all but orientation</option>
+                      </select>
+                    </label>
+                  </div>
+
+                  <div style={styles.downloadSettings}>
+                    <h4>Workspace</h4>
+                    <p style={styles.folderName}>
+                      Storage used: {storageEstimate ? `${formatMegabytes(storageEstimate.usage)} of ${formatMegabytes(storageEstimate.quota)}` : 'Unknown'}
+                    </p>
+                    {workspaceError && <p style={styles.workspaceError}>{workspaceError}</p>}
+                    <button style={styles.batchButton} onClick={handleClearWorkspace} disabled={isBusy}>Clear Workspace</button>
                   </div>
 
+                  <PromptLibraryPanel
+                    library={promptLibrary}
+                    error={promptLibraryError}
+                    onChange={setPromptLibrary}
+                    onImport={handleImportPromptLibrary}
+                    onExport={handleExportPromptLibrary}
+                  />
+
+                  <UsageDashboard
+                    records={usageRecords}
+                    files={uploadedFiles}
+                    batch={batchJob}
+                    limits={spendingLimits}
+                    onLimitsChange={setSpendingLimits}
+                    onReset={clearUsage}
+                  />
+
                   {batchSelectedIds.size > 0 && (
                     <div style={styles.batchActions}>
                         <h4>Batch Actions ({batchSelectedIds.size} selected)</h4>
-                        <button style={{...styles.batchButton, backgroundColor: '#c53929', color: 'white', fontWeight: 'bold' }} onClick={() => handleAutoProcessBatch(Array.from(batchSelectedIds))} disabled={loadingState.active}>Auto-Process & Save Batch</button>
-                        <button style={styles.batchButton} onClick={() => handleBatchAction(preprocessImage, 'Preprocessed', Array.from(batchSelectedIds))} disabled={loadingState.active}>Preprocess</button>
-                        <button style={styles.batchButton} onClick={() => handleBatchAction(enhanceForOcr, 'Enhanced for OCR', Array.from(batchSelectedIds))} disabled={loadingState.active}>Enhance</button>
-                        <button style={styles.batchButton} onClick={() => handleBatchOcr(Array.from(batchSelectedIds))} disabled={loadingState.active}>OCR</button>
-                        <button style={{...styles.batchButton, backgroundColor: '#1a73e8'}} onClick={handleBatchDownload} disabled={loadingState.active}>Download Images (ZIP)</button>
-                        {hasOcrForSelected && <button style={{...styles.batchButton, backgroundColor: '#0d652d'}} onClick={handleDownloadOcrText} disabled={loadingState.active}>Download OCR Text (ZIP)</button>}
+                        <div style={styles.queueSettings}>
+                            <label>
+                                Parallel
+                                <input
+                                    type="number" min={1} max={6}
+                                    value={queueOptions.concurrency}
+                                    onChange={(e) => setQueueOptions(o => ({ ...o, concurrency: Math.min(6, Math.max(1, Number(e.target.value) || 1)) }))}
+                                    style={styles.queueInput}
+                                    disabled={isBusy}
+                                />
+                            </label>
+                            <label>
+                                Retries
+                                <input
+                                    type="number" min={0} max={10}
+                                    value={queueOptions.maxRetries}
+                                    onChange={(e) => setQueueOptions(o => ({ ...o, maxRetries: Math.min(10, Math.max(0, Number(e.target.value) || 0)) }))}
+                                    style={styles.queueInput}
+                                    disabled={isBusy}
+                                />
+                            </label>
+                        </div>
+                        <select value={selectedPipelineId} onChange={(e) => setSelectedPipelineId(e.target.value)} style={styles.pipelineSelect} disabled={isBusy}>
+                            {allPipelines.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <button
+                            style={{...styles.batchButton, backgroundColor: '#c53929', color: 'white', fontWeight: 'bold' }}
+                            onClick={() => {
+                                const pipeline = allPipelines.find(p => p.id === selectedPipelineId);
+                                if (pipeline) handleRunPipeline(pipeline, Array.from(batchSelectedIds));
+                            }}
+                            disabled={isBusy}
+                        >
+                            Run Pipeline on Batch
+                        </button>
+                        <button style={styles.batchButton} onClick={() => handleBatchAction(deskewImage, 'De-skewed (local)', Array.from(batchSelectedIds))} disabled={isBusy} title="Files where no document outline is found are marked as failed">De-skew (Local)</button>
+                        <button style={styles.batchButton} onClick={() => handleBatchPreprocess(Array.from(batchSelectedIds))} disabled={isBusy}>Preprocess (AI)</button>
+                        <button style={styles.batchButton} onClick={() => handleApplyLocalEnhance(Array.from(batchSelectedIds))} disabled={isBusy || !hasActiveEnhanceFilters(enhanceOptions)} title="Uses the local filter settings from the Processor tab">Enhance (Local)</button>
+                        <button style={styles.batchButton} onClick={() => handleBatchEnhanceForOcr(Array.from(batchSelectedIds))} disabled={isBusy}>Enhance (AI)</button>
+                        <button style={styles.batchButton} onClick={() => handleBatchOcr(Array.from(batchSelectedIds))} disabled={isBusy}>OCR</button>
+                        <button style={styles.batchButton} onClick={() => handleBatchExtractReceipts(Array.from(batchSelectedIds))} disabled={isBusy}>Extract Receipts</button>
+                        <button style={styles.batchButton} onClick={() => handleBatchResize(Array.from(batchSelectedIds))} disabled={isBusy} title="Uses the resize settings from the Processor tab">Resize</button>
+                        <div style={styles.batchButtonRow}>
+                            <button style={styles.batchButton} onClick={() => handleBatchAction(dataUrl => rotateImage(dataUrl, -1), 'Rotated 90° left', Array.from(batchSelectedIds))} disabled={isBusy}>Rotate 90° Left</button>
+                            <button style={styles.batchButton} onClick={() => handleBatchAction(dataUrl => rotateImage(dataUrl, 1), 'Rotated 90° right', Array.from(batchSelectedIds))} disabled={isBusy}>Rotate 90° Right</button>
+                        </div>
+                        <button style={styles.batchButton} onClick={() => handleBatchConvertFormat(Array.from(batchSelectedIds))} disabled={isBusy || outputFormat.mimeType === 'original'} title="Uses the format from Download Settings">Convert to {describeFormat(outputFormat)}</button>
+                        <div style={styles.batchButtonRow}>
+                            <button style={styles.batchButton} onClick={() => handleSetReviewStatus(Array.from(batchSelectedIds), 'approved')} disabled={isBusy}>Mark Approved</button>
+                            <button style={styles.batchButton} onClick={() => handleSetReviewStatus(Array.from(batchSelectedIds), 'needsAttention')} disabled={isBusy}>Mark Needs Attention</button>
+                        </div>
+                        <p style={styles.exportNote}>Exports include approved files only ({approvedSelectedIds.length} of {batchSelectedIds.size} selected).</p>
+                        <button style={{...styles.batchButton, backgroundColor: '#1a73e8'}} onClick={handleBatchDownload} disabled={isBusy}>Download Images (ZIP)</button>
+                        {hasOcrForSelected && <button style={{...styles.batchButton, backgroundColor: '#0d652d'}} onClick={handleDownloadOcrText} disabled={isBusy}>Download OCR Text (ZIP)</button>}
+                        <details>
+                            <summary style={styles.detailsSummary}>Export PDF</summary>
+                            <PdfExportPanel options={pdfExportOptions} onChange={setPdfExportOptions} onExport={handleExportPdf} disabled={isBusy} ocrCount={ocrCountForSelected} />
+                        </details>
+                        <details>
+                            <summary style={styles.detailsSummary}>Export Data (CSV / XLSX / JSON)</summary>
+                            <ExportPanel config={exportConfig} onChange={setExportConfig} onExport={handleExportData} disabled={isBusy} />
+                        </details>
                     </div>
                   )}
 
+                  {duplicateGroups.length > 0 && (
+                    <div style={styles.duplicateBanner}>
+                      <span>{duplicateGroups.length} group{duplicateGroups.length > 1 ? 's' : ''} of possible duplicates</span>
+                      <button style={styles.linkButton} onClick={() => setIsDuplicateDialogOpen(true)}>Review</button>
+                    </div>
+                  )}
                   <div style={styles.fileListHeader}>
-                    <input type="checkbox" checked={allFilesSelected} onChange={(e) => handleSelectAll(e.target.checked)} disabled={uploadedFiles.length === 0} />
+                    <input type="checkbox" checked={allFilesSelected} onChange={(e) => handleSelectAll(e.target.checked)} disabled={visibleFiles.length === 0} />
                     <label>Select All</label>
+                    <select value={reviewFilter} onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)} style={styles.reviewFilter} aria-label="Filter by review status">
+                      <option value="all">All files ({uploadedFiles.length})</option>
+                      {REVIEW_STATUSES.map(status => (
+                        <option key={status} value={status}>{REVIEW_STATUS_LABELS[status]} ({reviewCounts[status]})</option>
+                      ))}
+                    </select>
                   </div>
                   <div style={styles.fileList}>
-                      {uploadedFiles.map(file => (
-                          <div
-                              key={file.id}
-                              style={file.id === selectedFileId ? {...styles.fileListItem, ...styles.fileListItemSelected} : styles.fileListItem}
-                              onClick={() => setSelectedFileId(file.id)}
-                          >
-                              <input 
-                                type="checkbox" 
-                                style={{marginRight: '12px', flexShrink: 0}} 
-                                checked={batchSelectedIds.has(file.id)}
-                                onChange={(e) => {
-                                    e.stopPropagation();
-                                    handleToggleBatchSelect(file.id, e.target.checked)
-                                }}
-                              />
-                              <img src={file.thumbnailUrl} alt="thumbnail" style={styles.thumbnail} />
-                              <span style={styles.fileName}>{file.file.name}</span>
-                          </div>
-                      ))}
+                      {visibleFiles.map(file => {
+                          const reviewStatus = getReviewStatus(reviews[file.id]);
+                          return (
+                              <div
+                                  key={file.id}
+                                  style={file.id === selectedFileId ? {...styles.fileListItem, ...styles.fileListItemSelected} : styles.fileListItem}
+                                  onClick={() => setSelectedFileId(file.id)}
+                              >
+                                  <input 
+                                    type="checkbox" 
+                                    style={{marginRight: '12px', flexShrink: 0}} 
+                                    checked={batchSelectedIds.has(file.id)}
+                                    onChange={(e) => {
+                                        e.stopPropagation();
+                                        handleToggleBatchSelect(file.id, e.target.checked)
+                                    }}
+                                  />
+                                  <img src={file.thumbnailUrl} alt="thumbnail" style={styles.thumbnail} />
+                                  <div style={styles.fileNameColumn}>
+                                      <span style={styles.fileName}>{file.file.name}</span>
+                                      {file.source && <span style={styles.fileSource}>{describeSource(file.source)}</span>}
+                                      {reviewStatus !== 'unreviewed' && (
+                                          <span style={{ ...styles.fileSource, color: REVIEW_STATUS_COLORS[reviewStatus] }}>{REVIEW_STATUS_LABELS[reviewStatus]}</span>
+                                      )}
+                                      {duplicateIds.has(file.id) && (
+                                          <span
+                                              style={{ ...styles.fileSource, ...styles.duplicateFlag }}
+                                              onClick={(e) => {
+                                                  e.stopPropagation();
+                                                  setIsDuplicateDialogOpen(true);
+                                              }}
+                                          >
+                                              Possible duplicate
+                                          </span>
+                                      )}
+                                  </div>
+                                  {jobStatusById[file.id] && (
+                                      <span style={{ ...styles.jobBadge, color: JOB_STATUS_COLORS[jobStatusById[file.id]] }}>
+                                          {jobStatusById[file.id]}
+                                      </span>
+                                  )}
+                              </div>
+                          );
+                      })}
                   </div>
                 </aside>
                 <section style={styles.content}>
+                    {batchJob && (
+                        <JobQueuePanel
+                            job={batchJob}
+                            cost={batchCost}
+                            onPause={handlePauseJob}
+                            onResume={handleResumeJob}
+                            onCancel={handleCancelJob}
+                            onRetryFailed={handleRetryFailedJobs}
+                            onDismiss={() => setBatchJob(null)}
+                        />
+                    )}
                     {renderToolUI()}
                 </section>
             </main>
+            {isDuplicateDialogOpen && (
+                <DuplicateReviewDialog
+                    groups={duplicateGroups}
+                    files={uploadedFiles}
+                    receipts={receiptResults}
+                    disabled={isBusy}
+                    onKeep={(group, keepId) => handleResolveDuplicates(group, keepId, false)}
+                    onMerge={(group, keepId) => handleResolveDuplicates(group, keepId, true)}
+                    onDismiss={handleDismissDuplicates}
+                    onClose={() => setIsDuplicateDialogOpen(false)}
+                />
+            )}
         </div>
     );
 };
@@ -798,6 +2218,15 @@ const styles: { [key: string]: React.CSSProperties } = {
       borderBottom: '1px solid #333',
       backgroundColor: '#252526',
     },
+    providerLabel: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      marginLeft: 'auto',
+      marginRight: '1.5rem',
+      fontSize: '13px',
+      color: '#ccc',
+    },
     nav: {
       display: 'flex',
       gap: '1rem',
@@ -849,11 +2278,28 @@ const styles: { [key: string]: React.CSSProperties } = {
         flexDirection: 'column',
         gap: '0.5rem',
     },
+    settingRow: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        gap: '0.5rem',
+        fontSize: '13px',
+    },
+    workspaceError: {
+        margin: 0,
+        fontSize: '12px',
+        color: '#f28b82',
+    },
     folderName: {
         margin: '0.5rem 0 0',
         fontSize: '12px',
         color: '#aaa',
     },
+    exportNote: {
+        margin: 0,
+        fontSize: '12px',
+        color: '#aaa',
+    },
     batchActions: {
       padding: '1rem',
       borderBottom: '1px solid #333',
@@ -872,6 +2318,48 @@ const styles: { [key: string]: React.CSSProperties } = {
       fontSize: '13px',
       textAlign: 'center',
     },
+    batchButtonRow: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr',
+      gap: '0.5rem',
+    },
+    detailsSummary: {
+      cursor: 'pointer',
+      fontSize: '13px',
+      color: '#ccc',
+      marginBottom: '0.5rem',
+    },
+    pipelineSelect: {
+      padding: '0.4rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      fontSize: '13px',
+    },
+    queueSettings: {
+      display: 'flex',
+      gap: '1rem',
+      fontSize: '12px',
+      color: '#ccc',
+    },
+    queueInput: {
+      width: '3rem',
+      marginLeft: '0.4rem',
+      padding: '0.15rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    jobBadge: {
+      marginLeft: 'auto',
+      paddingLeft: '0.5rem',
+      fontSize: '10px',
+      fontWeight: 'bold',
+      textTransform: 'uppercase',
+      flexShrink: 0,
+    },
     buttonDisabled: {
         backgroundColor: '#3a3a3a',
         color: '#888',
@@ -887,6 +2375,37 @@ const styles: { [key: string]: React.CSSProperties } = {
       gap: '0.5rem',
       color: '#ccc'
     },
+    duplicateBanner: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: '0.5rem 1rem',
+      backgroundColor: 'rgba(232, 163, 61, 0.15)',
+      borderBottom: '1px solid #e8a33d',
+      fontSize: '13px',
+    },
+    duplicateFlag: {
+      color: '#e8a33d',
+      cursor: 'pointer',
+      textDecoration: 'underline dotted',
+    },
+    linkButton: {
+      background: 'none',
+      border: 'none',
+      color: '#4fc3f7',
+      cursor: 'pointer',
+      fontSize: '13px',
+      padding: 0,
+    },
+    reviewFilter: {
+      marginLeft: 'auto',
+      padding: '0.2rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      fontSize: '12px',
+    },
     fileList: {
       flex: 1,
       overflowY: 'auto',
@@ -909,12 +2428,24 @@ const styles: { [key: string]: React.CSSProperties } = {
       borderRadius: '4px',
       border: '1px solid #444',
     },
+    fileNameColumn: {
+      display: 'flex',
+      flexDirection: 'column',
+      minWidth: 0,
+    },
     fileName: {
       whiteSpace: 'nowrap',
       overflow: 'hidden',
       textOverflow: 'ellipsis',
       fontSize: '14px',
     },
+    fileSource: {
+      whiteSpace: 'nowrap',
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+      fontSize: '11px',
+      color: '#999',
+    },
     content: {
       flex: 1,
       padding: '2rem',
@@ -948,6 +2479,18 @@ const styles: { [key: string]: React.CSSProperties } = {
       padding: '1rem',
       borderRadius: '8px',
     },
+    overlayContainer: {
+      position: 'relative',
+      display: 'inline-block',
+      maxWidth: '100%',
+      lineHeight: 0,
+    },
+    overlay: {
+      position: 'absolute',
+      inset: 0,
+      width: '100%',
+      height: '100%',
+    },
     toolControls: {
       flex: 2,
       display: 'flex',
@@ -975,19 +2518,16 @@ const styles: { [key: string]: React.CSSProperties } = {
       fontSize: '14px',
       fontWeight: 'bold',
     },
-    ocrResult: {
-      marginTop: '1rem',
-      padding: '1rem',
-      backgroundColor: '#2a2d2e',
-      borderRadius: '4px',
-      maxHeight: '300px',
-      overflowY: 'auto',
+    sourceNote: {
+      margin: '-0.5rem 0 0',
+      fontSize: '13px',
+      color: '#aaa',
     },
-    preformattedText: {
-      whiteSpace: 'pre-wrap',
-      wordWrap: 'break-word',
-      color: '#d4d4d4',
-      fontFamily: 'monospace',
+    checkboxLabel: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
     },
     loaderOverlay: {
       position: 'fixed',
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef } from 'react';
+import { ChatMessage, UploadedFile } from '../types';
+import { CHAT_ROLE_LABELS } from '../services/chatService';
+
+interface ChatPanelProps {
+    messages: ChatMessage[];
+    otherFiles: UploadedFile[]; // Workspace images that can be attached to the next question
+    draft: string;
+    attachedIds: string[];
+    isStreaming: boolean; // A reply to this conversation is arriving
+    disabled: boolean;
+    onDraftChange: (draft: string) => void;
+    onAttachedChange: (fileIds: string[]) => void;
+    onSend: () => void;
+    onStop: () => void;
+    onExport: () => void;
+    onClear: () => void;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+    messages, otherFiles, draft, attachedIds, isStreaming, disabled,
+    onDraftChange, onAttachedChange, onSend, onStop, onExport, onClear,
+}) => {
+    const transcriptRef = useRef<HTMLDivElement | null>(null);
+    const nameOf = (id: string) => otherFiles.find(f => f.id === id)?.file.name ?? 'Removed file';
+    const lastMessage = messages[messages.length - 1];
+
+    // Follow the reply as it streams in.
+    useEffect(() => {
+        const transcript = transcriptRef.current;
+        if (transcript) transcript.scrollTop = transcript.scrollHeight;
+    }, [messages.length, lastMessage?.text]);
+
+    const toggleAttached = (fileId: string) => {
+        onAttachedChange(attachedIds.includes(fileId) ? attachedIds.filter(id => id !== fileId) : [...attachedIds, fileId]);
+    };
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.header}>
+                <h4 style={styles.title}>Conversation</h4>
+                <button style={styles.linkButton} onClick={onExport} disabled={messages.length === 0}>Export Markdown</button>
+                <button style={styles.linkButton} onClick={onClear} disabled={messages.length === 0 || isStreaming}>Clear</button>
+            </div>
+            <div ref={transcriptRef} style={styles.transcript}>
+                {messages.length === 0 && <p style={styles.hint}>Ask about this image. Follow-up questions keep the earlier answers in context.</p>}
+                {messages.map(message => (
+                    <div key={message.id} style={message.role === 'user' ? { ...styles.message, ...styles.userMessage } : styles.message}>
+                        <span style={styles.role}>{CHAT_ROLE_LABELS[message.role]}</span>
+                        {message.attachedFileIds.length > 0 && (
+                            <span style={styles.hint}>Attached: {message.attachedFileIds.map(nameOf).join(', ')}</span>
+                        )}
+                        <pre style={styles.text}>
+                            {message.text || (isStreaming && message === lastMessage ? 'Waiting for the first words...' : '(no reply)')}
+                        </pre>
+                        {message.partial && !(isStreaming && message === lastMessage) && (
+                            <span style={styles.hint}>Stopped before the reply was complete.</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <textarea
+                value={draft}
+                onChange={(e) => onDraftChange(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                        e.preventDefault();
+                        onSend();
+                    }
+                }}
+                placeholder={messages.length === 0 ? "e.g., 'describe this image in detail'" : "e.g., 'which items were taxed?'"}
+                style={styles.input}
+                aria-label="Message"
+            />
+            {otherFiles.length > 0 && (
+                <details>
+                    <summary style={styles.summary}>Include other images ({attachedIds.length} selected)</summary>
+                    <div style={styles.attachList}>
+                        {otherFiles.map(file => (
+                            <label key={file.id} style={styles.attachOption}>
+                                <input type="checkbox" checked={attachedIds.includes(file.id)} onChange={() => toggleAttached(file.id)} />
+                                {file.file.name}
+                            </label>
+                        ))}
+                    </div>
+                </details>
+            )}
+            {isStreaming
+                ? <button style={{ ...styles.button, backgroundColor: '#c53929' }} onClick={onStop}>Stop</button>
+                : <button style={styles.button} onClick={onSend} disabled={disabled || !draft.trim()} title="Ctrl+Enter">Send</button>}
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.75rem',
+    },
+    title: {
+      margin: 0,
+      flex: 1,
+    },
+    transcript: {
+      maxHeight: '400px',
+      overflowY: 'auto',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+    },
+    message: {
+      padding: '0.5rem 0.75rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.25rem',
+    },
+    userMessage: {
+      backgroundColor: '#1f3a4d',
+    },
+    role: {
+      fontSize: '12px',
+      fontWeight: 'bold',
+      color: '#ccc',
+    },
+    text: {
+      margin: 0,
+      whiteSpace: 'pre-wrap',
+      wordWrap: 'break-word',
+      color: '#d4d4d4',
+      fontFamily: 'inherit',
+      fontSize: '14px',
+    },
+    hint: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#aaa',
+    },
+    input: {
+      width: '100%',
+      minHeight: '80px',
+      boxSizing: 'border-box',
+      padding: '0.75rem',
+      backgroundColor: '#2a2d2e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      resize: 'vertical',
+      fontSize: '14px',
+    },
+    summary: {
+      fontSize: '13px',
+      cursor: 'pointer',
+    },
+    attachList: {
+      marginTop: '0.5rem',
+      maxHeight: '150px',
+      overflowY: 'auto',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.25rem',
+    },
+    attachOption: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.4rem',
+      fontSize: '13px',
+    },
+    button: {
+      padding: '0.75rem',
+      backgroundColor: '#0e639c',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+      fontWeight: 'bold',
+    },
+    linkButton: {
+      background: 'none',
+      border: 'none',
+      color: '#4fc3f7',
+      cursor: 'pointer',
+      fontSize: '12px',
+      padding: 0,
+    },
+};
+
+export default ChatPanel;
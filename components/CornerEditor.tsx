@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { Point, Quad } from '../services/deskewService';
+
+interface CornerEditorProps {
+    imageUrl: string;
+    width: number; // Natural size of the image; corners are in these pixel coordinates
+    height: number;
+    initialCorners: Quad;
+    detected: boolean; // Whether the corners came from edge detection or are just the image bounds
+    disabled: boolean;
+    onApply: (corners: Quad) => void;
+    onCancel: () => void;
+}
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+const CornerEditor: React.FC<CornerEditorProps> = ({ imageUrl, width, height, initialCorners, detected, disabled, onApply, onCancel }) => {
+    const [corners, setCorners] = useState<Quad>(initialCorners);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    // Handles keep the same on-screen size whatever the image resolution.
+    const handleRadius = Math.max(width, height) / 60;
+
+    const toImagePoint = (clientX: number, clientY: number): Point => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            x: Math.min(width, Math.max(0, ((clientX - rect.left) / rect.width) * width)),
+            y: Math.min(height, Math.max(0, ((clientY - rect.top) / rect.height) * height)),
+        };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (dragIndex === null) return;
+        const point = toImagePoint(e.clientX, e.clientY);
+        setCorners(prev => prev.map((corner, i) => (i === dragIndex ? point : corner)) as Quad);
+    };
+
+    return (
+        <div style={styles.container}>
+            <p style={styles.hint}>
+                {detected
+                    ? 'Detected document corners are shown. Drag them to adjust, then apply.'
+                    : 'No document outline was found. Drag the corners onto the document, then apply.'}
+            </p>
+            <div style={styles.stage}>
+                <img src={imageUrl} alt="Set document corners" style={styles.image} draggable={false} />
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${width} ${height}`}
+                    preserveAspectRatio="none"
+                    style={styles.overlay}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => setDragIndex(null)}
+                    onPointerLeave={() => setDragIndex(null)}
+                >
+                    <polygon
+                        points={corners.map(c => `${c.x},${c.y}`).join(' ')}
+                        fill="rgba(79, 193, 255, 0.15)"
+                        stroke="#4fc1ff"
+                        strokeWidth={handleRadius / 4}
+                    />
+                    {corners.map((corner, index) => (
+                        <circle
+                            key={CORNER_LABELS[index]}
+                            cx={corner.x}
+                            cy={corner.y}
+                            r={handleRadius}
+                            fill={dragIndex === index ? '#4fc1ff' : 'rgba(255, 255, 255, 0.85)'}
+                            stroke="#0e639c"
+                            strokeWidth={handleRadius / 4}
+                            style={styles.handle}
+                            onPointerDown={(e) => {
+                                if (disabled) return;
+                                e.preventDefault();
+                                setDragIndex(index);
+                            }}
+                        >
+                            <title>{CORNER_LABELS[index]}</title>
+                        </circle>
+                    ))}
+                </svg>
+            </div>
+            <div style={styles.actions}>
+                <button style={styles.button} onClick={() => onApply(corners)} disabled={disabled}>Apply De-skew</button>
+                <button style={styles.secondaryButton} onClick={() => setCorners(initialCorners)} disabled={disabled}>Reset Corners</button>
+                <button style={styles.secondaryButton} onClick={onCancel} disabled={disabled}>Cancel</button>
+            </div>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      flex: 2,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+      minWidth: 0,
+    },
+    hint: {
+      margin: 0,
+      fontSize: '13px',
+      color: '#ccc',
+    },
+    stage: {
+      position: 'relative',
+      alignSelf: 'flex-start',
+      maxWidth: '100%',
+      touchAction: 'none',
+      userSelect: 'none',
+    },
+    image: {
+      display: 'block',
+      maxWidth: '100%',
+      maxHeight: '70vh',
+      borderRadius: '4px',
+    },
+    overlay: {
+      position: 'absolute',
+      inset: 0,
+      width: '100%',
+      height: '100%',
+    },
+    handle: {
+      cursor: 'grab',
+    },
+    actions: {
+      display: 'flex',
+      gap: '0.5rem',
+    },
+    button: {
+      padding: '0.75rem',
+      backgroundColor: '#0e639c',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+    },
+    secondaryButton: {
+      padding: '0.75rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+    },
+};
+
+export default CornerEditor;
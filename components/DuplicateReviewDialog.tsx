@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { ReceiptResult, UploadedFile } from '../types';
+import { DuplicateGroup, DuplicateReason } from '../services/duplicateService';
+
+interface DuplicateReviewDialogProps {
+    groups: DuplicateGroup[];
+    files: UploadedFile[];
+    receipts: Record<string, ReceiptResult>;
+    disabled: boolean;
+    onKeep: (group: DuplicateGroup, keepId: string) => void; // Removes the other files
+    onMerge: (group: DuplicateGroup, keepId: string) => void; // Keeps one file with every file's results
+    onDismiss: (group: DuplicateGroup) => void; // Not duplicates
+    onClose: () => void;
+}
+
+const describeReason = (reason: DuplicateReason) =>
+    reason.kind === 'image' ? `images ${reason.similarity}% alike` : 'same merchant, date and total';
+
+const DuplicateGroupCard: React.FC<{
+    group: DuplicateGroup;
+    files: UploadedFile[];
+    receipts: Record<string, ReceiptResult>;
+    disabled: boolean;
+    onKeep: (keepId: string) => void;
+    onMerge: (keepId: string) => void;
+    onDismiss: () => void;
+}> = ({ group, files, receipts, disabled, onKeep, onMerge, onDismiss }) => {
+    const [keepId, setKeepId] = useState(group.fileIds[0]);
+    const nameOf = (id: string) => files.find(f => f.id === id)?.file.name ?? id;
+
+    return (
+        <div style={styles.group}>
+            <div style={styles.candidates}>
+                {group.fileIds.map(id => {
+                    const file = files.find(f => f.id === id);
+                    if (!file) return null;
+                    const receipt = receipts[id]?.data;
+                    return (
+                        <label key={id} style={id === keepId ? { ...styles.candidate, ...styles.candidateKept } : styles.candidate}>
+                            <img src={file.thumbnailUrl} alt={file.file.name} style={styles.thumbnail} />
+                            <span style={styles.name}>
+                                <input type="radio" checked={id === keepId} onChange={() => setKeepId(id)} disabled={disabled} /> {file.file.name}
+                            </span>
+                            {receipt && (
+                                <span style={styles.detail}>
+                                    {[receipt.merchant, receipt.date, receipt.total?.toFixed(2)].filter(Boolean).join(' · ')}
+                                </span>
+                            )}
+                        </label>
+                    );
+                })}
+            </div>
+            <ul style={styles.reasons}>
+                {group.matches.map(match => (
+                    <li key={`${match.a}|${match.b}`}>{nameOf(match.a)} and {nameOf(match.b)}: {describeReason(match.reason)}</li>
+                ))}
+            </ul>
+            <div style={styles.actions}>
+                <button style={styles.button} onClick={() => onKeep(keepId)} disabled={disabled} title="Removes the other files and their results">Keep Selected Only</button>
+                <button style={styles.button} onClick={() => onMerge(keepId)} disabled={disabled} title="Keeps the selected image and fills in OCR, receipt and review results it lacks from the others">Merge Into Selected</button>
+                <button style={styles.secondaryButton} onClick={onDismiss} disabled={disabled}>Not Duplicates</button>
+            </div>
+        </div>
+    );
+};
+
+const DuplicateReviewDialog: React.FC<DuplicateReviewDialogProps> = ({ groups, files, receipts, disabled, onKeep, onMerge, onDismiss, onClose }) => (
+    <div style={styles.overlay} onClick={onClose}>
+        <div style={styles.dialog} onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Possible duplicates">
+            <div style={styles.header}>
+                <h3 style={styles.title}>Possible Duplicates</h3>
+                <button style={styles.secondaryButton} onClick={onClose}>Close</button>
+            </div>
+            {groups.length === 0 && <p style={styles.detail}>No likely duplicates left.</p>}
+            {groups.map(group => (
+                <DuplicateGroupCard
+                    key={group.fileIds.join('|')}
+                    group={group}
+                    files={files}
+                    receipts={receipts}
+                    disabled={disabled}
+                    onKeep={(keepId) => onKeep(group, keepId)}
+                    onMerge={(keepId) => onMerge(group, keepId)}
+                    onDismiss={() => onDismiss(group)}
+                />
+            ))}
+        </div>
+    </div>
+);
+
+const styles: { [key: string]: React.CSSProperties } = {
+    overlay: {
+      position: 'fixed',
+      inset: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 900,
+    },
+    dialog: {
+      width: 'min(900px, 90vw)',
+      maxHeight: '85vh',
+      overflowY: 'auto',
+      padding: '1.5rem',
+      backgroundColor: '#252526',
+      border: '1px solid #444',
+      borderRadius: '8px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1rem',
+    },
+    header: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    title: {
+      margin: 0,
+    },
+    group: {
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '6px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+    },
+    candidates: {
+      display: 'flex',
+      gap: '0.75rem',
+      flexWrap: 'wrap',
+    },
+    candidate: {
+      width: '180px',
+      padding: '0.5rem',
+      border: '2px solid transparent',
+      borderRadius: '6px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.25rem',
+      cursor: 'pointer',
+    },
+    candidateKept: {
+      borderColor: '#0e639c',
+    },
+    thumbnail: {
+      width: '100%',
+      height: '140px',
+      objectFit: 'contain',
+      backgroundColor: '#1e1e1e',
+      borderRadius: '4px',
+    },
+    name: {
+      fontSize: '13px',
+      wordBreak: 'break-all',
+    },
+    detail: {
+      fontSize: '12px',
+      color: '#aaa',
+    },
+    reasons: {
+      margin: 0,
+      paddingLeft: '1.25rem',
+      fontSize: '12px',
+      color: '#ccc',
+    },
+    actions: {
+      display: 'flex',
+      gap: '0.5rem',
+    },
+    button: {
+      padding: '0.5rem 0.75rem',
+      backgroundColor: '#0e639c',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+    secondaryButton: {
+      padding: '0.5rem 0.75rem',
+      backgroundColor: 'transparent',
+      color: '#ccc',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+};
+
+export default DuplicateReviewDialog;
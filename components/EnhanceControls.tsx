@@ -0,0 +1,126 @@
+import React from 'react';
+import { BinarizationMode, EnhanceOptions } from '../types';
+import { DEFAULT_ENHANCE_OPTIONS } from '../services/enhanceService';
+
+interface EnhanceControlsProps {
+    options: EnhanceOptions;
+    onChange: (options: EnhanceOptions) => void;
+}
+
+type NumericOption = {
+    [K in keyof EnhanceOptions]: EnhanceOptions[K] extends number ? K : never;
+}[keyof EnhanceOptions];
+
+const SLIDERS: Array<{ key: NumericOption; label: string; min: number; max: number; step: number; unit?: string }> = [
+    { key: 'shadowRemoval', label: 'Shadow removal', min: 0, max: 60, step: 1, unit: 'px' },
+    { key: 'denoise', label: 'Denoise (median)', min: 0, max: 3, step: 1, unit: 'px' },
+    { key: 'contrastStretch', label: 'Contrast stretch', min: 0, max: 10, step: 0.5, unit: '%' },
+    { key: 'sharpenAmount', label: 'Sharpen amount', min: 0, max: 3, step: 0.1 },
+    { key: 'sharpenRadius', label: 'Sharpen radius', min: 1, max: 10, step: 1, unit: 'px' },
+];
+
+const EnhanceControls: React.FC<EnhanceControlsProps> = ({ options, onChange }) => {
+    const update = (changes: Partial<EnhanceOptions>) => onChange({ ...options, ...changes });
+
+    const renderSlider = (key: NumericOption, label: string, min: number, max: number, step: number, unit = '') => (
+        <label key={key} style={styles.row}>
+            <span style={styles.label}>{label}</span>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={options[key]}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                style={styles.slider}
+            />
+            <span style={styles.value}>{options[key] === 0 && min === 0 ? 'off' : `${options[key]}${unit}`}</span>
+        </label>
+    );
+
+    return (
+        <div style={styles.container}>
+            <h4 style={styles.heading}>Enhance for OCR (local)</h4>
+            <label style={styles.row}>
+                <span style={styles.label}>Grayscale</span>
+                <input
+                    type="checkbox"
+                    checked={options.grayscale || options.binarization !== 'none'}
+                    disabled={options.binarization !== 'none'}
+                    onChange={(e) => update({ grayscale: e.target.checked })}
+                />
+            </label>
+            {SLIDERS.map(s => renderSlider(s.key, s.label, s.min, s.max, s.step, s.unit))}
+            <label style={styles.row}>
+                <span style={styles.label}>Binarization</span>
+                <select
+                    value={options.binarization}
+                    onChange={(e) => update({ binarization: e.target.value as BinarizationMode })}
+                    style={styles.input}
+                >
+                    <option value="none">None</option>
+                    <option value="otsu">Otsu (global)</option>
+                    <option value="adaptive">Adaptive (local mean)</option>
+                </select>
+            </label>
+            {options.binarization === 'adaptive' && (
+                <>
+                    {renderSlider('adaptiveWindow', 'Window', 3, 50, 1, 'px')}
+                    {renderSlider('adaptiveOffset', 'Offset', 0, 40, 1)}
+                </>
+            )}
+            <button style={styles.resetButton} onClick={() => onChange(DEFAULT_ENHANCE_OPTIONS)}>Reset to defaults</button>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    heading: {
+      margin: 0,
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    label: {
+      flex: 1,
+    },
+    slider: {
+      width: '120px',
+    },
+    value: {
+      width: '40px',
+      textAlign: 'right',
+      color: '#aaa',
+    },
+    input: {
+      width: '170px',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    resetButton: {
+      alignSelf: 'flex-start',
+      padding: '0.25rem 0.5rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '12px',
+    },
+};
+
+export default EnhanceControls;
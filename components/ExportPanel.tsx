@@ -0,0 +1,169 @@
+import React from 'react';
+import { ExportColumn, ExportConfig, ExportFormat, LineItemExportField, ReceiptExportField } from '../types';
+import { EXPORT_PRESETS } from '../services/exportService';
+
+interface ExportPanelProps {
+    config: ExportConfig;
+    onChange: (config: ExportConfig) => void;
+    onExport: () => void;
+    disabled: boolean;
+}
+
+const ColumnEditor = <F extends string>({ columns, onChange }: {
+    columns: ExportColumn<F>[];
+    onChange: (columns: ExportColumn<F>[]) => void;
+}) => {
+    const updateColumn = (index: number, changes: Partial<ExportColumn<F>>) => {
+        onChange(columns.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+    };
+    const moveColumn = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= columns.length) return;
+        const next = [...columns];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    return (
+        <div style={styles.columnList}>
+            {columns.map((c, index) => (
+                <div key={c.field} style={styles.columnRow}>
+                    <input type="checkbox" checked={c.enabled} onChange={(e) => updateColumn(index, { enabled: e.target.checked })} title={c.field} />
+                    <input value={c.header} onChange={(e) => updateColumn(index, { header: e.target.value })} style={styles.headerInput} title={`Header for ${c.field}`} />
+                    <button style={styles.moveButton} onClick={() => moveColumn(index, -1)} disabled={index === 0}>↑</button>
+                    <button style={styles.moveButton} onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1}>↓</button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ config, onChange, onExport, disabled }) => {
+    const update = (changes: Partial<ExportConfig>) => onChange({ ...config, ...changes });
+
+    return (
+        <div style={styles.container}>
+            <label style={styles.row}>
+                Preset
+                <select
+                    value=""
+                    onChange={(e) => {
+                        const preset = EXPORT_PRESETS.find(p => p.id === e.target.value);
+                        if (preset) update(preset.config);
+                    }}
+                    style={styles.input}
+                >
+                    <option value="" disabled>Apply preset…</option>
+                    {EXPORT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+            </label>
+            <label style={styles.row}>
+                Format
+                <select value={config.format} onChange={(e) => update({ format: e.target.value as ExportFormat })} style={styles.input}>
+                    <option value="csv">CSV</option>
+                    <option value="xlsx">Excel (XLSX)</option>
+                    <option value="json">JSON</option>
+                </select>
+            </label>
+            <label style={styles.row}>
+                Date format
+                <select value={config.dateFormat} onChange={(e) => update({ dateFormat: e.target.value as ExportConfig['dateFormat'] })} style={styles.input}>
+                    <option value="iso">YYYY-MM-DD</option>
+                    <option value="us">MM/DD/YYYY</option>
+                    <option value="eu">DD/MM/YYYY</option>
+                </select>
+            </label>
+            <label style={styles.checkboxRow}>
+                <input type="checkbox" checked={config.negateAmounts} onChange={(e) => update({ negateAmounts: e.target.checked })} />
+                Export amounts as negative (spend)
+            </label>
+            <label style={styles.checkboxRow}>
+                <input type="checkbox" checked={config.includeLineItems} onChange={(e) => update({ includeLineItems: e.target.checked })} />
+                Include line items sheet
+            </label>
+            <details>
+                <summary style={styles.summary}>Receipt columns</summary>
+                <ColumnEditor<ReceiptExportField> columns={config.receiptColumns} onChange={(receiptColumns) => update({ receiptColumns })} />
+            </details>
+            {config.includeLineItems && (
+                <details>
+                    <summary style={styles.summary}>Line item columns</summary>
+                    <ColumnEditor<LineItemExportField> columns={config.lineItemColumns} onChange={(lineItemColumns) => update({ lineItemColumns })} />
+                </details>
+            )}
+            <button style={styles.exportButton} onClick={onExport} disabled={disabled}>Export Data</button>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+    },
+    checkboxRow: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+    },
+    input: {
+      width: '150px',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    summary: {
+      cursor: 'pointer',
+      color: '#ccc',
+    },
+    columnList: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.25rem',
+      marginTop: '0.5rem',
+    },
+    columnRow: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.25rem',
+    },
+    headerInput: {
+      flex: 1,
+      minWidth: 0,
+      padding: '0.2rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      fontSize: '12px',
+    },
+    moveButton: {
+      padding: '0 0.4rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+    },
+    exportButton: {
+      padding: '0.5rem',
+      backgroundColor: '#0d652d',
+      color: 'white',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+};
+
+export default ExportPanel;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { GenerationAspectRatio, GenerationOptions } from '../types';
+import { ASPECT_RATIO_LABELS, ImageGenerationSupport, MAX_GENERATED_IMAGES } from '../services/generationService';
+
+interface GenerationControlsProps {
+    options: GenerationOptions;
+    support: ImageGenerationSupport; // Settings the active provider's model can't take are disabled
+    onChange: (options: GenerationOptions) => void;
+}
+
+const UNSUPPORTED_TITLE = 'Not supported by the current model';
+
+const GenerationControls: React.FC<GenerationControlsProps> = ({ options, support, onChange }) => {
+    const update = (changes: Partial<GenerationOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <div style={styles.container}>
+            <h4 style={styles.heading}>Options</h4>
+            <label style={styles.row}>
+                Aspect ratio
+                <select
+                    value={options.aspectRatio}
+                    onChange={(e) => update({ aspectRatio: e.target.value as GenerationAspectRatio })}
+                    style={styles.input}
+                >
+                    {(Object.keys(ASPECT_RATIO_LABELS) as GenerationAspectRatio[]).map(ratio => (
+                        <option key={ratio} value={ratio}>{ASPECT_RATIO_LABELS[ratio]}</option>
+                    ))}
+                </select>
+            </label>
+            <label style={styles.row}>
+                Images
+                <select value={options.numberOfImages} onChange={(e) => update({ numberOfImages: Number(e.target.value) })} style={styles.input}>
+                    {Array.from({ length: MAX_GENERATED_IMAGES }, (_, i) => i + 1).map(count => (
+                        <option key={count} value={count}>{count}</option>
+                    ))}
+                </select>
+            </label>
+            <label style={styles.row}>
+                Format
+                <select
+                    value={options.outputMimeType}
+                    onChange={(e) => update({ outputMimeType: e.target.value as GenerationOptions['outputMimeType'] })}
+                    style={styles.input}
+                >
+                    <option value="image/jpeg">JPEG</option>
+                    <option value="image/png">PNG</option>
+                </select>
+            </label>
+            <label style={styles.row} title={support.negativePrompt ? 'Things to keep out of the image' : UNSUPPORTED_TITLE}>
+                Negative prompt
+                <input
+                    type="text"
+                    value={options.negativePrompt}
+                    onChange={(e) => update({ negativePrompt: e.target.value })}
+                    placeholder="e.g., 'text, watermark'"
+                    disabled={!support.negativePrompt}
+                    style={styles.input}
+                />
+            </label>
+            <label style={styles.row} title={support.seed ? 'The same prompt, settings and seed give the same images' : UNSUPPORTED_TITLE}>
+                Seed
+                <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={options.seed ?? ''}
+                    onChange={(e) => update({ seed: e.target.value === '' ? null : Math.max(0, Math.round(Number(e.target.value))) })}
+                    placeholder="Random"
+                    disabled={!support.seed}
+                    style={styles.input}
+                />
+            </label>
+            {(!support.negativePrompt || !support.seed) && (
+                <p style={styles.note}>
+                    {support.model} does not take {[!support.negativePrompt && 'a negative prompt', !support.seed && 'a seed'].filter(Boolean).join(' or ')}.
+                </p>
+            )}
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    heading: {
+      margin: 0,
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    input: {
+      width: '180px',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    note: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#aaa',
+    },
+};
+
+export default GenerationControls;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+
+interface GenerationGridProps {
+    prompt: string;
+    images: string[]; // Data URLs of the variations, in the order the model returned them
+    requested: number; // How many were asked for; safety filters can drop some
+    disabled: boolean;
+    onAdd: (indexes: number[]) => void;
+    onDiscard: () => void;
+}
+
+const GenerationGrid: React.FC<GenerationGridProps> = ({ prompt, images, requested, disabled, onAdd, onDiscard }) => {
+    // All variations start selected, so a single image is one click away from the workspace.
+    const [selected, setSelected] = useState<Set<number>>(() => new Set(images.map((_, index) => index)));
+
+    const toggle = (index: number) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+    };
+
+    return (
+        <div style={styles.container}>
+            <h4 style={styles.heading}>Results for: {prompt}</h4>
+            {images.length < requested && (
+                <p style={styles.note}>{requested - images.length} of {requested} images were withheld by the model's safety filters.</p>
+            )}
+            <div style={styles.grid}>
+                {images.map((dataUrl, index) => (
+                    <label
+                        key={index}
+                        style={selected.has(index) ? { ...styles.cell, ...styles.selectedCell } : styles.cell}
+                    >
+                        <img src={dataUrl} alt={`Variation ${index + 1}`} style={styles.image} />
+                        <span style={styles.caption}>
+                            <input type="checkbox" checked={selected.has(index)} onChange={() => toggle(index)} />
+                            Variation {index + 1}
+                        </span>
+                    </label>
+                ))}
+            </div>
+            <div style={styles.actions}>
+                <button
+                    style={styles.button}
+                    onClick={() => onAdd([...selected].sort((a, b) => a - b))}
+                    disabled={disabled || selected.size === 0}
+                >
+                    Add {selected.size} to Workspace
+                </button>
+                <button style={styles.secondaryButton} onClick={onDiscard} disabled={disabled}>Discard</button>
+            </div>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+      marginTop: '20px',
+    },
+    heading: {
+      margin: 0,
+    },
+    note: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#e8a33d',
+    },
+    grid: {
+      display: 'grid',
+      gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+      gap: '0.75rem',
+    },
+    cell: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.4rem',
+      padding: '0.5rem',
+      backgroundColor: '#2a2d2e',
+      border: '2px solid transparent',
+      borderRadius: '4px',
+      cursor: 'pointer',
+    },
+    selectedCell: {
+      borderColor: '#4fc1ff',
+    },
+    image: {
+      width: '100%',
+      borderRadius: '4px',
+    },
+    caption: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.4rem',
+      fontSize: '13px',
+    },
+    actions: {
+      display: 'flex',
+      gap: '0.5rem',
+    },
+    button: {
+      padding: '0.75rem',
+      backgroundColor: '#0e639c',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+    },
+    secondaryButton: {
+      padding: '0.75rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+    },
+};
+
+export default GenerationGrid;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { ProcessedImage, UploadedFile } from '../types';
+import { canRedo, canUndo, getStepChildren, getStepPath } from '../services/historyService';
+
+export interface CompareSelection {
+    left: string | null; // Step id, or null for the original
+    right: string | null;
+}
+
+interface HistoryTimelineProps {
+    file: UploadedFile;
+    compare: CompareSelection | null;
+    disabled: boolean;
+    onRevert: (stepId: string | null) => void;
+    onUndo: () => void;
+    onRedo: () => void;
+    onCompareChange: (compare: CompareSelection | null) => void;
+}
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ file, compare, disabled, onRevert, onUndo, onRedo, onCompareChange }) => {
+    const activePath = new Set(getStepPath(file, file.currentStepId).map(step => step.id));
+
+    const toggleCompare = (side: keyof CompareSelection, stepId: string | null) => {
+        const base: CompareSelection = compare ?? { left: null, right: file.currentStepId };
+        onCompareChange({ ...base, [side]: stepId });
+    };
+
+    const renderNode = (step: ProcessedImage | null, depth: number): React.ReactNode => {
+        const stepId = step ? step.id : null;
+        const isCurrent = stepId === file.currentStepId;
+        const isOnPath = stepId === null || activePath.has(stepId);
+        const children = getStepChildren(file, stepId);
+
+        return (
+            <React.Fragment key={stepId ?? 'original'}>
+                <div
+                    style={{
+                        ...styles.node,
+                        paddingLeft: `${0.5 + depth * 0.75}rem`,
+                        ...(isCurrent ? styles.nodeCurrent : {}),
+                        ...(isOnPath ? {} : styles.nodeOffPath),
+                    }}
+                >
+                    <button
+                        style={styles.nodeLabel}
+                        onClick={() => onRevert(stepId)}
+                        disabled={disabled || isCurrent}
+                        title={isCurrent ? 'Current step' : 'Revert to this step'}
+                    >
+                        {depth > 0 && '└ '}{step ? step.description : 'Original'}
+                        {step && <span style={styles.size}> {(step.size / 1024).toFixed(1)} KB</span>}
+                    </button>
+                    <button
+                        style={compare?.left === stepId ? { ...styles.compareButton, ...styles.compareActive } : styles.compareButton}
+                        onClick={() => toggleCompare('left', stepId)}
+                        title="Show on the left side"
+                    >A</button>
+                    <button
+                        style={compare?.right === stepId ? { ...styles.compareButton, ...styles.compareActive } : styles.compareButton}
+                        onClick={() => toggleCompare('right', stepId)}
+                        title="Show on the right side"
+                    >B</button>
+                </div>
+                {children.map(child => renderNode(child, depth + 1))}
+            </React.Fragment>
+        );
+    };
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.toolbar}>
+                <h4 style={styles.heading}>History</h4>
+                <button style={styles.toolbarButton} onClick={onUndo} disabled={disabled || !canUndo(file)} title="Undo (Ctrl+Z)">Undo</button>
+                <button style={styles.toolbarButton} onClick={onRedo} disabled={disabled || !canRedo(file)} title="Redo (Ctrl+Shift+Z)">Redo</button>
+                {compare && <button style={styles.toolbarButton} onClick={() => onCompareChange(null)}>Reset compare</button>}
+            </div>
+            <div style={styles.tree}>{renderNode(null, 0)}</div>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    toolbar: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      marginBottom: '0.5rem',
+    },
+    heading: {
+      margin: 0,
+      marginRight: 'auto',
+    },
+    toolbarButton: {
+      padding: '0.25rem 0.5rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '12px',
+    },
+    tree: {
+      maxHeight: '220px',
+      overflowY: 'auto',
+    },
+    node: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.25rem',
+      borderRadius: '4px',
+    },
+    nodeCurrent: {
+      backgroundColor: '#0e639c',
+    },
+    nodeOffPath: {
+      opacity: 0.6,
+    },
+    nodeLabel: {
+      flex: 1,
+      textAlign: 'left',
+      padding: '0.25rem',
+      background: 'none',
+      border: 'none',
+      color: 'inherit',
+      cursor: 'pointer',
+      fontSize: '13px',
+      whiteSpace: 'nowrap',
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+    },
+    size: {
+      color: '#aaa',
+      fontSize: '11px',
+    },
+    compareButton: {
+      padding: '0 0.35rem',
+      background: 'none',
+      border: '1px solid #555',
+      color: '#aaa',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '11px',
+    },
+    compareActive: {
+      backgroundColor: '#c5a029',
+      color: '#1e1e1e',
+      borderColor: '#c5a029',
+    },
+};
+
+export default HistoryTimeline;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { JobItem, JobStatus } from '../services/jobQueue';
+import { formatCost } from '../services/usageService';
+
+export interface BatchJobState {
+    id: string; // Usage records made by this job carry it as their batchId
+    title: string;
+    items: JobItem[];
+    paused: boolean;
+    finished: boolean;
+}
+
+interface JobQueuePanelProps {
+    job: BatchJobState;
+    cost: number; // Estimated spend of this job so far
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: () => void;
+    onRetryFailed: () => void;
+    onDismiss: () => void;
+}
+
+export const JOB_STATUS_COLORS: Record<JobStatus, string> = {
+    queued: '#888',
+    running: '#4fc1ff',
+    done: '#81c995',
+    failed: '#f28b82',
+    skipped: '#c5a029',
+};
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ job, cost, onPause, onResume, onCancel, onRetryFailed, onDismiss }) => {
+    const count = (status: JobStatus) => job.items.filter(item => item.status === status).length;
+    const completed = count('done') + count('failed') + count('skipped');
+    const failed = count('failed');
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.header}>
+                <h4 style={styles.title}>
+                    {job.title} — {completed}/{job.items.length}
+                    {job.paused && !job.finished && ' (paused)'}
+                    {cost > 0 && ` · ${formatCost(cost)}`}
+                </h4>
+                {!job.finished && (
+                    <>
+                        {job.paused
+                            ? <button style={styles.button} onClick={onResume}>Resume</button>
+                            : <button style={styles.button} onClick={onPause}>Pause</button>}
+                        <button style={{ ...styles.button, backgroundColor: '#c53929' }} onClick={onCancel}>Cancel</button>
+                    </>
+                )}
+                {job.finished && (
+                    <>
+                        {failed > 0 && <button style={styles.button} onClick={onRetryFailed}>Re-run failed ({failed})</button>}
+                        <button style={styles.button} onClick={onDismiss}>Dismiss</button>
+                    </>
+                )}
+            </div>
+            {job.finished && (
+                <p style={styles.summary}>
+                    Finished: {count('done')} done, {failed} failed, {count('skipped')} skipped.
+                </p>
+            )}
+            <div style={styles.list}>
+                {job.items.map(item => (
+                    <div key={item.id} style={styles.item}>
+                        <span style={{ ...styles.status, color: JOB_STATUS_COLORS[item.status] }}>{item.status}</span>
+                        <span style={styles.label}>{item.label}</span>
+                        <span style={styles.detail} title={item.error ?? item.message}>{item.error ?? item.message ?? ''}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      marginBottom: '1rem',
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '8px',
+      border: '1px solid #444',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+    },
+    title: {
+      margin: 0,
+      marginRight: 'auto',
+    },
+    button: {
+      padding: '0.35rem 0.75rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+    summary: {
+      margin: '0.5rem 0 0',
+      fontSize: '13px',
+      color: '#ccc',
+    },
+    list: {
+      marginTop: '0.75rem',
+      maxHeight: '180px',
+      overflowY: 'auto',
+      fontSize: '13px',
+    },
+    item: {
+      display: 'flex',
+      gap: '0.75rem',
+      padding: '0.2rem 0',
+      borderBottom: '1px solid #333',
+    },
+    status: {
+      width: '60px',
+      flexShrink: 0,
+      textTransform: 'uppercase',
+      fontSize: '11px',
+      fontWeight: 'bold',
+    },
+    label: {
+      width: '200px',
+      flexShrink: 0,
+      whiteSpace: 'nowrap',
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+    },
+    detail: {
+      color: '#aaa',
+      whiteSpace: 'nowrap',
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+    },
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,231 @@
+import React, { useId, useRef, useState } from 'react';
+import { Point } from '../services/deskewService';
+import { MaskShape, MaskTool, toImagePixels } from '../services/maskService';
+
+interface MaskEditorProps {
+    imageUrl: string;
+    shapes: MaskShape[]; // In the image's natural pixel coordinates
+    featherPercent: number; // Share of the image's longer side
+    disabled: boolean;
+    onShapesChange: (shapes: MaskShape[]) => void;
+    onFeatherChange: (featherPercent: number) => void;
+}
+
+const TOOL_LABELS: Record<MaskTool, string> = {
+    brush: 'Brush',
+    eraser: 'Eraser',
+    lasso: 'Lasso',
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, shapes, featherPercent, disabled, onShapesChange, onFeatherChange }) => {
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushPercent, setBrushPercent] = useState(4);
+    const [showMask, setShowMask] = useState(true);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [drawing, setDrawing] = useState<MaskShape | null>(null);
+    const svgRef = useRef<SVGSVGElement | null>(null);
+    const maskId = useId();
+
+    const toImagePoint = (clientX: number, clientY: number): Point => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            x: Math.min(size!.width, Math.max(0, ((clientX - rect.left) / rect.width) * size!.width)),
+            y: Math.min(size!.height, Math.max(0, ((clientY - rect.top) / rect.height) * size!.height)),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (disabled || !size) return;
+        e.preventDefault();
+        svgRef.current?.setPointerCapture?.(e.pointerId);
+        const radius = toImagePixels(brushPercent, size.width, size.height) / 2;
+        setDrawing({ tool, points: [toImagePoint(e.clientX, e.clientY)], radius });
+    };
+
+    // Points closer than a few pixels to the last one add nothing but work.
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!drawing || !size) return;
+        const point = toImagePoint(e.clientX, e.clientY);
+        const last = drawing.points[drawing.points.length - 1];
+        const minStep = drawing.tool === 'lasso' ? Math.max(size.width, size.height) / 200 : drawing.radius / 4;
+        if (Math.hypot(point.x - last.x, point.y - last.y) < minStep) return;
+        setDrawing({ ...drawing, points: [...drawing.points, point] });
+    };
+
+    const finishShape = () => {
+        if (!drawing) return;
+        if (drawing.tool !== 'lasso' || drawing.points.length >= 3) onShapesChange([...shapes, drawing]);
+        setDrawing(null);
+    };
+
+    const renderShape = (shape: MaskShape, index: number) => {
+        const points = (shape.points.length === 1 ? [shape.points[0], shape.points[0]] : shape.points).map(p => `${p.x},${p.y}`).join(' ');
+        return shape.tool === 'lasso'
+            ? <polygon key={index} points={points} fill="white" />
+            : (
+                <polyline
+                    key={index}
+                    points={points}
+                    fill="none"
+                    stroke={shape.tool === 'eraser' ? 'black' : 'white'}
+                    strokeWidth={shape.radius * 2}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                />
+            );
+    };
+
+    const featherPx = size ? toImagePixels(featherPercent, size.width, size.height) : 0;
+    const visibleShapes = drawing && drawing.tool !== 'lasso' ? [...shapes, drawing] : shapes;
+
+    return (
+        <div style={styles.container}>
+            <p style={styles.hint}>
+                Paint over the area to change. Only the painted region is edited; everything else is kept as it is.
+            </p>
+            <div style={styles.toolbar}>
+                {(Object.keys(TOOL_LABELS) as MaskTool[]).map(option => (
+                    <button
+                        key={option}
+                        style={option === tool ? { ...styles.toolButton, ...styles.activeToolButton } : styles.toolButton}
+                        onClick={() => setTool(option)}
+                        aria-pressed={option === tool}
+                    >
+                        {TOOL_LABELS[option]}
+                    </button>
+                ))}
+                <label style={styles.sliderLabel}>
+                    Brush size
+                    <input type="range" min={1} max={15} step={0.5} value={brushPercent} onChange={(e) => setBrushPercent(Number(e.target.value))} disabled={tool === 'lasso'} />
+                </label>
+                <label style={styles.sliderLabel}>
+                    Feather
+                    <input type="range" min={0} max={5} step={0.25} value={featherPercent} onChange={(e) => onFeatherChange(Number(e.target.value))} />
+                </label>
+            </div>
+            <div style={styles.toolbar}>
+                <button style={styles.secondaryButton} onClick={() => onShapesChange(shapes.slice(0, -1))} disabled={disabled || shapes.length === 0}>Undo Stroke</button>
+                <button style={styles.secondaryButton} onClick={() => onShapesChange([])} disabled={disabled || shapes.length === 0}>Clear Mask</button>
+                <label style={styles.sliderLabel}>
+                    <input type="checkbox" checked={showMask} onChange={(e) => setShowMask(e.target.checked)} />
+                    Show mask
+                </label>
+            </div>
+            <div style={styles.stage}>
+                <img
+                    src={imageUrl}
+                    alt="Paint the region to edit"
+                    style={styles.image}
+                    draggable={false}
+                    onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                />
+                {size && (
+                    <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${size.width} ${size.height}`}
+                        preserveAspectRatio="none"
+                        style={{ ...styles.overlay, cursor: disabled ? 'default' : 'crosshair' }}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={finishShape}
+                        onPointerCancel={finishShape}
+                    >
+                        <defs>
+                            <filter id={`${maskId}-feather`} x="-10%" y="-10%" width="120%" height="120%">
+                                <feGaussianBlur stdDeviation={featherPx / 2} />
+                            </filter>
+                            <mask id={`${maskId}-mask`} maskUnits="userSpaceOnUse" x={0} y={0} width={size.width} height={size.height}>
+                                <g filter={featherPx > 0 ? `url(#${maskId}-feather)` : undefined}>
+                                    {visibleShapes.map(renderShape)}
+                                </g>
+                            </mask>
+                        </defs>
+                        {showMask && (
+                            <rect width={size.width} height={size.height} fill="rgba(232, 63, 63, 0.45)" mask={`url(#${maskId}-mask)`} />
+                        )}
+                        {drawing?.tool === 'lasso' && (
+                            <polyline
+                                points={drawing.points.map(p => `${p.x},${p.y}`).join(' ')}
+                                fill="rgba(232, 63, 63, 0.2)"
+                                stroke="#e83f3f"
+                                strokeWidth={2}
+                                strokeDasharray="6 4"
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        )}
+                    </svg>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      flex: 2,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+      minWidth: 0,
+    },
+    hint: {
+      margin: 0,
+      fontSize: '13px',
+      color: '#ccc',
+    },
+    toolbar: {
+      display: 'flex',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: '0.5rem',
+    },
+    toolButton: {
+      padding: '0.4rem 0.75rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: '1px solid transparent',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+    activeToolButton: {
+      backgroundColor: '#0e639c',
+      borderColor: '#4fc1ff',
+    },
+    sliderLabel: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.4rem',
+      fontSize: '13px',
+    },
+    secondaryButton: {
+      padding: '0.4rem 0.75rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+    stage: {
+      position: 'relative',
+      alignSelf: 'flex-start',
+      maxWidth: '100%',
+      touchAction: 'none',
+      userSelect: 'none',
+    },
+    image: {
+      display: 'block',
+      maxWidth: '100%',
+      maxHeight: '70vh',
+      borderRadius: '4px',
+    },
+    overlay: {
+      position: 'absolute',
+      inset: 0,
+      width: '100%',
+      height: '100%',
+    },
+};
+
+export default MaskEditor;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { GenerationParams, ImageMetadata } from '../types';
+import { getOrientationLabel } from '../services/exifService';
+import { describeGenerationParams } from '../services/generationService';
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+    `${Math.abs(value).toFixed(5)}° ${value >= 0 ? positive : negative}`;
+
+const GenerationTable: React.FC<{ generation: GenerationParams }> = ({ generation }) => (
+    <table style={styles.table}>
+        <tbody>
+            {describeGenerationParams(generation).map(([label, value]) => (
+                <tr key={label}><th style={styles.th}>{label}</th><td style={styles.wrap}>{value}</td></tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+// Images made in the Generator show the settings they were generated with instead of EXIF data.
+const MetadataPanel: React.FC<{ metadata: ImageMetadata | null; generation?: GenerationParams | null }> = ({ metadata, generation }) => {
+    if (!metadata) {
+        return (
+            <div style={styles.container}>
+                <h4 style={styles.heading}>{generation ? 'Generation' : 'Metadata'}</h4>
+                {generation
+                    ? <GenerationTable generation={generation} />
+                    : <p style={styles.muted}>The original file has no EXIF or XMP metadata.</p>}
+            </div>
+        );
+    }
+
+    const camera = [metadata.cameraMake, metadata.cameraModel].filter(Boolean).join(' ');
+    const fieldNames = Object.keys(metadata.fields).sort();
+
+    return (
+        <div style={styles.container}>
+            <h4 style={styles.heading}>Metadata</h4>
+            <table style={styles.table}>
+                <tbody>
+                    <tr><th style={styles.th}>Captured</th><td>{metadata.captureDate?.replace('T', ' ') ?? '—'}</td></tr>
+                    <tr><th style={styles.th}>Camera</th><td>{camera || '—'}</td></tr>
+                    {metadata.software && <tr><th style={styles.th}>Software</th><td>{metadata.software}</td></tr>}
+                    <tr><th style={styles.th}>Orientation</th><td>{metadata.orientation ? getOrientationLabel(metadata.orientation) : '—'}</td></tr>
+                    <tr>
+                        <th style={styles.th}>Location</th>
+                        <td>
+                            {metadata.gps ? (
+                                <a
+                                    href={`https://www.openstreetmap.org/?mlat=${metadata.gps.latitude}&mlon=${metadata.gps.longitude}#map=17/${metadata.gps.latitude}/${metadata.gps.longitude}`}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    style={styles.link}
+                                >
+                                    {formatCoordinate(metadata.gps.latitude, 'N', 'S')}, {formatCoordinate(metadata.gps.longitude, 'E', 'W')}
+                                    {metadata.gps.altitude !== null ? `, ${Math.round(metadata.gps.altitude)} m` : ''}
+                                </a>
+                            ) : '—'}
+                        </td>
+                    </tr>
+                </tbody>
+            </table>
+            {fieldNames.length > 0 && (
+                <details>
+                    <summary style={styles.summary}>All fields ({fieldNames.length}){metadata.hasXmp ? ' + XMP' : ''}</summary>
+                    <table style={styles.table}>
+                        <tbody>
+                            {fieldNames.map(name => (
+                                <tr key={name}><th style={styles.th}>{name}</th><td style={styles.value}>{metadata.fields[name]}</td></tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </details>
+            )}
+            <p style={styles.muted}>Shown for the original file. Processed versions carry no metadata.</p>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+      fontSize: '13px',
+    },
+    heading: {
+      marginTop: 0,
+    },
+    table: {
+      width: '100%',
+      borderCollapse: 'collapse',
+      marginBottom: '0.5rem',
+    },
+    th: {
+      textAlign: 'left',
+      verticalAlign: 'top',
+      color: '#aaa',
+      fontWeight: 'normal',
+      paddingRight: '1rem',
+      whiteSpace: 'nowrap',
+    },
+    wrap: {
+      wordBreak: 'break-word',
+    },
+    value: {
+      fontFamily: 'monospace',
+      wordBreak: 'break-all',
+    },
+    link: {
+      color: '#4fc1ff',
+    },
+    summary: {
+      cursor: 'pointer',
+      color: '#ccc',
+      marginBottom: '0.5rem',
+    },
+    muted: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#aaa',
+    },
+};
+
+export default MetadataPanel;
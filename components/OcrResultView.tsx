@@ -0,0 +1,115 @@
+import React, { useEffect, useRef } from 'react';
+import { OcrResult } from '../types';
+import { getLayoutWords, isLowConfidence, LOW_CONFIDENCE_THRESHOLD } from '../services/ocrLayout';
+
+interface OcrResultViewProps {
+    result: OcrResult;
+    selectedWordId: string | null;
+    onSelectWord: (wordId: string | null) => void;
+    isStreaming?: boolean; // Text is still arriving
+}
+
+const OcrResultView: React.FC<OcrResultViewProps> = ({ result, selectedWordId, onSelectWord, isStreaming = false }) => {
+    const containerRef = useRef<HTMLDivElement | null>(null);
+
+    // Keep the selected word visible when it was picked on the image.
+    useEffect(() => {
+        if (!selectedWordId) return;
+        const element = containerRef.current?.querySelector(`[data-word-id="${selectedWordId}"]`);
+        element?.scrollIntoView?.({ block: 'nearest' });
+    }, [selectedWordId]);
+
+    if (!result.layout) {
+        return (
+            <div style={styles.container}>
+                <h4>OCR Result:</h4>
+                {isStreaming && <p style={styles.hint}>Receiving text...</p>}
+                {!isStreaming && result.partial && <p style={styles.hint}>Stopped early. This is the text received until then.</p>}
+                <pre style={styles.text}>{result.text}</pre>
+            </div>
+        );
+    }
+
+    const lowConfidenceCount = getLayoutWords(result.layout).filter(isLowConfidence).length;
+
+    return (
+        <div style={styles.container}>
+            <h4>OCR Result:</h4>
+            <p style={styles.hint}>
+                Click a word to find it on the image.
+                {lowConfidenceCount > 0 && (
+                    <> <span style={styles.lowConfidence}>{lowConfidenceCount} words</span> are below {Math.round(LOW_CONFIDENCE_THRESHOLD * 100)}% confidence.</>
+                )}
+            </p>
+            <div ref={containerRef} style={styles.text}>
+                {result.layout.blocks.map((block, blockIndex) => (
+                    <div key={blockIndex} style={styles.block}>
+                        {block.lines.map((line, lineIndex) => (
+                            <div key={lineIndex}>
+                                {line.words.map(word => {
+                                    const isSelected = word.id === selectedWordId;
+                                    return (
+                                        <React.Fragment key={word.id}>
+                                            <span
+                                                data-word-id={word.id}
+                                                onClick={() => onSelectWord(isSelected ? null : word.id)}
+                                                title={word.confidence !== null ? `Confidence ${Math.round(word.confidence * 100)}%` : undefined}
+                                                style={{
+                                                    ...styles.word,
+                                                    ...(isLowConfidence(word) ? styles.lowConfidence : {}),
+                                                    ...(isSelected ? styles.selected : {}),
+                                                }}
+                                            >
+                                                {word.text}
+                                            </span>{' '}
+                                        </React.Fragment>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      marginTop: '1rem',
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    hint: {
+      margin: '0 0 0.5rem',
+      fontSize: '12px',
+      color: '#aaa',
+    },
+    text: {
+      whiteSpace: 'pre-wrap',
+      wordWrap: 'break-word',
+      color: '#d4d4d4',
+      fontFamily: 'monospace',
+      maxHeight: '300px',
+      overflowY: 'auto',
+      margin: 0,
+    },
+    block: {
+      marginBottom: '0.75rem',
+    },
+    word: {
+      cursor: 'pointer',
+      borderRadius: '2px',
+    },
+    lowConfidence: {
+      textDecoration: 'underline wavy #e8a33d',
+      backgroundColor: 'rgba(232, 163, 61, 0.15)',
+    },
+    selected: {
+      backgroundColor: '#0e639c',
+      color: 'white',
+    },
+};
+
+export default OcrResultView;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { OutputFormatOptions } from '../types';
+import { OUTPUT_FORMATS, isEncodingSupported, isLossyFormat } from '../services/formatService';
+
+interface OutputFormatControlsProps {
+    options: OutputFormatOptions;
+    onChange: (options: OutputFormatOptions) => void;
+}
+
+const OutputFormatControls: React.FC<OutputFormatControlsProps> = ({ options, onChange }) => {
+    const showQuality = options.mimeType !== 'original' && isLossyFormat(options.mimeType);
+
+    return (
+        <div style={styles.container}>
+            <label style={styles.row}>
+                Format
+                <select
+                    value={options.mimeType}
+                    onChange={(e) => onChange({ ...options, mimeType: e.target.value as OutputFormatOptions['mimeType'] })}
+                    style={styles.input}
+                >
+                    <option value="original">Keep original</option>
+                    {OUTPUT_FORMATS.map(format => (
+                        <option key={format.mimeType} value={format.mimeType} disabled={!isEncodingSupported(format.mimeType)}>
+                            {format.label}{isEncodingSupported(format.mimeType) ? '' : ' (unsupported)'}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            {showQuality && (
+                <label style={styles.row}>
+                    Quality {Math.round(options.quality * 100)}
+                    <input
+                        type="range"
+                        min={5}
+                        max={100}
+                        value={Math.round(options.quality * 100)}
+                        onChange={(e) => onChange({ ...options, quality: Number(e.target.value) / 100 })}
+                        style={styles.input}
+                    />
+                </label>
+            )}
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    input: {
+      width: '140px',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+};
+
+export default OutputFormatControls;
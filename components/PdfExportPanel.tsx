@@ -0,0 +1,87 @@
+import React from 'react';
+import { PdfExportOptions, PdfPageSize } from '../types';
+import { DEFAULT_PDF_EXPORT_OPTIONS } from '../services/pdfService';
+
+interface PdfExportPanelProps {
+    options: PdfExportOptions;
+    onChange: (options: PdfExportOptions) => void;
+    onExport: () => void;
+    disabled: boolean;
+    ocrCount: number; // Selected files that have OCR text
+}
+
+const PdfExportPanel: React.FC<PdfExportPanelProps> = ({ options, onChange, onExport, disabled, ocrCount }) => {
+    const update = (changes: Partial<PdfExportOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <div style={styles.container}>
+            <label style={styles.row}>
+                File name
+                <input value={options.fileName} onChange={(e) => update({ fileName: e.target.value })} placeholder={DEFAULT_PDF_EXPORT_OPTIONS.fileName} style={styles.input} />
+            </label>
+            <label style={styles.row}>
+                Page size
+                <select value={options.pageSize} onChange={(e) => update({ pageSize: e.target.value as PdfPageSize })} style={styles.input}>
+                    <option value="a4">A4</option>
+                    <option value="letter">US Letter</option>
+                    <option value="image">Fit to image</option>
+                </select>
+            </label>
+            <label style={styles.row}>
+                Margin (mm)
+                <input
+                    type="number"
+                    min={0}
+                    max={50}
+                    value={options.marginMm}
+                    onChange={(e) => update({ marginMm: Math.max(0, Math.min(50, Number(e.target.value) || 0)) })}
+                    style={styles.input}
+                />
+            </label>
+            <label style={styles.checkboxRow} title="Only WinAnsi (Western European) characters can be searched">
+                <input type="checkbox" checked={options.textLayer} onChange={(e) => update({ textLayer: e.target.checked })} />
+                Searchable text layer from OCR ({ocrCount} with OCR)
+            </label>
+            <button style={styles.exportButton} onClick={onExport} disabled={disabled}>Export PDF</button>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+    },
+    checkboxRow: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+    },
+    input: {
+      width: '150px',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    exportButton: {
+      padding: '0.5rem',
+      backgroundColor: '#0d652d',
+      color: 'white',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+};
+
+export default PdfExportPanel;
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { Pipeline, PipelineStep, PipelineStepType, PreprocessMethod, PromptLibrary } from '../types';
+import {
+  PIPELINE_STEP_TYPES,
+  createPipeline,
+  createPipelineStep,
+  describePipelineStep,
+  pipelineUsesAi,
+  validatePipeline,
+} from '../services/pipelineService';
+import ResizeControls from './ResizeControls';
+import OutputFormatControls from './OutputFormatControls';
+
+interface PipelineBuilderProps {
+    pipelines: Pipeline[];
+    library: PromptLibrary; // Values for `{{variables}}` in the steps' prompts
+    onSave: (pipeline: Pipeline) => void;
+    onDelete: (pipelineId: string) => void;
+    onRun: (pipeline: Pipeline) => void;
+    canRun: boolean; // False when nothing is selected or a batch is already running
+}
+
+const PipelineBuilder: React.FC<PipelineBuilderProps> = ({ pipelines, library, onSave, onDelete, onRun, canRun }) => {
+    const [draft, setDraft] = useState<Pipeline | null>(null);
+    const [newStepType, setNewStepType] = useState<PipelineStepType>('resize');
+
+    const problems = draft ? validatePipeline(draft, library) : [];
+
+    const updateStep = (index: number, step: PipelineStep) => {
+        if (!draft) return;
+        setDraft({ ...draft, steps: draft.steps.map((s, i) => (i === index ? step : s)) });
+    };
+
+    const moveStep = (index: number, offset: number) => {
+        if (!draft) return;
+        const target = index + offset;
+        if (target < 0 || target >= draft.steps.length) return;
+        const steps = [...draft.steps];
+        [steps[index], steps[target]] = [steps[target], steps[index]];
+        setDraft({ ...draft, steps });
+    };
+
+    const removeStep = (index: number) => {
+        if (!draft) return;
+        setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) });
+    };
+
+    const editPipeline = (pipeline: Pipeline) => {
+        // Built-ins are edited as a copy so the originals always stay available.
+        setDraft(pipeline.builtIn
+            ? createPipeline(`${pipeline.name} (copy)`, pipeline.steps.map(step => ({ ...step, id: createPipelineStep(step.type).id })))
+            : pipeline);
+    };
+
+    const renderStepParams = (step: PipelineStep, index: number) => {
+        switch (step.type) {
+            case 'preprocess':
+                return (
+                    <label style={styles.inlineLabel}>
+                        Method
+                        <select value={step.method ?? 'ai'} onChange={(e) => updateStep(index, { ...step, method: e.target.value as PreprocessMethod })} style={styles.input}>
+                            <option value="local">Local (geometric, text untouched)</option>
+                            <option value="ai">AI (model redraws the image)</option>
+                        </select>
+                    </label>
+                );
+            case 'edit':
+                return (
+                    <textarea
+                        value={step.prompt}
+                        onChange={(e) => updateStep(index, { ...step, prompt: e.target.value })}
+                        placeholder="Edit prompt, may use {{variables}} from the Prompt Library"
+                        style={styles.textarea}
+                    />
+                );
+            case 'resize':
+                return <ResizeControls options={step.options} onChange={(options) => updateStep(index, { ...step, options })} />;
+            case 'convert':
+                return <OutputFormatControls options={step.format} onChange={(format) => updateStep(index, { ...step, format })} />;
+            case 'saveImage':
+                return (
+                    <label style={styles.inlineLabel}>
+                        File name suffix
+                        <input value={step.suffix} onChange={(e) => updateStep(index, { ...step, suffix: e.target.value })} style={styles.input} />
+                    </label>
+                );
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.list}>
+                <h3>Pipelines</h3>
+                {pipelines.map(pipeline => (
+                    <div key={pipeline.id} style={styles.pipelineRow}>
+                        <div style={styles.pipelineInfo}>
+                            <b>{pipeline.name}</b>
+                            <span style={styles.meta}>
+                                {pipeline.steps.map(describePipelineStep).join(' → ') || 'No steps'}
+                                {!pipelineUsesAi(pipeline) && ' · no AI'}
+                            </span>
+                        </div>
+                        <button style={styles.smallButton} onClick={() => onRun(pipeline)} disabled={!canRun || validatePipeline(pipeline, library).length > 0}>Run</button>
+                        <button style={styles.smallButton} onClick={() => editPipeline(pipeline)}>{pipeline.builtIn ? 'Copy' : 'Edit'}</button>
+                        {!pipeline.builtIn && (
+                            <button style={styles.smallButton} onClick={() => { if (confirm(`Delete pipeline "${pipeline.name}"?`)) onDelete(pipeline.id); }}>Delete</button>
+                        )}
+                    </div>
+                ))}
+                <button style={styles.button} onClick={() => setDraft(createPipeline('New pipeline'))}>New Pipeline</button>
+            </div>
+
+            {draft && (
+                <div style={styles.editor}>
+                    <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} style={styles.nameInput} placeholder="Pipeline name" />
+                    {draft.steps.map((step, index) => (
+                        <div key={step.id} style={styles.step}>
+                            <div style={styles.stepHeader}>
+                                <span>{index + 1}. {describePipelineStep(step)}</span>
+                                <button style={styles.smallButton} onClick={() => moveStep(index, -1)} disabled={index === 0}>↑</button>
+                                <button style={styles.smallButton} onClick={() => moveStep(index, 1)} disabled={index === draft.steps.length - 1}>↓</button>
+                                <button style={styles.smallButton} onClick={() => removeStep(index)}>Remove</button>
+                            </div>
+                            {renderStepParams(step, index)}
+                        </div>
+                    ))}
+                    <div style={styles.addRow}>
+                        <select value={newStepType} onChange={(e) => setNewStepType(e.target.value as PipelineStepType)} style={styles.input}>
+                            {PIPELINE_STEP_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}{t.usesAi ? ' (AI)' : ''}</option>)}
+                        </select>
+                        <button style={styles.smallButton} onClick={() => setDraft({ ...draft, steps: [...draft.steps, createPipelineStep(newStepType)] })}>Add Step</button>
+                    </div>
+                    {problems.length > 0 && (
+                        <ul style={styles.problems}>{problems.map(problem => <li key={problem}>{problem}</li>)}</ul>
+                    )}
+                    <div style={styles.addRow}>
+                        <button style={styles.button} onClick={() => { onSave(draft); setDraft(null); }} disabled={!draft.name.trim()}>Save Pipeline</button>
+                        <button style={{ ...styles.button, backgroundColor: '#4a4a4a' }} onClick={() => setDraft(null)}>Discard</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      gap: '2rem',
+      width: '100%',
+    },
+    list: {
+      flex: 1,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+    },
+    pipelineRow: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      padding: '0.75rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    pipelineInfo: {
+      flex: 1,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.25rem',
+      minWidth: 0,
+    },
+    meta: {
+      fontSize: '12px',
+      color: '#aaa',
+    },
+    editor: {
+      flex: 1,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+    },
+    nameInput: {
+      padding: '0.5rem',
+      backgroundColor: '#2a2d2e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      fontSize: '16px',
+    },
+    step: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      padding: '0.75rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    stepHeader: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      justifyContent: 'flex-end',
+    },
+    addRow: {
+      display: 'flex',
+      gap: '0.5rem',
+      alignItems: 'center',
+    },
+    inlineLabel: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      fontSize: '13px',
+    },
+    input: {
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    textarea: {
+      minHeight: '60px',
+      padding: '0.5rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      resize: 'vertical',
+    },
+    problems: {
+      margin: 0,
+      color: '#f28b82',
+      fontSize: '13px',
+    },
+    button: {
+      padding: '0.75rem',
+      backgroundColor: '#0e639c',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+      fontWeight: 'bold',
+    },
+    smallButton: {
+      padding: '0.25rem 0.5rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: '1px solid #555',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '12px',
+      flexShrink: 0,
+    },
+};
+
+export default PipelineBuilder;
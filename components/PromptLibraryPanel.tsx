@@ -0,0 +1,184 @@
+import React, { useRef } from 'react';
+import { BuiltInPromptId, PromptLibrary } from '../types';
+import { BUILT_IN_PROMPTS, getOverrideVariables } from '../services/promptLibrary';
+
+interface PromptLibraryPanelProps {
+    library: PromptLibrary;
+    error: string | null; // Why the library could not be saved
+    onChange: (library: PromptLibrary) => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+}
+
+const PromptLibraryPanel: React.FC<PromptLibraryPanelProps> = ({ library, error, onChange, onImport, onExport }) => {
+    const importInputRef = useRef<HTMLInputElement | null>(null);
+    // Placeholders in changed built-in prompts are listed even before they have a value.
+    const variableNames = [...new Set([...Object.keys(library.variables), ...getOverrideVariables(library)])].sort();
+
+    const setOverride = (id: BuiltInPromptId, text: string | null) => {
+        const overrides = { ...library.overrides };
+        if (text === null) delete overrides[id];
+        else overrides[id] = text;
+        onChange({ ...library, overrides });
+    };
+
+    const removeVariable = (name: string) => {
+        const variables = { ...library.variables };
+        delete variables[name];
+        onChange({ ...library, variables });
+    };
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.header}>
+                <h4 style={styles.title}>Prompt Library</h4>
+                <button style={styles.linkButton} onClick={() => importInputRef.current?.click()}>Import</button>
+                <button style={styles.linkButton} onClick={onExport}>Export</button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    style={{ display: 'none' }}
+                    aria-label="Import prompt library"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImport(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            <p style={styles.detail}>{library.prompts.length} saved prompts. Save and load them from each tool's prompt box.</p>
+            {error && <p style={styles.error}>{error}</p>}
+
+            <details>
+                <summary style={styles.summary}>Built-in prompts ({Object.keys(library.overrides).length} changed)</summary>
+                <div style={styles.list}>
+                    {(Object.keys(BUILT_IN_PROMPTS) as BuiltInPromptId[]).map(id => (
+                        <label key={id} style={styles.override}>
+                            <span style={styles.overrideHeader}>
+                                {BUILT_IN_PROMPTS[id].label}
+                                {library.overrides[id] !== undefined && (
+                                    <button style={styles.linkButton} onClick={(e) => { e.preventDefault(); setOverride(id, null); }}>Reset</button>
+                                )}
+                            </span>
+                            <textarea
+                                value={library.overrides[id] ?? BUILT_IN_PROMPTS[id].text}
+                                onChange={(e) => setOverride(id, e.target.value === BUILT_IN_PROMPTS[id].text ? null : e.target.value)}
+                                style={styles.textarea}
+                            />
+                        </label>
+                    ))}
+                    <p style={styles.detail}>{'{{variables}}'} in these are filled from the values below.</p>
+                </div>
+            </details>
+
+            <details>
+                <summary style={styles.summary}>Variables ({variableNames.length})</summary>
+                <div style={styles.list}>
+                    {variableNames.length === 0 && <p style={styles.detail}>Values entered for a prompt's placeholders, such as {'{{currency}}'}, are kept here.</p>}
+                    {variableNames.map(name => (
+                        <label key={name} style={styles.variableRow}>
+                            {name}
+                            <input
+                                type="text"
+                                value={library.variables[name] ?? ''}
+                                onChange={(e) => onChange({ ...library, variables: { ...library.variables, [name]: e.target.value } })}
+                                placeholder="No value yet"
+                                style={styles.input}
+                                aria-label={`Value for ${name}`}
+                            />
+                            {name in library.variables && (
+                                <button style={styles.linkButton} onClick={(e) => { e.preventDefault(); removeVariable(name); }} title={`Remove ${name}`}>✕</button>
+                            )}
+                        </label>
+                    ))}
+                </div>
+            </details>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      padding: '1rem',
+      borderBottom: '1px solid #333',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.75rem',
+    },
+    title: {
+      margin: 0,
+      flex: 1,
+    },
+    detail: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#aaa',
+    },
+    error: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#f28b82',
+    },
+    summary: {
+      fontSize: '12px',
+      cursor: 'pointer',
+    },
+    list: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      marginTop: '0.5rem',
+    },
+    override: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.25rem',
+      fontSize: '12px',
+    },
+    overrideHeader: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    textarea: {
+      minHeight: '70px',
+      padding: '0.4rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      resize: 'vertical',
+      fontSize: '12px',
+    },
+    variableRow: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '12px',
+    },
+    input: {
+      flex: 1,
+      minWidth: 0,
+      padding: '0.15rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    linkButton: {
+      background: 'none',
+      border: 'none',
+      color: '#4fc3f7',
+      cursor: 'pointer',
+      fontSize: '12px',
+      padding: 0,
+    },
+};
+
+export default PromptLibraryPanel;
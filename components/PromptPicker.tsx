@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { ActiveTool, PromptLibrary } from '../types';
+import { createSavedPrompt, getTemplateVariables, parseTags } from '../services/promptLibrary';
+
+interface PromptPickerProps {
+    tool: ActiveTool;
+    library: PromptLibrary;
+    text: string; // The tool's prompt box
+    onTextChange: (text: string) => void;
+    onLibraryChange: (library: PromptLibrary) => void;
+}
+
+// Loads saved prompts for one tool into its prompt box, saves the box under a name, and edits the
+// values of the `{{variables}}` it contains. The placeholders are filled in when the prompt is run.
+const PromptPicker: React.FC<PromptPickerProps> = ({ tool, library, text, onTextChange, onLibraryChange }) => {
+    const [selectedId, setSelectedId] = useState('');
+    const [tagFilter, setTagFilter] = useState('');
+    const [name, setName] = useState('');
+    const [tags, setTags] = useState('');
+
+    const toolPrompts = library.prompts.filter(prompt => prompt.tool === tool);
+    const allTags = [...new Set(toolPrompts.flatMap(prompt => prompt.tags))].sort();
+    const visiblePrompts = tagFilter ? toolPrompts.filter(prompt => prompt.tags.includes(tagFilter)) : toolPrompts;
+    const selected = toolPrompts.find(prompt => prompt.id === selectedId);
+    const variables = getTemplateVariables(text);
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        const prompt = toolPrompts.find(p => p.id === id);
+        if (!prompt) return;
+        onTextChange(prompt.text);
+        setName(prompt.name);
+        setTags(prompt.tags.join(', '));
+    };
+
+    // Saving under an existing name for this tool updates that prompt instead of adding a second one.
+    const handleSave = () => {
+        const trimmedName = name.trim();
+        const existing = toolPrompts.find(prompt => prompt.name === trimmedName);
+        const saved = existing
+            ? { ...existing, text, tags: parseTags(tags) }
+            : createSavedPrompt(tool, trimmedName, text, parseTags(tags));
+        onLibraryChange({
+            ...library,
+            prompts: existing ? library.prompts.map(prompt => (prompt.id === existing.id ? saved : prompt)) : [...library.prompts, saved],
+        });
+        setSelectedId(saved.id);
+    };
+
+    const handleDelete = () => {
+        if (!selected || !window.confirm(`Delete the saved prompt "${selected.name}"?`)) return;
+        onLibraryChange({ ...library, prompts: library.prompts.filter(prompt => prompt.id !== selected.id) });
+        setSelectedId('');
+    };
+
+    return (
+        <details style={styles.container} open={toolPrompts.length > 0 || variables.length > 0}>
+            <summary style={styles.summary}>Saved prompts ({toolPrompts.length})</summary>
+            <div style={styles.body}>
+                {allTags.length > 0 && (
+                    <label style={styles.row}>
+                        Tag
+                        <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} style={styles.input}>
+                            <option value="">All</option>
+                            {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                        </select>
+                    </label>
+                )}
+                <div style={styles.row}>
+                    <select value={selectedId} onChange={(e) => handleSelect(e.target.value)} style={{ ...styles.input, flex: 1 }} aria-label="Saved prompt">
+                        <option value="">{visiblePrompts.length > 0 ? 'Load a saved prompt...' : 'No saved prompts yet'}</option>
+                        {visiblePrompts.map(prompt => (
+                            <option key={prompt.id} value={prompt.id}>{prompt.name}{prompt.tags.length > 0 ? ` [${prompt.tags.join(', ')}]` : ''}</option>
+                        ))}
+                    </select>
+                    <button style={styles.linkButton} onClick={handleDelete} disabled={!selected}>Delete</button>
+                </div>
+
+                {variables.length > 0 && (
+                    <div style={styles.variables}>
+                        {variables.map(variable => (
+                            <label key={variable} style={styles.row}>
+                                {`{{${variable}}}`}
+                                <input
+                                    type="text"
+                                    value={library.variables[variable] ?? ''}
+                                    onChange={(e) => onLibraryChange({ ...library, variables: { ...library.variables, [variable]: e.target.value } })}
+                                    style={styles.input}
+                                    aria-label={`Value for ${variable}`}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                )}
+
+                <div style={styles.row}>
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" style={{ ...styles.input, flex: 1 }} aria-label="Prompt name" />
+                    <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, comma separated" style={{ ...styles.input, flex: 1 }} aria-label="Prompt tags" />
+                </div>
+                <button style={styles.saveButton} onClick={handleSave} disabled={!name.trim() || !text.trim()}>
+                    {toolPrompts.some(prompt => prompt.name === name.trim()) ? 'Update Saved Prompt' : 'Save Prompt'}
+                </button>
+            </div>
+        </details>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      padding: '0.75rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    summary: {
+      fontSize: '13px',
+      cursor: 'pointer',
+    },
+    body: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      marginTop: '0.5rem',
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    variables: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.4rem',
+      padding: '0.5rem',
+      border: '1px dashed #555',
+      borderRadius: '4px',
+    },
+    input: {
+      minWidth: 0,
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    saveButton: {
+      padding: '0.4rem 0.75rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+    },
+    linkButton: {
+      background: 'none',
+      border: 'none',
+      color: '#4fc3f7',
+      cursor: 'pointer',
+      fontSize: '12px',
+      padding: 0,
+    },
+};
+
+export default PromptPicker;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { ReceiptResult } from '../types';
+
+const formatMoney = (value: number | null, currency: string | null) => {
+    if (value === null) return '—';
+    return currency ? `${value.toFixed(2)} ${currency}` : value.toFixed(2);
+};
+
+const ReceiptDataView: React.FC<{ result: ReceiptResult }> = ({ result }) => {
+    const { data, validation } = result;
+
+    return (
+        <div style={styles.container}>
+            <h4 style={styles.heading}>Receipt Data:</h4>
+            {!validation.isConsistent && (
+                <div style={styles.warning}>
+                    <b>Check this receipt:</b>
+                    <ul style={styles.issueList}>
+                        {validation.issues.map(issue => <li key={issue}>{issue}</li>)}
+                    </ul>
+                </div>
+            )}
+            <table style={styles.table}>
+                <tbody>
+                    <tr><th style={styles.th}>Merchant</th><td>{data.merchant ?? '—'}</td></tr>
+                    <tr><th style={styles.th}>Address</th><td>{data.address ?? '—'}</td></tr>
+                    <tr>
+                        <th style={styles.th}>Date</th>
+                        <td>
+                            {data.date ?? '—'}
+                            {result.dateFromCapture && <span style={styles.note}> (from photo capture date)</span>}
+                        </td>
+                    </tr>
+                    <tr><th style={styles.th}>Currency</th><td>{data.currency ?? '—'}</td></tr>
+                </tbody>
+            </table>
+            {data.lineItems.length > 0 && (
+                <table style={styles.table}>
+                    <thead>
+                        <tr>
+                            <th style={styles.th}>Item</th>
+                            <th style={styles.thNumber}>Qty</th>
+                            <th style={styles.thNumber}>Unit</th>
+                            <th style={styles.thNumber}>Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {data.lineItems.map((item, index) => (
+                            <tr key={index}>
+                                <td>{item.description}</td>
+                                <td style={styles.number}>{item.quantity ?? ''}</td>
+                                <td style={styles.number}>{item.unitPrice !== null ? item.unitPrice.toFixed(2) : ''}</td>
+                                <td style={styles.number}>{item.amount.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <table style={styles.table}>
+                <tbody>
+                    <tr><th style={styles.th}>Subtotal</th><td style={styles.number}>{formatMoney(data.subtotal, data.currency)}</td></tr>
+                    {data.taxes.map((tax, index) => (
+                        <tr key={index}>
+                            <th style={styles.th}>{tax.label}{tax.rate !== null ? ` (${tax.rate}%)` : ''}</th>
+                            <td style={styles.number}>{formatMoney(tax.amount, data.currency)}</td>
+                        </tr>
+                    ))}
+                    <tr><th style={styles.th}>Tip</th><td style={styles.number}>{formatMoney(data.tip, data.currency)}</td></tr>
+                    <tr><th style={styles.th}>Total</th><td style={styles.number}><b>{formatMoney(data.total, data.currency)}</b></td></tr>
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      marginTop: '1rem',
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+      maxHeight: '400px',
+      overflowY: 'auto',
+      fontSize: '13px',
+    },
+    heading: {
+      marginTop: 0,
+    },
+    warning: {
+      padding: '0.5rem 0.75rem',
+      marginBottom: '0.75rem',
+      backgroundColor: '#5a4a1a',
+      border: '1px solid #a08020',
+      borderRadius: '4px',
+    },
+    issueList: {
+      margin: '0.25rem 0 0',
+      paddingLeft: '1.25rem',
+    },
+    table: {
+      width: '100%',
+      borderCollapse: 'collapse',
+      marginBottom: '0.75rem',
+    },
+    th: {
+      textAlign: 'left',
+      color: '#aaa',
+      fontWeight: 'normal',
+      paddingRight: '1rem',
+    },
+    thNumber: {
+      textAlign: 'right',
+      color: '#aaa',
+      fontWeight: 'normal',
+    },
+    number: {
+      textAlign: 'right',
+      fontFamily: 'monospace',
+    },
+    note: {
+      color: '#d7ba7d',
+      fontSize: '12px',
+    },
+};
+
+export default ReceiptDataView;
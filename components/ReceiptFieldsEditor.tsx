@@ -0,0 +1,139 @@
+import React from 'react';
+import { ReceiptData, ReceiptLineItem } from '../types';
+
+interface ReceiptFieldsEditorProps {
+    data: ReceiptData;
+    original: ReceiptData; // Model output, used to mark corrected fields
+    onChange: (data: ReceiptData) => void;
+}
+
+type TextField = 'merchant' | 'address' | 'date' | 'currency';
+type MoneyField = 'subtotal' | 'tip' | 'total';
+
+const TEXT_FIELDS: Array<[TextField, string]> = [['merchant', 'Merchant'], ['address', 'Address'], ['date', 'Date'], ['currency', 'Currency']];
+const MONEY_FIELDS: Array<[MoneyField, string]> = [['subtotal', 'Subtotal'], ['tip', 'Tip'], ['total', 'Total']];
+
+const parseOptionalNumber = (value: string): number | null => {
+    if (value.trim() === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+const ReceiptFieldsEditor: React.FC<ReceiptFieldsEditorProps> = ({ data, original, onChange }) => {
+    const update = (changes: Partial<ReceiptData>) => onChange({ ...data, ...changes });
+    const updateLineItem = (index: number, changes: Partial<ReceiptLineItem>) =>
+        update({ lineItems: data.lineItems.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+    const inputStyle = (changed: boolean) => (changed ? { ...styles.input, ...styles.corrected } : styles.input);
+
+    return (
+        <div style={styles.container}>
+            {TEXT_FIELDS.map(([field, label]) => (
+                <label key={field} style={styles.row}>
+                    {label}
+                    <input
+                        value={data[field] ?? ''}
+                        onChange={(e) => update({ [field]: e.target.value.trim() ? e.target.value : null })}
+                        placeholder={field === 'date' ? 'YYYY-MM-DD' : undefined}
+                        style={inputStyle(data[field] !== original[field])}
+                    />
+                </label>
+            ))}
+            {data.lineItems.length > 0 && (
+                <table style={styles.table}>
+                    <thead>
+                        <tr>
+                            <th style={styles.th}>Item</th>
+                            <th style={styles.th}>Qty</th>
+                            <th style={styles.th}>Unit</th>
+                            <th style={styles.th}>Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {data.lineItems.map((item, index) => {
+                            const before = original.lineItems[index];
+                            return (
+                                <tr key={index}>
+                                    <td>
+                                        <input value={item.description} onChange={(e) => updateLineItem(index, { description: e.target.value })} style={inputStyle(item.description !== before?.description)} />
+                                    </td>
+                                    <td>
+                                        <input type="number" value={item.quantity ?? ''} onChange={(e) => updateLineItem(index, { quantity: parseOptionalNumber(e.target.value) })} style={inputStyle(item.quantity !== before?.quantity)} />
+                                    </td>
+                                    <td>
+                                        <input type="number" step="0.01" value={item.unitPrice ?? ''} onChange={(e) => updateLineItem(index, { unitPrice: parseOptionalNumber(e.target.value) })} style={inputStyle(item.unitPrice !== before?.unitPrice)} />
+                                    </td>
+                                    <td>
+                                        <input type="number" step="0.01" value={item.amount} onChange={(e) => updateLineItem(index, { amount: parseOptionalNumber(e.target.value) ?? 0 })} style={inputStyle(item.amount !== before?.amount)} />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+            {data.taxes.map((tax, index) => (
+                <label key={index} style={styles.row}>
+                    {tax.label}
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={tax.amount}
+                        onChange={(e) => update({ taxes: data.taxes.map((t, i) => (i === index ? { ...t, amount: parseOptionalNumber(e.target.value) ?? 0 } : t)) })}
+                        style={inputStyle(tax.amount !== original.taxes[index]?.amount)}
+                    />
+                </label>
+            ))}
+            {MONEY_FIELDS.map(([field, label]) => (
+                <label key={field} style={styles.row}>
+                    {label}
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={data[field] ?? ''}
+                        onChange={(e) => update({ [field]: parseOptionalNumber(e.target.value) })}
+                        style={inputStyle(data[field] !== original[field])}
+                    />
+                </label>
+            ))}
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.4rem',
+      fontSize: '13px',
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+    },
+    input: {
+      width: '100%',
+      maxWidth: '220px',
+      boxSizing: 'border-box',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    corrected: {
+      borderColor: '#e8a33d',
+    },
+    table: {
+      width: '100%',
+      borderCollapse: 'collapse',
+    },
+    th: {
+      textAlign: 'left',
+      color: '#aaa',
+      fontWeight: 'normal',
+    },
+};
+
+export default ReceiptFieldsEditor;
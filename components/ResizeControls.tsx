@@ -0,0 +1,114 @@
+import React from 'react';
+import { FitMode, ResizeMode, ResizeOptions } from '../types';
+
+interface ResizeControlsProps {
+    options: ResizeOptions;
+    onChange: (options: ResizeOptions) => void;
+}
+
+const toPositiveNumber = (value: string): number => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const ResizeControls: React.FC<ResizeControlsProps> = ({ options, onChange }) => {
+    const update = (changes: Partial<ResizeOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <div style={styles.container}>
+            <h4 style={styles.heading}>Resize (local)</h4>
+            <label style={styles.row}>
+                Mode
+                <select
+                    value={options.mode}
+                    onChange={(e) => update({ mode: e.target.value as ResizeMode })}
+                    style={styles.input}
+                >
+                    <option value="dimensions">Width x Height</option>
+                    <option value="longestEdge">Longest edge</option>
+                    <option value="percentage">Percentage</option>
+                </select>
+            </label>
+
+            {options.mode === 'dimensions' && (
+                <>
+                    <label style={styles.row}>
+                        Width (px)
+                        <input type="number" min={1} value={options.width || ''} onChange={(e) => update({ width: toPositiveNumber(e.target.value) })} style={styles.input} />
+                    </label>
+                    <label style={styles.row}>
+                        Height (px)
+                        <input type="number" min={1} value={options.height || ''} onChange={(e) => update({ height: toPositiveNumber(e.target.value) })} style={styles.input} />
+                    </label>
+                    <label style={styles.row}>
+                        Fit
+                        <select value={options.fit} onChange={(e) => update({ fit: e.target.value as FitMode })} style={styles.input}>
+                            <option value="contain">Contain (letterbox)</option>
+                            <option value="cover">Cover (crop)</option>
+                            <option value="stretch">Stretch</option>
+                        </select>
+                    </label>
+                </>
+            )}
+
+            {options.mode === 'longestEdge' && (
+                <label style={styles.row}>
+                    Longest edge (px)
+                    <input type="number" min={1} value={options.longestEdge || ''} onChange={(e) => update({ longestEdge: toPositiveNumber(e.target.value) })} style={styles.input} />
+                </label>
+            )}
+
+            {options.mode === 'percentage' && (
+                <label style={styles.row}>
+                    Scale (%)
+                    <input type="number" min={1} value={options.percentage || ''} onChange={(e) => update({ percentage: toPositiveNumber(e.target.value) })} style={styles.input} />
+                </label>
+            )}
+
+            <label style={styles.row}>
+                Max size (KB, optional)
+                <input
+                    type="number"
+                    min={1}
+                    value={options.maxBytes ? Math.round(options.maxBytes / 1024) : ''}
+                    onChange={(e) => {
+                        const kb = toPositiveNumber(e.target.value);
+                        update({ maxBytes: kb > 0 ? kb * 1024 : undefined });
+                    }}
+                    style={styles.input}
+                />
+            </label>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+      padding: '1rem',
+      backgroundColor: '#2a2d2e',
+      borderRadius: '4px',
+    },
+    heading: {
+      margin: 0,
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    input: {
+      width: '140px',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+};
+
+export default ResizeControls;
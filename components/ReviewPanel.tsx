@@ -0,0 +1,175 @@
+import React from 'react';
+import { FileReview, OcrResult, ReceiptData, ReceiptResult, ReviewStatus } from '../types';
+import {
+    REVIEW_STATUS_COLORS,
+    REVIEW_STATUS_LABELS,
+    getAttentionReasons,
+    getReviewStatus,
+    getReviewedReceipt,
+} from '../services/reviewService';
+import ReceiptFieldsEditor from './ReceiptFieldsEditor';
+
+interface ReviewPanelProps {
+    ocr: OcrResult | undefined;
+    receipt: ReceiptResult | undefined;
+    review: FileReview | undefined;
+    unreviewedCount: number;
+    disabled: boolean;
+    onStatusChange: (status: ReviewStatus) => void;
+    onCorrectOcr: (text: string | null) => void; // null restores the model output
+    onCorrectReceipt: (data: ReceiptData | null) => void;
+    onNextUnreviewed: () => void;
+}
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({
+    ocr, receipt, review, unreviewedCount, disabled, onStatusChange, onCorrectOcr, onCorrectReceipt, onNextUnreviewed,
+}) => {
+    const status = getReviewStatus(review);
+    const reviewedReceipt = getReviewedReceipt(receipt, review);
+    const reasons = getAttentionReasons(ocr, reviewedReceipt);
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.statusRow}>
+                <span style={{ ...styles.badge, color: REVIEW_STATUS_COLORS[status], borderColor: REVIEW_STATUS_COLORS[status] }}>
+                    {REVIEW_STATUS_LABELS[status]}
+                </span>
+                <span style={styles.hint}>{unreviewedCount} unreviewed</span>
+            </div>
+            <div style={styles.buttonRow}>
+                <button style={{ ...styles.button, backgroundColor: '#2e7d32' }} onClick={() => onStatusChange('approved')} disabled={disabled} title="Shortcut: A">Approve</button>
+                <button style={{ ...styles.button, backgroundColor: '#a15c00' }} onClick={() => onStatusChange('needsAttention')} disabled={disabled} title="Shortcut: F">Needs Attention</button>
+                <button style={styles.button} onClick={onNextUnreviewed} disabled={disabled || unreviewedCount === 0} title="Shortcut: N">Next Unreviewed</button>
+            </div>
+            <p style={styles.hint}>Keys: A approve, F flag for attention, N next unreviewed, U mark unreviewed.</p>
+
+            {reasons.length > 0 && (
+                <div style={styles.warning}>
+                    <b>Check:</b>
+                    <ul style={styles.list}>
+                        {reasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            {!ocr && !receipt && (
+                <p style={styles.hint}>Run OCR or receipt extraction to review text and fields. The image itself can still be approved.</p>
+            )}
+
+            {receipt && reviewedReceipt && (
+                <section>
+                    <div style={styles.sectionHeader}>
+                        <h4 style={styles.heading}>Receipt Fields</h4>
+                        {review?.receipt && (
+                            <button style={styles.linkButton} onClick={() => onCorrectReceipt(null)} disabled={disabled}>Reset to model output</button>
+                        )}
+                    </div>
+                    <ReceiptFieldsEditor data={reviewedReceipt.data} original={receipt.data} onChange={onCorrectReceipt} />
+                </section>
+            )}
+
+            {ocr && (
+                <section>
+                    <div style={styles.sectionHeader}>
+                        <h4 style={styles.heading}>OCR Text</h4>
+                        {review?.ocrText != null && (
+                            <button style={styles.linkButton} onClick={() => onCorrectOcr(null)} disabled={disabled}>Reset to model output</button>
+                        )}
+                    </div>
+                    <textarea
+                        value={review?.ocrText ?? ocr.text}
+                        onChange={(e) => onCorrectOcr(e.target.value === ocr.text ? null : e.target.value)}
+                        style={review?.ocrText != null ? { ...styles.textArea, ...styles.corrected } : styles.textArea}
+                        aria-label="OCR text"
+                    />
+                </section>
+            )}
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+    },
+    statusRow: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    badge: {
+      padding: '0.2rem 0.6rem',
+      border: '1px solid',
+      borderRadius: '12px',
+      fontSize: '13px',
+      fontWeight: 'bold',
+    },
+    buttonRow: {
+      display: 'flex',
+      gap: '0.5rem',
+    },
+    button: {
+      flex: 1,
+      padding: '0.6rem',
+      backgroundColor: '#0e639c',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '13px',
+      fontWeight: 'bold',
+    },
+    hint: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#aaa',
+    },
+    warning: {
+      padding: '0.5rem 0.75rem',
+      backgroundColor: 'rgba(232, 163, 61, 0.15)',
+      border: '1px solid #e8a33d',
+      borderRadius: '4px',
+      fontSize: '13px',
+    },
+    list: {
+      margin: '0.25rem 0 0',
+      paddingLeft: '1.25rem',
+    },
+    sectionHeader: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: '0.5rem',
+    },
+    heading: {
+      margin: 0,
+    },
+    linkButton: {
+      background: 'none',
+      border: 'none',
+      color: '#4fc3f7',
+      cursor: 'pointer',
+      fontSize: '12px',
+      padding: 0,
+    },
+    textArea: {
+      width: '100%',
+      minHeight: '200px',
+      boxSizing: 'border-box',
+      padding: '0.5rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+      fontFamily: 'monospace',
+      fontSize: '13px',
+      resize: 'vertical',
+    },
+    corrected: {
+      borderColor: '#e8a33d',
+    },
+};
+
+export default ReviewPanel;
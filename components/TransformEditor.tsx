@@ -0,0 +1,309 @@
+import React, { useRef, useState } from 'react';
+import {
+  ASPECT_RATIOS,
+  CropRect,
+  clampCropRect,
+  fitCropToAspect,
+  getStraightenScale,
+  roundCropRect,
+} from '../services/transformService';
+
+interface TransformEditorProps {
+    imageUrl: string;
+    disabled: boolean;
+    onCrop: (rect: CropRect) => void;
+    onStraighten: (angleDegrees: number) => void;
+}
+
+type Mode = 'crop' | 'straighten';
+
+type Drag =
+    | { kind: 'move'; startX: number; startY: number; startRect: CropRect }
+    | { kind: 'corner'; fixedX: number; fixedY: number };
+
+const TransformEditor: React.FC<TransformEditorProps> = ({ imageUrl, disabled, onCrop, onStraighten }) => {
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [mode, setMode] = useState<Mode>('crop');
+    const [crop, setCrop] = useState<CropRect | null>(null);
+    const [aspectIndex, setAspectIndex] = useState(0);
+    const [angle, setAngle] = useState(0);
+    const [drag, setDrag] = useState<Drag | null>(null);
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    const aspectValue = ASPECT_RATIOS[aspectIndex].value;
+    const aspect = aspectValue === 'original' && size ? size.width / size.height : (aspectValue as number | null);
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const image = e.currentTarget;
+        const loaded = { width: image.naturalWidth, height: image.naturalHeight };
+        setSize(loaded);
+        setCrop({ x: 0, y: 0, ...loaded });
+    };
+
+    const toImagePoint = (clientX: number, clientY: number) => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            x: Math.min(size!.width, Math.max(0, ((clientX - rect.left) / rect.width) * size!.width)),
+            y: Math.min(size!.height, Math.max(0, ((clientY - rect.top) / rect.height) * size!.height)),
+        };
+    };
+
+    const handleAspectChange = (index: number) => {
+        setAspectIndex(index);
+        const value = ASPECT_RATIOS[index].value;
+        if (!size || !crop || value === null) return;
+        setCrop(fitCropToAspect(crop, value === 'original' ? size.width / size.height : value, size.width, size.height));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!drag || !size) return;
+        const point = toImagePoint(e.clientX, e.clientY);
+        if (drag.kind === 'move') {
+            const { startRect } = drag;
+            setCrop(clampCropRect({ ...startRect, x: startRect.x + point.x - drag.startX, y: startRect.y + point.y - drag.startY }, size.width, size.height));
+            return;
+        }
+        // The opposite corner stays put; with a locked ratio the shorter side wins so the rectangle stays in the image.
+        let width = Math.abs(point.x - drag.fixedX);
+        let height = Math.abs(point.y - drag.fixedY);
+        if (aspect) {
+            if (width / aspect > height) width = height * aspect;
+            else height = width / aspect;
+        }
+        setCrop(clampCropRect({
+            x: point.x < drag.fixedX ? drag.fixedX - width : drag.fixedX,
+            y: point.y < drag.fixedY ? drag.fixedY - height : drag.fixedY,
+            width,
+            height,
+        }, size.width, size.height));
+    };
+
+    const startDrag = (e: React.PointerEvent, next: Drag) => {
+        if (disabled) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setDrag(next);
+    };
+
+    const renderCropOverlay = () => {
+        if (!size || !crop) return null;
+        const handleSize = Math.max(size.width, size.height) / 50;
+        const corners = [
+            { x: crop.x, y: crop.y },
+            { x: crop.x + crop.width, y: crop.y },
+            { x: crop.x + crop.width, y: crop.y + crop.height },
+            { x: crop.x, y: crop.y + crop.height },
+        ];
+        return (
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${size.width} ${size.height}`}
+                preserveAspectRatio="none"
+                style={styles.overlay}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDrag(null)}
+                onPointerLeave={() => setDrag(null)}
+            >
+                <path
+                    d={`M0 0H${size.width}V${size.height}H0Z M${crop.x} ${crop.y}V${crop.y + crop.height}H${crop.x + crop.width}V${crop.y}Z`}
+                    fill="rgba(0, 0, 0, 0.55)"
+                    fillRule="evenodd"
+                />
+                <rect
+                    x={crop.x}
+                    y={crop.y}
+                    width={crop.width}
+                    height={crop.height}
+                    fill="transparent"
+                    stroke="#4fc1ff"
+                    strokeWidth={handleSize / 5}
+                    style={{ cursor: 'move' }}
+                    onPointerDown={(e) => {
+                        const point = toImagePoint(e.clientX, e.clientY);
+                        startDrag(e, { kind: 'move', startX: point.x, startY: point.y, startRect: crop });
+                    }}
+                />
+                {[1, 2].map(i => (
+                    <g key={i} stroke="rgba(255, 255, 255, 0.4)" strokeWidth={handleSize / 10} pointerEvents="none">
+                        <line x1={crop.x + (crop.width * i) / 3} y1={crop.y} x2={crop.x + (crop.width * i) / 3} y2={crop.y + crop.height} />
+                        <line x1={crop.x} y1={crop.y + (crop.height * i) / 3} x2={crop.x + crop.width} y2={crop.y + (crop.height * i) / 3} />
+                    </g>
+                ))}
+                {corners.map((corner, index) => {
+                    const opposite = corners[(index + 2) % 4];
+                    return (
+                        <rect
+                            key={index}
+                            x={corner.x - handleSize / 2}
+                            y={corner.y - handleSize / 2}
+                            width={handleSize}
+                            height={handleSize}
+                            fill="white"
+                            stroke="#0e639c"
+                            strokeWidth={handleSize / 6}
+                            style={{ cursor: index % 2 === 0 ? 'nwse-resize' : 'nesw-resize' }}
+                            onPointerDown={(e) => startDrag(e, { kind: 'corner', fixedX: opposite.x, fixedY: opposite.y })}
+                        />
+                    );
+                })}
+            </svg>
+        );
+    };
+
+    const straightenScale = size ? getStraightenScale(size.width, size.height, angle) : 1;
+    const roundedCrop = crop ? roundCropRect(crop) : null;
+    const isFullFrame = !!size && !!roundedCrop && roundedCrop.width === size.width && roundedCrop.height === size.height;
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.tabs}>
+                <button style={mode === 'crop' ? { ...styles.tab, ...styles.tabActive } : styles.tab} onClick={() => setMode('crop')}>Crop</button>
+                <button style={mode === 'straighten' ? { ...styles.tab, ...styles.tabActive } : styles.tab} onClick={() => setMode('straighten')}>Straighten</button>
+            </div>
+            <div style={styles.stage}>
+                <img
+                    src={imageUrl}
+                    alt="Transform"
+                    draggable={false}
+                    onLoad={handleImageLoad}
+                    style={{
+                        ...styles.image,
+                        transform: mode === 'straighten' ? `rotate(${angle}deg) scale(${1 / straightenScale})` : undefined,
+                    }}
+                />
+                {mode === 'crop' && renderCropOverlay()}
+                {mode === 'straighten' && <div style={styles.grid} />}
+            </div>
+            {mode === 'crop' ? (
+                <div style={styles.controls}>
+                    <label style={styles.row}>
+                        Aspect ratio
+                        <select value={aspectIndex} onChange={(e) => handleAspectChange(Number(e.target.value))} style={styles.input}>
+                            {ASPECT_RATIOS.map((ratio, index) => <option key={ratio.label} value={index}>{ratio.label}</option>)}
+                        </select>
+                    </label>
+                    {roundedCrop && <span style={styles.meta}>{roundedCrop.width} × {roundedCrop.height} px</span>}
+                    <button style={styles.button} onClick={() => roundedCrop && onCrop(roundedCrop)} disabled={disabled || !roundedCrop || isFullFrame}>Apply Crop</button>
+                    <button style={styles.secondaryButton} onClick={() => size && setCrop({ x: 0, y: 0, ...size })} disabled={disabled}>Reset</button>
+                </div>
+            ) : (
+                <div style={styles.controls}>
+                    <label style={styles.row}>
+                        Angle
+                        <input type="range" min={-45} max={45} step={0.1} value={angle} onChange={(e) => setAngle(Number(e.target.value))} style={styles.slider} />
+                        <input type="number" min={-45} max={45} step={0.1} value={angle} onChange={(e) => setAngle(Math.max(-45, Math.min(45, Number(e.target.value) || 0)))} style={styles.angleInput} />°
+                    </label>
+                    <button style={styles.button} onClick={() => onStraighten(angle)} disabled={disabled || angle === 0}>Apply Straighten</button>
+                    <button style={styles.secondaryButton} onClick={() => setAngle(0)} disabled={disabled}>Reset</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      flex: 2,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.75rem',
+      minWidth: 0,
+    },
+    tabs: {
+      display: 'flex',
+      gap: '0.25rem',
+    },
+    tab: {
+      padding: '0.4rem 1rem',
+      backgroundColor: '#2a2d2e',
+      color: '#ccc',
+      border: '1px solid #444',
+      borderRadius: '4px',
+      cursor: 'pointer',
+    },
+    tabActive: {
+      backgroundColor: '#0e639c',
+      color: 'white',
+    },
+    stage: {
+      position: 'relative',
+      alignSelf: 'flex-start',
+      maxWidth: '100%',
+      overflow: 'hidden',
+      touchAction: 'none',
+      userSelect: 'none',
+      borderRadius: '4px',
+    },
+    image: {
+      display: 'block',
+      maxWidth: '100%',
+      maxHeight: '70vh',
+    },
+    overlay: {
+      position: 'absolute',
+      inset: 0,
+      width: '100%',
+      height: '100%',
+    },
+    grid: {
+      position: 'absolute',
+      inset: 0,
+      pointerEvents: 'none',
+      backgroundImage: 'linear-gradient(rgba(255, 255, 255, 0.35) 1px, transparent 1px), linear-gradient(90deg, rgba(255, 255, 255, 0.35) 1px, transparent 1px)',
+      backgroundSize: '40px 40px',
+    },
+    controls: {
+      display: 'flex',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: '0.75rem',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    meta: {
+      fontSize: '13px',
+      color: '#aaa',
+    },
+    input: {
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    slider: {
+      width: '200px',
+    },
+    angleInput: {
+      width: '60px',
+      padding: '0.25rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    button: {
+      padding: '0.6rem 1rem',
+      backgroundColor: '#0e639c',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+    },
+    secondaryButton: {
+      padding: '0.6rem 1rem',
+      backgroundColor: '#4a4a4a',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '14px',
+    },
+};
+
+export default TransformEditor;
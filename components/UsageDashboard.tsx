@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import { SpendingLimits, UploadedFile, UsageRecord } from '../types';
+import { UsageSummary, UsageTotals, formatCost, summarizeUsage } from '../services/usageService';
+
+interface UsageDashboardProps {
+    records: UsageRecord[];
+    files: UploadedFile[];
+    batch: { id: string; title: string } | null; // The running or last batch job
+    limits: SpendingLimits;
+    onLimitsChange: (limits: SpendingLimits) => void;
+    onReset: () => void;
+}
+
+const formatTokens = (tokens: number) => (tokens >= 10_000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+
+const TotalsLine: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+    <span>
+        {totals.calls} calls{totals.failed > 0 && ` (${totals.failed} failed)`}{totals.incomplete > 0 && ` (${totals.incomplete} stopped, undercounted)`} · {formatTokens(totals.inputTokens)} in / {formatTokens(totals.outputTokens)} out
+        {totals.images > 0 && ` · ${totals.images} images`} · avg {Math.round(totals.latencyMs / Math.max(1, totals.calls))} ms
+    </span>
+);
+
+const LimitInput: React.FC<{ label: string; value: number | null; onChange: (value: number | null) => void }> = ({ label, value, onChange }) => (
+    <label style={styles.limitRow}>
+        {label}
+        <input
+            type="number" min={0} step={0.01}
+            value={value ?? ''}
+            placeholder="No limit"
+            onChange={(e) => onChange(e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0))}
+            style={styles.limitInput}
+            aria-label={`${label} (USD)`}
+        />
+    </label>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, files, batch, limits, onLimitsChange, onReset }) => {
+    const session: UsageSummary = useMemo(() => summarizeUsage(records), [records]);
+    const batchSummary: UsageSummary | null = useMemo(
+        () => (batch ? summarizeUsage(records.filter(record => record.batchId === batch.id)) : null),
+        [records, batch]
+    );
+    const nameOf = (id: string) => files.find(f => f.id === id)?.file.name ?? 'Removed file';
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.header}>
+                <h4 style={styles.title}>Usage</h4>
+                <button style={styles.linkButton} onClick={onReset} disabled={records.length === 0}>Reset</button>
+            </div>
+            <p style={styles.total}>Session: <b>{formatCost(session.total.cost)}</b></p>
+            <p style={styles.detail}><TotalsLine totals={session.total} /></p>
+            {batch && batchSummary && (
+                <>
+                    <p style={styles.total}>{batch.title}: <b>{formatCost(batchSummary.total.cost)}</b></p>
+                    <p style={styles.detail}><TotalsLine totals={batchSummary.total} /></p>
+                </>
+            )}
+            {records.length > 0 && (
+                <>
+                    <details>
+                        <summary style={styles.summary}>By model</summary>
+                        <ul style={styles.list}>
+                            {Object.entries(session.byModel).map(([model, totals]) => (
+                                <li key={model}>{model}: {formatCost(totals.cost)} · <TotalsLine totals={totals} /></li>
+                            ))}
+                        </ul>
+                    </details>
+                    <details>
+                        <summary style={styles.summary}>By file</summary>
+                        <ul style={styles.list}>
+                            {Object.entries(session.byFile)
+                                .sort(([, a], [, b]) => b.cost - a.cost)
+                                .map(([fileId, totals]) => (
+                                    <li key={fileId}>{nameOf(fileId)}: {formatCost(totals.cost)} ({totals.calls} calls)</li>
+                                ))}
+                        </ul>
+                    </details>
+                </>
+            )}
+            <LimitInput label="Batch limit $" value={limits.perBatch} onChange={(perBatch) => onLimitsChange({ ...limits, perBatch })} />
+            <LimitInput label="Session limit $" value={limits.perSession} onChange={(perSession) => onLimitsChange({ ...limits, perSession })} />
+            <p style={styles.detail}>Costs are estimates from list prices. Batches stop before an item would pass a limit.</p>
+        </div>
+    );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+      padding: '1rem',
+      borderBottom: '1px solid #333',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+    },
+    header: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    title: {
+      margin: 0,
+    },
+    total: {
+      margin: 0,
+      fontSize: '13px',
+    },
+    detail: {
+      margin: 0,
+      fontSize: '12px',
+      color: '#aaa',
+    },
+    summary: {
+      fontSize: '12px',
+      cursor: 'pointer',
+    },
+    list: {
+      margin: '0.25rem 0 0',
+      paddingLeft: '1.25rem',
+      fontSize: '12px',
+      color: '#ccc',
+    },
+    limitRow: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '0.5rem',
+      fontSize: '13px',
+    },
+    limitInput: {
+      width: '80px',
+      padding: '0.15rem',
+      backgroundColor: '#1e1e1e',
+      border: '1px solid #555',
+      color: '#e0e0e0',
+      borderRadius: '4px',
+    },
+    linkButton: {
+      background: 'none',
+      border: 'none',
+      color: '#4fc3f7',
+      cursor: 'pointer',
+      fontSize: '12px',
+      padding: 0,
+    },
+};
+
+export default UsageDashboard;
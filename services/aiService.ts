@@ -0,0 +1,69 @@
+import { GenerationOptions, OcrLayout, ReceiptData } from '../types';
+import type { ImageGenerationSupport } from './generationService';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+export type AiProviderId = 'gemini' | 'mock';
+
+// Streaming calls report the whole text received so far after every chunk. Aborting `signal`
+// stops the request, and the call then resolves with the partial text rather than failing.
+export interface TextStreamOptions {
+  signal: AbortSignal;
+  onText: (text: string) => void;
+}
+
+// A conversation turn as sent to the model. Images are data URLs and go before the text.
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  images: string[];
+}
+
+// Everything the app needs from an AI backend. Image results are data URLs.
+export interface ImageAIProvider {
+  id: AiProviderId;
+  label: string;
+  preprocessImage: (imageDataUrl: string) => Promise<string>;
+  enhanceForOcr: (imageDataUrl: string) => Promise<string>;
+  performOcr: (imageDataUrl: string) => Promise<string>;
+  performOcrStream: (imageDataUrl: string, options: TextStreamOptions) => Promise<string>;
+  performOcrWithLayout: (imageDataUrl: string) => Promise<OcrLayout>; // Words with boxes and confidence
+  extractReceipt: (imageDataUrl: string) => Promise<ReceiptData>;
+  chat: (turns: ChatTurn[], options: TextStreamOptions) => Promise<string>; // Streams the reply to the last turn
+  // With a mask (white = may change, black = keep), the edit should stay inside the white area.
+  editImage: (imageDataUrl: string, prompt: string, maskDataUrl?: string) => Promise<string>;
+  imageGeneration: ImageGenerationSupport;
+  // One data URL per image the model returned; safety filters can leave fewer than requested.
+  generateImages: (prompt: string, options: GenerationOptions) => Promise<string[]>;
+  isRetryableError: (error: unknown) => boolean;
+}
+
+export const AI_PROVIDERS: Record<AiProviderId, ImageAIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const getInitialProviderId = (): AiProviderId => {
+  const configured = import.meta.env.VITE_AI_PROVIDER;
+  return configured === 'mock' ? 'mock' : 'gemini';
+};
+
+let activeProvider: ImageAIProvider = AI_PROVIDERS[getInitialProviderId()];
+
+export const getAiProvider = (): ImageAIProvider => activeProvider;
+
+export const setAiProvider = (id: AiProviderId) => {
+  activeProvider = AI_PROVIDERS[id];
+};
+
+// Call sites use these instead of a provider directly, so switching providers takes effect immediately.
+export const preprocessImage = (imageDataUrl: string) => activeProvider.preprocessImage(imageDataUrl);
+export const enhanceForOcr = (imageDataUrl: string) => activeProvider.enhanceForOcr(imageDataUrl);
+export const performOcr = (imageDataUrl: string) => activeProvider.performOcr(imageDataUrl);
+export const performOcrStream = (imageDataUrl: string, options: TextStreamOptions) => activeProvider.performOcrStream(imageDataUrl, options);
+export const performOcrWithLayout = (imageDataUrl: string) => activeProvider.performOcrWithLayout(imageDataUrl);
+export const extractReceipt = (imageDataUrl: string) => activeProvider.extractReceipt(imageDataUrl);
+export const chat = (turns: ChatTurn[], options: TextStreamOptions) => activeProvider.chat(turns, options);
+export const editImage = (imageDataUrl: string, prompt: string, maskDataUrl?: string) => activeProvider.editImage(imageDataUrl, prompt, maskDataUrl);
+export const generateImages = (prompt: string, options: GenerationOptions) => activeProvider.generateImages(prompt, options);
+export const isRetryableAiError = (error: unknown) => activeProvider.isRetryableError(error);
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { buildChatTurns, chatToMarkdown, getAttachedFileIds } from './chatService';
+
+const message = (role: ChatMessage['role'], text: string, changes: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: `${role}-${text}`,
+  role,
+  text,
+  attachedFileIds: [],
+  timestamp: Date.UTC(2024, 4, 1, 12, 0),
+  ...changes,
+});
+
+const conversation: ChatMessage[] = [
+  message('user', 'What is the total?'),
+  message('model', 'It is 12.50.'),
+  message('user', 'Is this the same shop?', { attachedFileIds: ['other', 'removed'] }),
+  message('model', '', { partial: true }),
+  message('user', 'Which items were taxed?'),
+];
+
+describe('buildChatTurns', () => {
+  it('sends the image with the first question and attachments with their message', () => {
+    const turns = buildChatTurns(conversation.slice(0, 3), 'data:main', { other: 'data:other' });
+    expect(turns).toEqual([
+      { role: 'user', text: 'What is the total?', images: ['data:main'] },
+      { role: 'model', text: 'It is 12.50.', images: [] },
+      { role: 'user', text: 'Is this the same shop?', images: ['data:other'] },
+    ]);
+  });
+
+  it('joins the questions around a stopped empty reply into one turn', () => {
+    const turns = buildChatTurns(conversation, 'data:main', { other: 'data:other' });
+    expect(turns.map(turn => turn.role)).toEqual(['user', 'model', 'user']);
+    expect(turns[2]).toEqual({ role: 'user', text: 'Is this the same shop?\n\nWhich items were taxed?', images: ['data:other'] });
+  });
+
+  it('lists each attached file once', () => {
+    expect(getAttachedFileIds([...conversation, message('user', 'again', { attachedFileIds: ['other'] })])).toEqual(['other', 'removed']);
+  });
+});
+
+describe('chatToMarkdown', () => {
+  it('writes the transcript with attachments and stopped replies', () => {
+    const markdown = chatToMarkdown('receipt.png', conversation.slice(0, 4), id => (id === 'other' ? 'other.png' : 'Removed file'));
+    expect(markdown).toContain('# Analyzer chat: receipt.png');
+    expect(markdown).toContain('**You** (2024-05-01T12:00:00.000Z)\n\nWhat is the total?');
+    expect(markdown).toContain('_Attached: other.png, Removed file_');
+    expect(markdown).toContain('_(no reply)_\n\n_(stopped before the reply was complete)_');
+  });
+});
@@ -0,0 +1,57 @@
+import { ChatMessage } from '../types';
+import type { ChatTurn } from './aiService';
+
+// Per-image Analyzer conversations. The model keeps no state between requests, so every message
+// resends the whole conversation with its images.
+
+export const CHAT_ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  model: 'Model',
+};
+
+let nextMessageId = 0;
+
+export const createChatMessage = (role: ChatMessage['role'], text: string, attachedFileIds: string[] = []): ChatMessage => ({
+  id: `msg-${Date.now()}-${++nextMessageId}`,
+  role,
+  text,
+  attachedFileIds,
+  timestamp: Date.now(),
+});
+
+// Every other workspace image the conversation refers to, in the order they were first attached.
+export const getAttachedFileIds = (messages: ChatMessage[]): string[] =>
+  [...new Set(messages.flatMap(message => message.attachedFileIds))];
+
+// The conversation's own image goes with the first question, attached images with the message
+// they were sent with. Attachments whose file was removed are left out, and so are empty replies
+// from requests stopped before any text arrived. The questions on either side of such a reply are
+// sent as one turn, since the model expects user and model turns to alternate.
+export const buildChatTurns = (messages: ChatMessage[], mainImage: string, attachedImages: Record<string, string>): ChatTurn[] => {
+  const turns: ChatTurn[] = [];
+  for (const message of messages) {
+    if (!message.text.trim()) continue;
+    const images = message.attachedFileIds.flatMap(id => (attachedImages[id] ? [attachedImages[id]] : []));
+    if (message.role === 'user' && !turns.some(turn => turn.role === 'user')) images.unshift(mainImage);
+    const previous = turns[turns.length - 1];
+    if (previous?.role === message.role) {
+      turns[turns.length - 1] = { ...previous, text: `${previous.text}\n\n${message.text}`, images: [...previous.images, ...images] };
+    } else {
+      turns.push({ role: message.role, text: message.text, images });
+    }
+  }
+  return turns;
+};
+
+export const chatToMarkdown = (fileName: string, messages: ChatMessage[], nameOf: (fileId: string) => string): string => {
+  const lines = [`# Analyzer chat: ${fileName}`, ''];
+  for (const message of messages) {
+    lines.push(`**${CHAT_ROLE_LABELS[message.role]}** (${new Date(message.timestamp).toISOString()})`, '');
+    if (message.attachedFileIds.length > 0) {
+      lines.push(`_Attached: ${message.attachedFileIds.map(nameOf).join(', ')}_`, '');
+    }
+    lines.push(message.text || '_(no reply)_', '');
+    if (message.partial) lines.push('_(stopped before the reply was complete)_', '');
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Quad,
+  applyHomography,
+  computeHomography,
+  findQuadInMask,
+  getImageBoundsQuad,
+  getOtsuThreshold,
+  getWarpSize,
+} from './deskewService';
+
+const skewed: Quad = [
+  { x: 12, y: 20 },
+  { x: 210, y: 8 },
+  { x: 230, y: 300 },
+  { x: 5, y: 280 },
+];
+
+describe('computeHomography', () => {
+  it('maps every source corner onto its target corner', () => {
+    const rect = getImageBoundsQuad(200, 300);
+    const h = computeHomography(rect, skewed);
+    rect.forEach((corner, i) => {
+      const mapped = applyHomography(h, corner);
+      expect(mapped.x).toBeCloseTo(skewed[i].x, 6);
+      expect(mapped.y).toBeCloseTo(skewed[i].y, 6);
+    });
+  });
+
+  it('is the identity for identical quads', () => {
+    const rect = getImageBoundsQuad(100, 50);
+    const point = applyHomography(computeHomography(rect, rect), { x: 37, y: 12 });
+    expect(point.x).toBeCloseTo(37, 6);
+    expect(point.y).toBeCloseTo(12, 6);
+  });
+
+  it('rejects degenerate corners', () => {
+    const line: Quad = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }];
+    expect(() => computeHomography(getImageBoundsQuad(10, 10), line)).toThrow('valid quadrilateral');
+  });
+});
+
+describe('getWarpSize', () => {
+  it('keeps the longer of each pair of opposite edges', () => {
+    const size = getWarpSize([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 90, y: 200 }, { x: 10, y: 180 }]);
+    expect(size.width).toBe(100);
+    expect(size.height).toBeCloseTo(200, -1);
+  });
+});
+
+describe('getOtsuThreshold', () => {
+  it('separates a bimodal histogram', () => {
+    const gray = [...new Array(100).fill(30), ...new Array(100).fill(220)];
+    const threshold = getOtsuThreshold(gray);
+    expect(threshold).toBeGreaterThanOrEqual(30);
+    expect(threshold).toBeLessThan(220);
+  });
+});
+
+describe('findQuadInMask', () => {
+  const width = 100;
+  const height = 100;
+
+  // Fills a rotated square, plus a speck of noise that must be ignored.
+  const makeMask = (angle: number) => {
+    const mask = new Uint8Array(width * height);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const dx = x + 0.5 - 50;
+        const dy = y + 0.5 - 50;
+        const u = dx * cos + dy * sin;
+        const v = -dx * sin + dy * cos;
+        if (Math.abs(u) <= 30 && Math.abs(v) <= 30) mask[y * width + x] = 1;
+      }
+    }
+    mask[2 * width + 2] = 1;
+    return mask;
+  };
+
+  it('finds the corners of a tilted document', () => {
+    const angle = (10 * Math.PI) / 180;
+    const quad = findQuadInMask(makeMask(angle), width, height)!;
+    const expected = [[-30, -30], [30, -30], [30, 30], [-30, 30]].map(([u, v]) => ({
+      x: 50 + u * Math.cos(angle) - v * Math.sin(angle),
+      y: 50 + u * Math.sin(angle) + v * Math.cos(angle),
+    }));
+    quad.forEach((corner, i) => {
+      expect(Math.abs(corner.x - expected[i].x)).toBeLessThan(2);
+      expect(Math.abs(corner.y - expected[i].y)).toBeLessThan(2);
+    });
+  });
+
+  it('returns null when nothing large enough is found', () => {
+    const mask = new Uint8Array(width * height);
+    mask[0] = mask[1] = 1;
+    expect(findQuadInMask(mask, width, height)).toBeNull();
+  });
+
+  it('covers the whole frame for a full mask', () => {
+    expect(findQuadInMask(new Uint8Array(width * height).fill(1), width, height)).toEqual(getImageBoundsQuad(width, height));
+  });
+});
@@ -0,0 +1,272 @@
+import { createCanvas, encodeCanvasLike, getDataUrlMimeType, loadImage } from './imageUtils';
+
+// Local, deterministic alternative to the AI preprocess step: find the document outline,
+// then map it onto a flat rectangle with a perspective transform. Pixels are only resampled,
+// never redrawn, so the text on the receipt cannot change.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in clockwise order: top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+export interface DocumentDetection {
+  corners: Quad;
+  width: number; // Size of the source image the corners refer to
+  height: number;
+  detected: boolean; // False when no outline was found and the corners are just the image bounds
+}
+
+const DETECTION_MAX_EDGE = 512;
+const MIN_DOCUMENT_AREA = 0.05; // Share of the frame a region must cover to count as the document
+
+export const getImageBoundsQuad = (width: number, height: number): Quad => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const getQuadArea = (quad: Quad): number => {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+// Otsu's method: the gray level that best splits the histogram into paper and background.
+export const getOtsuThreshold = (gray: ArrayLike<number>): number => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) sumAll += level * histogram[level];
+
+  let sumBelow = 0;
+  let weightBelow = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    weightBelow += histogram[level];
+    if (weightBelow === 0) continue;
+    const weightAbove = gray.length - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+// Returns the pixel indices of the largest 4-connected region of non-zero mask pixels.
+const findLargestRegion = (mask: Uint8Array, width: number, height: number): number[] => {
+  const visited = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  let largest: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    const region: number[] = [];
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < width * (height - 1) ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+// Picks the corners of the largest region as the extremes along both diagonals.
+// This holds for documents rotated by less than 45 degrees, which covers hand-held photos.
+export const findQuadInMask = (mask: Uint8Array, width: number, height: number): Quad | null => {
+  const region = findLargestRegion(mask, width, height);
+  if (region.length < mask.length * MIN_DOCUMENT_AREA) return null;
+
+  let topLeft = region[0], topRight = region[0], bottomRight = region[0], bottomLeft = region[0];
+  const sum = (index: number) => (index % width) + Math.floor(index / width);
+  const diff = (index: number) => (index % width) - Math.floor(index / width);
+  for (const index of region) {
+    if (sum(index) < sum(topLeft)) topLeft = index;
+    if (sum(index) > sum(bottomRight)) bottomRight = index;
+    if (diff(index) > diff(topRight)) topRight = index;
+    if (diff(index) < diff(bottomLeft)) bottomLeft = index;
+  }
+
+  // Use pixel edges rather than centres so a full-frame region maps to the full image.
+  const toPoint = (index: number, dx: number, dy: number): Point => ({
+    x: (index % width) + dx,
+    y: Math.floor(index / width) + dy,
+  });
+  const quad: Quad = [
+    toPoint(topLeft, 0, 0),
+    toPoint(topRight, 1, 0),
+    toPoint(bottomRight, 1, 1),
+    toPoint(bottomLeft, 0, 1),
+  ];
+  return getQuadArea(quad) >= width * height * MIN_DOCUMENT_AREA ? quad : null;
+};
+
+export const detectDocumentQuad = async (imageDataUrl: string): Promise<DocumentDetection> => {
+  const image = await loadImage(imageDataUrl);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const scale = Math.min(1, DETECTION_MAX_EDGE / Math.max(width, height));
+  const { canvas, ctx } = createCanvas(width * scale, height * scale);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]);
+  }
+  // Receipts are lighter than the surface they are photographed on.
+  const threshold = getOtsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) mask[i] = gray[i] > threshold ? 1 : 0;
+
+  const quad = findQuadInMask(mask, canvas.width, canvas.height);
+  if (!quad) {
+    return { corners: getImageBoundsQuad(width, height), width, height, detected: false };
+  }
+  const scaleX = width / canvas.width;
+  const scaleY = height / canvas.height;
+  const corners = quad.map(point => ({
+    x: Math.min(width, Math.max(0, point.x * scaleX)),
+    y: Math.min(height, Math.max(0, point.y * scaleY)),
+  })) as Quad;
+  return { corners, width, height, detected: true };
+};
+
+// Solves A·x = b by Gaussian elimination with partial pivoting.
+const solveLinearSystem = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-10) {
+      throw new Error('The corners do not form a valid quadrilateral. Make sure no three corners are in a line.');
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let value = m[row][n];
+    for (let k = row + 1; k < n; k++) value -= m[row][k] * x[k];
+    x[row] = value / m[row][row];
+  }
+  return x;
+};
+
+// 3x3 perspective transform (row-major, last entry fixed to 1) that maps each `from` corner onto the matching `to` corner.
+export const computeHomography = (from: Quad, to: Quad): number[] => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solveLinearSystem(a, b), 1];
+};
+
+export const applyHomography = (h: number[], point: Point): Point => {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+};
+
+// The flattened document keeps the longer of each pair of opposite edges.
+export const getWarpSize = (corners: Quad): { width: number; height: number } => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  return {
+    width: Math.max(1, Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)))),
+    height: Math.max(1, Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)))),
+  };
+};
+
+export const warpPerspective = async (imageDataUrl: string, corners: Quad): Promise<string> => {
+  const image = await loadImage(imageDataUrl);
+  const source = createCanvas(image.naturalWidth, image.naturalHeight);
+  source.ctx.drawImage(image, 0, 0);
+  const srcWidth = source.canvas.width;
+  const srcHeight = source.canvas.height;
+  const src = source.ctx.getImageData(0, 0, srcWidth, srcHeight).data;
+
+  const { width, height } = getWarpSize(corners);
+  // Map output pixels back into the source so every output pixel gets a value.
+  const h = computeHomography(getImageBoundsQuad(width, height), corners);
+  const output = createCanvas(width, height);
+  const outImage = output.ctx.createImageData(width, height);
+  const out = outImage.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { x: sx, y: sy } = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      // Bilinear sampling between the four nearest source pixel centres.
+      const fx = Math.min(srcWidth - 1, Math.max(0, sx - 0.5));
+      const fy = Math.min(srcHeight - 1, Math.max(0, sy - 0.5));
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const y1 = Math.min(srcHeight - 1, y0 + 1);
+      const tx = fx - x0;
+      const ty = fy - y0;
+      const outIndex = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = src[(y0 * srcWidth + x0) * 4 + channel] * (1 - tx) + src[(y0 * srcWidth + x1) * 4 + channel] * tx;
+        const bottom = src[(y1 * srcWidth + x0) * 4 + channel] * (1 - tx) + src[(y1 * srcWidth + x1) * 4 + channel] * tx;
+        out[outIndex + channel] = top * (1 - ty) + bottom * ty;
+      }
+    }
+  }
+  output.ctx.putImageData(outImage, 0, 0);
+  return encodeCanvasLike(output.canvas, getDataUrlMimeType(imageDataUrl));
+};
+
+// Hands-off version for batches and pipelines. Refuses rather than guessing when no outline is found.
+export const deskewImage = async (imageDataUrl: string): Promise<string> => {
+  const detection = await detectDocumentQuad(imageDataUrl);
+  if (!detection.detected) {
+    throw new Error('No document outline was found. Set the corners by hand in the Processor.');
+  }
+  return warpPerspective(imageDataUrl, detection.corners);
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { ReceiptData } from '../types';
+import {
+  compareHashes,
+  downsample,
+  findDuplicateGroups,
+  getPairKey,
+  hammingDistance,
+  hashPixels,
+  receiptsMatch,
+} from './duplicateService';
+
+// RGBA image from a brightness function of the normalised position.
+const render = (size: number, shade: (x: number, y: number) => number) => {
+  const rgba = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = shade(x / size, y / size);
+      rgba.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return rgba;
+};
+
+// A light page with dark text-like bars, as a receipt looks at thumbnail size.
+const receiptImage = (x: number, y: number) => (x > 0.2 && x < 0.8 && Math.floor(y * 20) % 3 === 0 && x < 0.3 + y * 0.5 ? 40 : 230);
+const otherImage = (x: number, y: number) => (x < 0.5 !== y < 0.5 ? 30 : 220);
+
+const receipt = (changes: Partial<ReceiptData>): ReceiptData => ({
+  merchant: 'Acme Store Ltd.',
+  address: null,
+  date: '2024-05-01',
+  currency: 'EUR',
+  lineItems: [],
+  subtotal: null,
+  taxes: [],
+  tip: null,
+  total: 12.5,
+  ...changes,
+});
+
+describe('downsample', () => {
+  it('averages areas for sizes that do not divide evenly', () => {
+    const src = new Float32Array([0, 10, 20, 30, 40, 50, 60, 70, 80]);
+    expect(Array.from(downsample(src, 3, 3, 1, 1))).toEqual([40]);
+    const halves = downsample(src, 3, 3, 2, 1);
+    expect(halves[0]).toBeCloseTo((0 + 10 * 0.5 + 30 + 40 * 0.5 + 60 + 70 * 0.5) / 4.5);
+  });
+});
+
+describe('image hashes', () => {
+  it('produces 64-bit hex hashes', () => {
+    const hashes = hashPixels(render(64, receiptImage), 64, 64);
+    for (const hash of Object.values(hashes)) expect(hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('matches the same picture at another size and brightness', () => {
+    const original = hashPixels(render(128, receiptImage), 128, 128);
+    const rescanned = hashPixels(render(96, (x, y) => receiptImage(x, y) * 0.85 + 10), 96, 96);
+    expect(compareHashes(original, rescanned)).not.toBeNull();
+  });
+
+  it('does not match a different picture', () => {
+    const a = hashPixels(render(64, receiptImage), 64, 64);
+    const b = hashPixels(render(64, otherImage), 64, 64);
+    expect(compareHashes(a, b)).toBeNull();
+  });
+
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffff', 'ffff')).toBe(0);
+  });
+});
+
+describe('receiptsMatch', () => {
+  it('needs the same date and total and overlapping merchant names', () => {
+    expect(receiptsMatch(receipt({}), receipt({ merchant: 'ACME STORE' }))).toBe(true);
+    expect(receiptsMatch(receipt({}), receipt({ total: 12.51 }))).toBe(false);
+    expect(receiptsMatch(receipt({}), receipt({ date: '2024-05-02' }))).toBe(false);
+    expect(receiptsMatch(receipt({}), receipt({ merchant: 'Other Shop' }))).toBe(false);
+    expect(receiptsMatch(receipt({ merchant: null }), receipt({ merchant: null }))).toBe(false);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  const imageHashes = hashPixels(render(64, receiptImage), 64, 64);
+  const otherHashes = hashPixels(render(64, otherImage), 64, 64);
+
+  it('joins files linked by either kind of match into one group', () => {
+    const groups = findDuplicateGroups([
+      { id: 'photo', hashes: imageHashes, receipt: null },
+      { id: 'unrelated', hashes: otherHashes, receipt: receipt({ merchant: 'Other Shop' }) },
+      { id: 'copy', hashes: imageHashes, receipt: receipt({}) },
+      { id: 'scan', hashes: null, receipt: receipt({ merchant: 'Acme' }) },
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].fileIds).toEqual(['photo', 'copy', 'scan']);
+    expect(groups[0].matches.map(m => [m.a, m.b, m.reason.kind])).toEqual([
+      ['photo', 'copy', 'image'],
+      ['copy', 'scan', 'fields'],
+    ]);
+  });
+
+  it('skips pairs the user dismissed and files without hashes or receipts', () => {
+    const candidates = [
+      { id: 'a', hashes: imageHashes, receipt: null },
+      { id: 'b', hashes: imageHashes, receipt: null },
+      { id: 'c', hashes: null, receipt: null },
+    ];
+    expect(findDuplicateGroups(candidates, new Set([getPairKey('b', 'a')]))).toEqual([]);
+  });
+});
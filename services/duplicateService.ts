@@ -0,0 +1,204 @@
+import { ImageHashes, ReceiptData } from '../types';
+import { fileToDataUrl } from './fileUtils';
+import { createCanvas, loadImage } from './imageUtils';
+
+// Finds receipts uploaded more than once: perceptual hashes catch the same picture after
+// recompression or resizing, and matching merchant, date and total catches a photo and a scan
+// of the same receipt that look too different for the hashes.
+
+export interface DuplicateCandidate {
+  id: string;
+  hashes: ImageHashes | null;
+  receipt: ReceiptData | null;
+}
+
+export type DuplicateReason =
+  | { kind: 'image'; similarity: number } // Percent of matching pHash bits
+  | { kind: 'fields' };
+
+export interface DuplicateMatch {
+  a: string;
+  b: string;
+  reason: DuplicateReason;
+}
+
+export interface DuplicateGroup {
+  fileIds: string[]; // In candidate order
+  matches: DuplicateMatch[];
+}
+
+// Bits out of 64 two hashes may differ by and still count as the same picture. dHash is checked
+// as well because pHash alone can match unrelated images that are mostly blank paper.
+const PHASH_MAX_DISTANCE = 10;
+const DHASH_MAX_DISTANCE = 14;
+
+// The image is first reduced to this size with the browser's high-quality smoothing, then
+// averaged down in code so every hash sees the whole frame.
+const SAMPLE_SIZE = 128;
+
+export const toGrayscale = (rgba: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Area-average resampling, exact for any size ratio.
+export const downsample = (src: Float32Array, width: number, height: number, outWidth: number, outHeight: number): Float32Array => {
+  const out = new Float32Array(outWidth * outHeight);
+  const scaleX = width / outWidth;
+  const scaleY = height / outHeight;
+  for (let oy = 0; oy < outHeight; oy++) {
+    const y0 = oy * scaleY;
+    const y1 = y0 + scaleY;
+    for (let ox = 0; ox < outWidth; ox++) {
+      const x0 = ox * scaleX;
+      const x1 = x0 + scaleX;
+      let sum = 0;
+      let area = 0;
+      for (let y = Math.floor(y0); y < Math.ceil(y1); y++) {
+        const wy = Math.min(y + 1, y1) - Math.max(y, y0);
+        for (let x = Math.floor(x0); x < Math.ceil(x1); x++) {
+          const w = wy * (Math.min(x + 1, x1) - Math.max(x, x0));
+          sum += src[y * width + x] * w;
+          area += w;
+        }
+      }
+      out[oy * outWidth + ox] = area > 0 ? sum / area : 0;
+    }
+  }
+  return out;
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)).toString(16);
+  }
+  return hex;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// dHash: whether each of 9x8 pixels is brighter than its right neighbour.
+export const differenceHash = (gray: Float32Array, width: number, height: number): string => {
+  const small = downsample(gray, width, height, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(small[y * 9 + x] > small[y * 9 + x + 1]);
+  }
+  return bitsToHex(bits);
+};
+
+// pHash: the lowest 8x8 frequencies of a 32x32 DCT compared with their median, leaving out the
+// overall brightness term.
+export const perceptualHash = (gray: Float32Array, width: number, height: number): string => {
+  const n = 32;
+  const small = downsample(gray, width, height, n, n);
+  const cos = (k: number, i: number) => Math.cos(((2 * i + 1) * k * Math.PI) / (2 * n));
+  const rows = new Float32Array(n * 8);
+  for (let y = 0; y < n; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < n; x++) sum += small[y * n + x] * cos(u, x);
+      rows[y * 8 + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) sum += rows[y * 8 + u] * cos(v, y);
+      coefficients.push(sum);
+    }
+  }
+  const threshold = median(coefficients.slice(1));
+  return bitsToHex(coefficients.map((c, i) => i > 0 && c > threshold));
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let diff = parseInt(a[i] ?? '0', 16) ^ parseInt(b[i] ?? '0', 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const hashPixels = (rgba: Uint8ClampedArray, width: number, height: number): ImageHashes => {
+  const gray = toGrayscale(rgba);
+  return {
+    dHash: differenceHash(gray, width, height),
+    pHash: perceptualHash(gray, width, height),
+  };
+};
+
+export const computeImageHashes = async (source: Blob | string): Promise<ImageHashes> => {
+  const image = await loadImage(typeof source === 'string' ? source : await fileToDataUrl(source));
+  const { ctx } = createCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+  ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return hashPixels(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data, SAMPLE_SIZE, SAMPLE_SIZE);
+};
+
+// Returns the pHash similarity in percent when the images look alike, otherwise null.
+export const compareHashes = (a: ImageHashes, b: ImageHashes): number | null => {
+  const pDistance = hammingDistance(a.pHash, b.pHash);
+  if (pDistance > PHASH_MAX_DISTANCE || hammingDistance(a.dHash, b.dHash) > DHASH_MAX_DISTANCE) return null;
+  return Math.round((1 - pDistance / 64) * 100);
+};
+
+const normalizeMerchant = (merchant: string) => merchant.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Same date and total, and one merchant name contains the other ("ACME" vs "Acme Store Ltd.").
+export const receiptsMatch = (a: ReceiptData, b: ReceiptData): boolean => {
+  if (!a.merchant || !b.merchant || !a.date || !b.date || a.total === null || b.total === null) return false;
+  if (a.date !== b.date || Math.round(a.total * 100) !== Math.round(b.total * 100)) return false;
+  const merchantA = normalizeMerchant(a.merchant);
+  const merchantB = normalizeMerchant(b.merchant);
+  return !!merchantA && !!merchantB && (merchantA.includes(merchantB) || merchantB.includes(merchantA));
+};
+
+// Order-independent key for a pair of files, used to remember pairs the user said are not duplicates.
+export const getPairKey = (a: string, b: string): string => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Groups files connected by any match. A and C end up together when both match B.
+export const findDuplicateGroups = (candidates: DuplicateCandidate[], dismissedPairs: Set<string> = new Set()): DuplicateGroup[] => {
+  const parent = candidates.map((_, index) => index);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const matches: DuplicateMatch[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (dismissedPairs.has(getPairKey(a.id, b.id))) continue;
+      const similarity = a.hashes && b.hashes ? compareHashes(a.hashes, b.hashes) : null;
+      let reason: DuplicateReason | null = null;
+      if (similarity !== null) reason = { kind: 'image', similarity };
+      else if (a.receipt && b.receipt && receiptsMatch(a.receipt, b.receipt)) reason = { kind: 'fields' };
+      if (!reason) continue;
+      matches.push({ a: a.id, b: b.id, reason });
+      parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, DuplicateGroup>();
+  candidates.forEach((candidate, index) => {
+    const root = find(index);
+    const group = groups.get(root) ?? { fileIds: [], matches: [] };
+    group.fileIds.push(candidate.id);
+    groups.set(root, group);
+  });
+  for (const group of groups.values()) {
+    group.matches = matches.filter(m => group.fileIds.includes(m.a));
+  }
+  return [...groups.values()].filter(group => group.fileIds.length > 1);
+};
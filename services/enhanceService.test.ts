@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { EnhanceOptions } from '../types';
+import {
+  adaptiveThreshold,
+  applyEnhanceFilters,
+  describeEnhance,
+  flattenBackground,
+  hasActiveEnhanceFilters,
+  medianFilter,
+  otsuBinarize,
+  stretchContrast,
+} from './enhanceService';
+
+const NO_FILTERS: EnhanceOptions = {
+  grayscale: false,
+  shadowRemoval: 0,
+  denoise: 0,
+  contrastStretch: 0,
+  sharpenAmount: 0,
+  sharpenRadius: 0,
+  binarization: 'none',
+  adaptiveWindow: 0,
+  adaptiveOffset: 0,
+};
+
+describe('medianFilter', () => {
+  it('removes isolated specks', () => {
+    const src = new Float32Array(25).fill(200);
+    src[12] = 0;
+    expect(medianFilter(src, 5, 5, 1)[12]).toBe(200);
+  });
+});
+
+describe('stretchContrast', () => {
+  it('maps the darkest and lightest values to black and white', () => {
+    const out = stretchContrast(Float32Array.from([100, 120, 140, 160]), 0);
+    expect(Array.from(out)).toEqual([0, 85, 170, 255]);
+  });
+
+  it('leaves flat images alone', () => {
+    expect(Array.from(stretchContrast(new Float32Array(4).fill(90), 0))).toEqual([90, 90, 90, 90]);
+  });
+});
+
+describe('flattenBackground', () => {
+  it('brings a shadowed paper gradient up to white', () => {
+    const width = 40;
+    const src = Float32Array.from({ length: width * 4 }, (_, i) => 120 + (i % width) * 3);
+    const out = flattenBackground(src, width, 4, 4);
+    const min = Math.min(...out);
+    expect(min).toBeGreaterThan(220);
+  });
+});
+
+describe('binarization', () => {
+  it('splits with Otsu', () => {
+    expect(Array.from(otsuBinarize(Float32Array.from([10, 20, 200, 210])))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('keeps dark text on unevenly lit paper with adaptive thresholding', () => {
+    // Dark pixel on a bright area and a slightly darker pixel on a dim area.
+    const width = 9;
+    const src = new Float32Array(width).fill(220);
+    src.fill(120, 5);
+    src[2] = 150;
+    const out = adaptiveThreshold(src, width, 1, 2, 10);
+    expect(out[2]).toBe(0);
+    expect(out[7]).toBe(255);
+    expect(out[0]).toBe(255);
+  });
+});
+
+describe('applyEnhanceFilters', () => {
+  it('keeps alpha and converts to grayscale', () => {
+    const rgba = Uint8ClampedArray.from([255, 0, 0, 128]);
+    const out = applyEnhanceFilters(rgba, 1, 1, { ...NO_FILTERS, grayscale: true });
+    expect(Array.from(out)).toEqual([76, 76, 76, 128]);
+  });
+
+  it('does nothing with every filter off', () => {
+    const rgba = Uint8ClampedArray.from([10, 20, 30, 255, 40, 50, 60, 255]);
+    expect(Array.from(applyEnhanceFilters(rgba, 2, 1, NO_FILTERS))).toEqual(Array.from(rgba));
+    expect(hasActiveEnhanceFilters(NO_FILTERS)).toBe(false);
+  });
+});
+
+describe('describeEnhance', () => {
+  it('lists the enabled filters', () => {
+    expect(describeEnhance({ ...NO_FILTERS, denoise: 1, binarization: 'adaptive' })).toBe('Enhanced locally (denoise, adaptive threshold)');
+  });
+});
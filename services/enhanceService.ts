@@ -0,0 +1,219 @@
+import { EnhanceOptions } from '../types';
+import { createCanvas, encodeCanvasLike, getDataUrlMimeType, loadImage } from './imageUtils';
+import { getOtsuThreshold } from './deskewService';
+
+// Local replacement for the AI "enhance for OCR" step. Every filter works on one channel of
+// floating-point values in 0-255 and returns a new array, so they can be chained freely.
+
+export const DEFAULT_ENHANCE_OPTIONS: EnhanceOptions = {
+  grayscale: true,
+  shadowRemoval: 20,
+  denoise: 1,
+  contrastStretch: 1,
+  sharpenAmount: 0,
+  sharpenRadius: 2,
+  binarization: 'adaptive',
+  adaptiveWindow: 15,
+  adaptiveOffset: 10,
+};
+
+// Summed-area table with an extra leading row and column, so box sums need no bounds checks.
+const buildIntegral = (src: Float32Array, width: number, height: number): Float64Array => {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += src[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+  return integral;
+};
+
+// Mean of the (2r+1)² window around each pixel, clipped at the image edges.
+export const boxMean = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const integral = buildIntegral(src, width, height);
+  const stride = width + 1;
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      out[y * width + x] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return out;
+};
+
+// Separable maximum filter; removes dark text so only the paper's brightness is left.
+const maxFilter = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const horizontal = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let max = 0;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) max = Math.max(max, src[y * width + k]);
+      horizontal[y * width + x] = max;
+    }
+  }
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let max = 0;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) max = Math.max(max, horizontal[k * width + x]);
+      out[y * width + x] = max;
+    }
+  }
+  return out;
+};
+
+// Divides by a smooth estimate of the paper brightness, which evens out shadows and vignetting.
+export const flattenBackground = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const background = boxMean(maxFilter(src, width, height, Math.max(1, Math.round(radius / 4))), width, height, radius);
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) {
+    out[i] = Math.min(255, (src[i] / Math.max(1, background[i])) * 255);
+  }
+  return out;
+};
+
+export const medianFilter = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const out = new Float32Array(src.length);
+  const window = new Float32Array((2 * radius + 1) ** 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let count = 0;
+      for (let wy = Math.max(0, y - radius); wy <= Math.min(height - 1, y + radius); wy++) {
+        for (let wx = Math.max(0, x - radius); wx <= Math.min(width - 1, x + radius); wx++) {
+          window[count++] = src[wy * width + wx];
+        }
+      }
+      const values = window.subarray(0, count).sort();
+      out[y * width + x] = values[count >> 1];
+    }
+  }
+  return out;
+};
+
+// Maps the given percentiles at each end to black and white.
+export const stretchContrast = (src: Float32Array, clipPercent: number): Float32Array => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < src.length; i++) histogram[Math.min(255, Math.max(0, Math.round(src[i])))]++;
+  const clipCount = (src.length * clipPercent) / 100;
+
+  let low = 0;
+  for (let seen = histogram[0]; seen <= clipCount && low < 255; seen += histogram[++low]);
+  let high = 255;
+  for (let seen = histogram[255]; seen <= clipCount && high > 0; seen += histogram[--high]);
+  if (high <= low) return src.slice();
+
+  const out = new Float32Array(src.length);
+  const scale = 255 / (high - low);
+  for (let i = 0; i < src.length; i++) out[i] = Math.min(255, Math.max(0, (src[i] - low) * scale));
+  return out;
+};
+
+export const unsharpMask = (src: Float32Array, width: number, height: number, radius: number, amount: number): Float32Array => {
+  const blurred = boxMean(src, width, height, radius);
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) out[i] = Math.min(255, Math.max(0, src[i] + amount * (src[i] - blurred[i])));
+  return out;
+};
+
+export const otsuBinarize = (src: Float32Array): Float32Array => {
+  const rounded = Uint8Array.from(src, value => Math.min(255, Math.max(0, Math.round(value))));
+  const threshold = getOtsuThreshold(rounded);
+  return Float32Array.from(rounded, value => (value > threshold ? 255 : 0));
+};
+
+// Compares each pixel with the mean of its neighbourhood, which copes with uneven lighting.
+export const adaptiveThreshold = (src: Float32Array, width: number, height: number, radius: number, offset: number): Float32Array => {
+  const mean = boxMean(src, width, height, radius);
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) out[i] = src[i] < mean[i] - offset ? 0 : 255;
+  return out;
+};
+
+const processChannel = (channel: Float32Array, width: number, height: number, options: EnhanceOptions): Float32Array => {
+  let result = channel;
+  if (options.shadowRemoval > 0) result = flattenBackground(result, width, height, options.shadowRemoval);
+  if (options.denoise > 0) result = medianFilter(result, width, height, options.denoise);
+  if (options.contrastStretch > 0) result = stretchContrast(result, options.contrastStretch);
+  if (options.sharpenAmount > 0 && options.sharpenRadius > 0) {
+    result = unsharpMask(result, width, height, options.sharpenRadius, options.sharpenAmount);
+  }
+  if (options.binarization === 'otsu') result = otsuBinarize(result);
+  if (options.binarization === 'adaptive') result = adaptiveThreshold(result, width, height, Math.max(1, options.adaptiveWindow), options.adaptiveOffset);
+  return result;
+};
+
+// Runs the enabled filters over RGBA pixels. Color images are filtered per channel; alpha is kept.
+export const applyEnhanceFilters = (rgba: Uint8ClampedArray, width: number, height: number, options: EnhanceOptions): Uint8ClampedArray => {
+  const pixelCount = width * height;
+  const useGray = options.grayscale || options.binarization !== 'none';
+  const inputs: Float32Array[] = [];
+  if (useGray) {
+    const gray = new Float32Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    inputs.push(gray);
+  } else {
+    for (let c = 0; c < 3; c++) inputs.push(Float32Array.from({ length: pixelCount }, (_, i) => rgba[i * 4 + c]));
+  }
+  const outputs = inputs.map(channel => processChannel(channel, width, height, options));
+
+  const out = new Uint8ClampedArray(rgba.length);
+  for (let i = 0; i < pixelCount; i++) {
+    for (let c = 0; c < 3; c++) out[i * 4 + c] = outputs[useGray ? 0 : c][i];
+    out[i * 4 + 3] = rgba[i * 4 + 3];
+  }
+  return out;
+};
+
+export const hasActiveEnhanceFilters = (options: EnhanceOptions): boolean =>
+  options.grayscale ||
+  options.shadowRemoval > 0 ||
+  options.denoise > 0 ||
+  options.contrastStretch > 0 ||
+  (options.sharpenAmount > 0 && options.sharpenRadius > 0) ||
+  options.binarization !== 'none';
+
+export const describeEnhance = (options: EnhanceOptions): string => {
+  const parts = [
+    options.grayscale && options.binarization === 'none' && 'grayscale',
+    options.shadowRemoval > 0 && 'shadow removal',
+    options.denoise > 0 && 'denoise',
+    options.contrastStretch > 0 && 'contrast',
+    options.sharpenAmount > 0 && options.sharpenRadius > 0 && 'sharpen',
+    options.binarization === 'otsu' && 'Otsu threshold',
+    options.binarization === 'adaptive' && 'adaptive threshold',
+  ].filter(Boolean);
+  return parts.length > 0 ? `Enhanced locally (${parts.join(', ')})` : 'Enhanced locally';
+};
+
+// Pixel radii are scaled with the image so a downscaled preview looks like the full-size result.
+const scaleOptions = (options: EnhanceOptions, scale: number): EnhanceOptions => {
+  const scaleRadius = (radius: number) => (radius > 0 ? Math.max(1, Math.round(radius * scale)) : 0);
+  return {
+    ...options,
+    shadowRemoval: scaleRadius(options.shadowRemoval),
+    denoise: scaleRadius(options.denoise),
+    sharpenRadius: scaleRadius(options.sharpenRadius),
+    adaptiveWindow: scaleRadius(options.adaptiveWindow),
+  };
+};
+
+// Pass `maxEdge` to work on a downscaled copy, e.g. for a live preview.
+export const enhanceImageLocally = async (imageDataUrl: string, options: EnhanceOptions, maxEdge?: number): Promise<string> => {
+  const image = await loadImage(imageDataUrl);
+  const scale = maxEdge ? Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+  const { canvas, ctx } = createCanvas(image.naturalWidth * scale, image.naturalHeight * scale);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  pixels.data.set(applyEnhanceFilters(pixels.data, canvas.width, canvas.height, scaleOptions(options, scale)));
+  ctx.putImageData(pixels, 0, 0);
+  return encodeCanvasLike(canvas, getDataUrlMimeType(imageDataUrl));
+};
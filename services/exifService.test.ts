@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCaptureDate, parseImageMetadata, stripMetadataBytes } from './exifService';
+
+// [tag, TIFF type, value]. Strings are ASCII; rationals are flattened numerator/denominator pairs.
+type Tag = [number, number, string | number[]];
+
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const u32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+const be32 = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+const encode = (type: number, value: string | number[]) => {
+  if (typeof value === 'string') return { count: value.length + 1, data: [...ascii(value), 0] };
+  if (type === 3) return { count: value.length, data: value.flatMap(u16) };
+  if (type === 4) return { count: value.length, data: value.flatMap(u32) };
+  return { count: value.length / 2, data: value.flatMap(u32) };
+};
+
+// Little-endian TIFF with IFD0 followed by the Exif and GPS directories and then their values.
+const buildTiff = (ifd0: Tag[], exif: Tag[], gps: Tag[]): number[] => {
+  const ifdSize = (count: number) => 2 + count * 12 + 4;
+  const exifOffset = 8 + ifdSize(ifd0.length + 2);
+  const gpsOffset = exifOffset + ifdSize(exif.length);
+  let dataOffset = gpsOffset + ifdSize(gps.length);
+  const data: number[] = [];
+
+  const writeIfd = (tags: Tag[]) => {
+    const out = [...u16(tags.length)];
+    for (const [tag, type, value] of tags) {
+      const encoded = encode(type, value);
+      out.push(...u16(tag), ...u16(type), ...u32(encoded.count));
+      if (encoded.data.length <= 4) {
+        out.push(...encoded.data, ...new Array(4 - encoded.data.length).fill(0));
+      } else {
+        out.push(...u32(dataOffset));
+        data.push(...encoded.data);
+        dataOffset += encoded.data.length;
+      }
+    }
+    return [...out, ...u32(0)];
+  };
+
+  const pointers: Tag[] = [[0x8769, 4, [exifOffset]], [0x8825, 4, [gpsOffset]]];
+  return [0x49, 0x49, 42, 0, ...u32(8), ...writeIfd([...ifd0, ...pointers]), ...writeIfd(exif), ...writeIfd(gps), ...data];
+};
+
+const sampleTiff = () => buildTiff(
+  [[0x010f, 2, 'Acme'], [0x0110, 2, 'Phone 12'], [0x0112, 3, [6]]],
+  [[0x9003, 2, '2024:03:15 14:32:05']],
+  [
+    [0x01, 2, 'N'],
+    [0x02, 5, [51, 1, 30, 1, 36, 1]],
+    [0x03, 2, 'W'],
+    [0x04, 5, [0, 1, 7, 1, 30, 1]],
+  ]
+);
+
+const jpegSegment = (marker: number, payload: number[]) => [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+const XMP = '<x:xmpmeta><rdf:Description exif:DateTimeOriginal="2023-07-01T09:15:00+02:00" exif:GPSLatitude="48,51.5N" exif:GPSLongitude="2,21E"/></x:xmpmeta>';
+
+const buildJpeg = () => new Uint8Array([
+  0xff, 0xd8,
+  ...jpegSegment(0xe0, ascii('JFIF\0\x01\x01\0\0\x01\0\x01\0\0')),
+  ...jpegSegment(0xe1, [...ascii('Exif\0\0'), ...sampleTiff()]),
+  ...jpegSegment(0xe1, ascii(`http://ns.adobe.com/xap/1.0/\0${XMP}`)),
+  ...jpegSegment(0xfe, ascii('taken at home')),
+  ...jpegSegment(0xda, [1, 2, 3, 4, 5, 6]),
+  0x12, 0x34, 0xff, 0xd9,
+]);
+
+const pngChunk = (type: string, payload: number[]) => [...be32(payload.length), ...ascii(type), ...payload, 0, 0, 0, 0];
+
+const buildPng = (chunks: number[][]) => new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ...pngChunk('IHDR', new Array(13).fill(0)),
+  ...chunks.flat(),
+  ...pngChunk('IEND', []),
+]);
+
+const webpChunk = (type: string, payload: number[]) => [
+  ...ascii(type), ...u32(payload.length), ...payload, ...(payload.length % 2 ? [0] : []),
+];
+
+const buildWebp = () => {
+  const body = [
+    ...ascii('WEBP'),
+    ...webpChunk('VP8X', [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+    ...webpChunk('VP8 ', [1, 2, 3, 4]),
+    ...webpChunk('EXIF', sampleTiff()),
+    ...webpChunk('XMP ', ascii(XMP)),
+  ];
+  return new Uint8Array([...ascii('RIFF'), ...u32(body.length), ...body]);
+};
+
+describe('parseImageMetadata', () => {
+  it('reads orientation, camera, capture date and GPS from JPEG EXIF', () => {
+    const metadata = parseImageMetadata(buildJpeg())!;
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.cameraMake).toBe('Acme');
+    expect(metadata.cameraModel).toBe('Phone 12');
+    expect(metadata.captureDate).toBe('2024-03-15T14:32:05');
+    expect(metadata.gps!.latitude).toBeCloseTo(51.51, 6);
+    expect(metadata.gps!.longitude).toBeCloseTo(-0.125, 6);
+    expect(metadata.hasXmp).toBe(true);
+    expect(metadata.fields.Model).toBe('Phone 12');
+    expect(metadata.fields.GPSLatitudeRef).toBe('N');
+  });
+
+  it('falls back to XMP when there is no EXIF', () => {
+    const xmpChunk = pngChunk('iTXt', [...ascii('XML:com.adobe.xmp\0\0\0\0\0'), ...ascii(XMP)]);
+    const metadata = parseImageMetadata(buildPng([xmpChunk]))!;
+    expect(metadata.captureDate).toBe('2023-07-01T09:15:00');
+    expect(metadata.gps!.latitude).toBeCloseTo(48 + 51.5 / 60, 6);
+    expect(metadata.gps!.longitude).toBeCloseTo(2 + 21 / 60, 6);
+    expect(metadata.orientation).toBeNull();
+  });
+
+  it('reads the EXIF chunk of a WebP file', () => {
+    expect(parseImageMetadata(buildWebp())!.orientation).toBe(6);
+  });
+
+  it('finds EXIF in TIFF files and HEIF containers', () => {
+    expect(parseImageMetadata(new Uint8Array(sampleTiff()))!.cameraMake).toBe('Acme');
+    const heif = new Uint8Array([...ascii('\0\0\0\x18ftypheic'), 0, 0, 0, 6, ...ascii('Exif\0\0'), ...sampleTiff()]);
+    expect(parseImageMetadata(heif)!.captureDate).toBe('2024-03-15T14:32:05');
+  });
+
+  it('returns null for files without metadata or in other formats', () => {
+    expect(parseImageMetadata(buildPng([]))).toBeNull();
+    expect(parseImageMetadata(new Uint8Array(ascii('GIF89a')))).toBeNull();
+  });
+});
+
+describe('normalizeCaptureDate', () => {
+  it('converts EXIF and XMP dates to local ISO time', () => {
+    expect(normalizeCaptureDate('2024:03:15 14:32:05')).toBe('2024-03-15T14:32:05');
+    expect(normalizeCaptureDate('2024-03-15')).toBe('2024-03-15T00:00:00');
+    expect(normalizeCaptureDate('0000:00:00 00:00:00')).toBeNull();
+    expect(normalizeCaptureDate('yesterday')).toBeNull();
+  });
+});
+
+describe('stripMetadataBytes', () => {
+  it('leaves the file untouched when keeping metadata', () => {
+    const jpeg = buildJpeg();
+    expect(stripMetadataBytes(jpeg, 'keep')).toBe(jpeg);
+  });
+
+  it('removes only the location from a JPEG', () => {
+    const stripped = stripMetadataBytes(buildJpeg(), 'stripGps');
+    const metadata = parseImageMetadata(stripped)!;
+    expect(metadata.gps).toBeNull();
+    expect(metadata.hasXmp).toBe(false);
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.captureDate).toBe('2024-03-15T14:32:05');
+    expect(Object.keys(metadata.fields).some(name => name.startsWith('GPS'))).toBe(false);
+    expect(Array.from(stripped.slice(-4))).toEqual([0x12, 0x34, 0xff, 0xd9]);
+  });
+
+  it('removes EXIF, XMP and comments from a JPEG but keeps the image data and orientation', () => {
+    const stripped = stripMetadataBytes(buildJpeg(), 'stripAll');
+    const metadata = parseImageMetadata(stripped)!;
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.fields).toEqual({ Orientation: '6' });
+    expect(metadata.gps).toBeNull();
+    expect(metadata.hasXmp).toBe(false);
+    expect(String.fromCharCode(...stripped)).not.toContain('taken at home');
+    expect(String.fromCharCode(...stripped)).toContain('JFIF');
+    expect(Array.from(stripped.slice(-4))).toEqual([0x12, 0x34, 0xff, 0xd9]);
+  });
+
+  it('drops PNG metadata and text chunks', () => {
+    const png = buildPng([pngChunk('eXIf', sampleTiff()), pngChunk('tEXt', ascii('Comment\0hello'))]);
+    const stripped = stripMetadataBytes(png, 'stripAll');
+    expect(parseImageMetadata(stripped)?.fields).toEqual({ Orientation: '6' });
+    expect(String.fromCharCode(...stripped)).not.toContain('tEXt');
+    expect(String.fromCharCode(...stripped)).toContain('IEND');
+  });
+
+  it('fixes the RIFF size and VP8X flags of a stripped WebP', () => {
+    const stripped = stripMetadataBytes(buildWebp(), 'stripAll');
+    const view = new DataView(stripped.buffer);
+    expect(view.getUint32(4, true)).toBe(stripped.length - 8);
+    expect(stripped[20] & 0x0c).toBe(0x08);
+    expect(parseImageMetadata(stripped)?.fields).toEqual({ Orientation: '6' });
+  });
+
+  it('drops the EXIF block entirely when the image is stored upright', () => {
+    const png = buildPng([pngChunk('eXIf', buildTiff([[0x0112, 3, [1]]], [], []))]);
+    expect(parseImageMetadata(stripMetadataBytes(png, 'stripAll'))).toBeNull();
+  });
+});
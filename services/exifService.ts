@@ -0,0 +1,575 @@
+import { GpsLocation, ImageMetadata, MetadataPolicy } from '../types';
+import { blobToArrayBuffer, fileToDataUrl } from './fileUtils';
+import { createCanvas, encodeCanvasLike, loadImage } from './imageUtils';
+
+// Reads EXIF (TIFF) and XMP metadata from JPEG, PNG and WebP files, and removes it again on export.
+// EXIF is also found in TIFF and HEIC files so converted imports keep their capture details.
+// Only the container formats are parsed here; image data is never decoded.
+
+type TagValue = string | number | number[];
+
+interface TiffReader {
+  view: DataView;
+  start: number; // Offset of the TIFF header; IFD offsets are relative to it
+  little: boolean;
+}
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const ORIENTATION_TAG = 0x0112;
+const MAX_VALUES_PER_TAG = 64;
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// Bytes per value for each TIFF field type.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x011a: 'XResolution',
+  0x011b: 'YResolution',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISO',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9011: 'OffsetTimeOriginal',
+  0x920a: 'FocalLength',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa405: 'FocalLengthIn35mmFilm',
+  0xa431: 'BodySerialNumber',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x01: 'GPSLatitudeRef',
+  0x02: 'GPSLatitude',
+  0x03: 'GPSLongitudeRef',
+  0x04: 'GPSLongitude',
+  0x05: 'GPSAltitudeRef',
+  0x06: 'GPSAltitude',
+  0x07: 'GPSTimeStamp',
+  0x1d: 'GPSDateStamp',
+};
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+const startsWithAscii = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// --- Container walkers ---
+
+interface Block {
+  kind: string; // JPEG marker as hex, PNG chunk type or WebP fourcc
+  start: number; // Whole block, including its header
+  end: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+type Container = { format: 'jpeg' | 'png' | 'webp'; blocks: Block[]; tailStart: number };
+
+const readJpegBlocks = (bytes: Uint8Array): Container | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const blocks: Block[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan: only image data follows
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    blocks.push({ kind: marker.toString(16), start: offset, end, dataStart: offset + 4, dataEnd: end });
+    offset = end;
+  }
+  return { format: 'jpeg', blocks, tailStart: offset };
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const readPngBlocks = (bytes: Uint8Array): Container | null => {
+  if (!PNG_SIGNATURE.every((value, i) => bytes[i] === value)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blocks: Block[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    blocks.push({ kind: readAscii(bytes, offset + 4, 4), start: offset, end, dataStart: offset + 8, dataEnd: offset + 8 + length });
+    offset = end;
+  }
+  return { format: 'png', blocks, tailStart: offset };
+};
+
+const readWebpBlocks = (bytes: Uint8Array): Container | null => {
+  if (!startsWithAscii(bytes, 0, 'RIFF') || !startsWithAscii(bytes, 8, 'WEBP')) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blocks: Block[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    const end = Math.min(bytes.length, offset + 8 + length + (length % 2)); // Chunks are padded to even sizes
+    blocks.push({ kind: readAscii(bytes, offset, 4), start: offset, end, dataStart: offset + 8, dataEnd: offset + 8 + length });
+    offset = end;
+  }
+  return { format: 'webp', blocks, tailStart: offset };
+};
+
+const readContainer = (bytes: Uint8Array): Container | null =>
+  readJpegBlocks(bytes) ?? readPngBlocks(bytes) ?? readWebpBlocks(bytes);
+
+const EXIF_SCAN_LIMIT = 1024 * 1024;
+
+// TIFF files are themselves TIFF structures. HEIF keeps EXIF in an item whose payload starts with
+// "Exif\0\0"; rather than walk the box tree, look for that marker followed by a valid header.
+const findBareTiffStart = (bytes: Uint8Array): number | null => {
+  if (createTiffReader(bytes, 0)) return 0;
+  const limit = Math.min(bytes.length, EXIF_SCAN_LIMIT);
+  for (let offset = 0; offset + 14 <= limit; offset++) {
+    if (bytes[offset] === 0x45 && startsWithAscii(bytes, offset, 'Exif\0\0') && createTiffReader(bytes, offset + 6)) {
+      return offset + 6;
+    }
+  }
+  return null;
+};
+
+// Offset of the TIFF header inside an EXIF block, or null when the block holds something else.
+const getTiffStart = (bytes: Uint8Array, container: Container, block: Block): number | null => {
+  if (container.format === 'jpeg') {
+    return block.kind === 'e1' && startsWithAscii(bytes, block.dataStart, 'Exif\0\0') ? block.dataStart + 6 : null;
+  }
+  if (container.format === 'png') return block.kind === 'eXIf' ? block.dataStart : null;
+  if (block.kind !== 'EXIF') return null;
+  return startsWithAscii(bytes, block.dataStart, 'Exif\0\0') ? block.dataStart + 6 : block.dataStart;
+};
+
+const isXmpBlock = (bytes: Uint8Array, container: Container, block: Block): boolean => {
+  if (container.format === 'jpeg') return block.kind === 'e1' && startsWithAscii(bytes, block.dataStart, XMP_NAMESPACE);
+  if (container.format === 'png') return block.kind === 'iTXt' && startsWithAscii(bytes, block.dataStart, `${PNG_XMP_KEYWORD}\0`);
+  return block.kind === 'XMP ';
+};
+
+const readXmpText = (bytes: Uint8Array, container: Container, block: Block): string => {
+  if (container.format === 'jpeg') return textDecoder.decode(bytes.subarray(block.dataStart + XMP_NAMESPACE.length, block.dataEnd));
+  if (container.format === 'webp') return textDecoder.decode(bytes.subarray(block.dataStart, block.dataEnd));
+  // iTXt: keyword, compression flag and method, then NUL-terminated language tag and translated keyword.
+  let offset = block.dataStart + PNG_XMP_KEYWORD.length + 3;
+  for (let terminators = 0; terminators < 2 && offset < block.dataEnd; offset++) {
+    if (bytes[offset] === 0) terminators++;
+  }
+  return textDecoder.decode(bytes.subarray(offset, block.dataEnd));
+};
+
+// --- TIFF / EXIF parsing ---
+
+const readTagValue = (reader: TiffReader, entryOffset: number): TagValue | null => {
+  const { view, start, little } = reader;
+  const type = view.getUint16(entryOffset + 2, little);
+  const count = view.getUint32(entryOffset + 4, little);
+  const size = TYPE_SIZES[type];
+  if (!size) return null;
+  const total = size * count;
+  const valueOffset = total <= 4 ? entryOffset + 8 : start + view.getUint32(entryOffset + 8, little);
+  if (valueOffset + total > view.byteLength) return null;
+
+  if (type === 2) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, count);
+    const nul = bytes.indexOf(0);
+    return textDecoder.decode(nul === -1 ? bytes : bytes.subarray(0, nul)).trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < Math.min(count, MAX_VALUES_PER_TAG); i++) {
+    const at = valueOffset + i * size;
+    switch (type) {
+      case 1: case 7: values.push(view.getUint8(at)); break;
+      case 6: values.push(view.getInt8(at)); break;
+      case 3: values.push(view.getUint16(at, little)); break;
+      case 8: values.push(view.getInt16(at, little)); break;
+      case 4: values.push(view.getUint32(at, little)); break;
+      case 9: values.push(view.getInt32(at, little)); break;
+      case 5: {
+        const denominator = view.getUint32(at + 4, little);
+        values.push(denominator ? view.getUint32(at, little) / denominator : 0);
+        break;
+      }
+      case 10: {
+        const denominator = view.getInt32(at + 4, little);
+        values.push(denominator ? view.getInt32(at, little) / denominator : 0);
+        break;
+      }
+      case 11: values.push(view.getFloat32(at, little)); break;
+      case 12: values.push(view.getFloat64(at, little)); break;
+    }
+  }
+  return values.length === 1 ? values[0] : values;
+};
+
+const readIfd = (reader: TiffReader, relativeOffset: number): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const base = reader.start + relativeOffset;
+  if (relativeOffset <= 0 || base + 2 > reader.view.byteLength) return tags;
+  const count = reader.view.getUint16(base, reader.little);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > reader.view.byteLength) break;
+    const value = readTagValue(reader, entry);
+    if (value !== null) tags.set(reader.view.getUint16(entry, reader.little), value);
+  }
+  return tags;
+};
+
+const createTiffReader = (bytes: Uint8Array, tiffStart: number): TiffReader | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (tiffStart + 8 > view.byteLength) return null;
+  const order = view.getUint16(tiffStart);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  if (view.getUint16(tiffStart + 2, little) !== 42) return null;
+  return { view, start: tiffStart, little };
+};
+
+const readTiff = (bytes: Uint8Array, tiffStart: number) => {
+  const reader = createTiffReader(bytes, tiffStart);
+  if (!reader) return null;
+  const ifd0 = readIfd(reader, reader.view.getUint32(tiffStart + 4, reader.little));
+  const exifPointer = ifd0.get(EXIF_IFD_POINTER);
+  const gpsPointer = ifd0.get(GPS_IFD_POINTER);
+  return {
+    ifd0,
+    exif: typeof exifPointer === 'number' ? readIfd(reader, exifPointer) : new Map<number, TagValue>(),
+    gps: typeof gpsPointer === 'number' ? readIfd(reader, gpsPointer) : new Map<number, TagValue>(),
+  };
+};
+
+// --- Interpretation ---
+
+const formatTagValue = (value: TagValue): string => {
+  const formatNumber = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(4).replace(/0+$/, ''));
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return formatNumber(value);
+  return value.map(formatNumber).join(', ');
+};
+
+// EXIF dates look like "2024:03:15 14:32:05"; XMP uses ISO 8601, possibly with a zone or only a date.
+export const normalizeCaptureDate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) return null;
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  if (year === '0000') return null; // Cameras without a clock write zeros
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+};
+
+const toDegrees = (value: TagValue | undefined): number | null => {
+  if (!Array.isArray(value) || value.length < 2) return typeof value === 'number' ? value : null;
+  const [degrees, minutes, seconds = 0] = value;
+  return degrees + minutes / 60 + seconds / 3600;
+};
+
+// XMP writes coordinates as "51,30.1234N" or "51,30,7.4N".
+const parseXmpCoordinate = (value: string | null): number | null => {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/);
+  if (!match) return null;
+  const degrees = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+  return match[4] === 'S' || match[4] === 'W' ? -degrees : degrees;
+};
+
+const readXmpValue = (xmp: string, name: string): string | null => {
+  const attribute = new RegExp(`${name}="([^"]*)"`).exec(xmp);
+  if (attribute) return attribute[1];
+  const element = new RegExp(`<${name}>([^<]*)</${name}>`).exec(xmp);
+  return element ? element[1].trim() : null;
+};
+
+const readGps = (gps: Map<number, TagValue>): GpsLocation | null => {
+  const latitude = toDegrees(gps.get(0x02));
+  const longitude = toDegrees(gps.get(0x04));
+  if (latitude === null || longitude === null) return null;
+  if (latitude === 0 && longitude === 0) return null; // Written by some phones when there was no fix
+  const altitude = gps.get(0x06);
+  return {
+    latitude: gps.get(0x01) === 'S' ? -latitude : latitude,
+    longitude: gps.get(0x03) === 'W' ? -longitude : longitude,
+    altitude: typeof altitude === 'number' ? (gps.get(0x05) === 1 ? -altitude : altitude) : null,
+  };
+};
+
+const asString = (value: TagValue | undefined): string | null => (typeof value === 'string' && value ? value : null);
+
+export const parseImageMetadata = (bytes: Uint8Array): ImageMetadata | null => {
+  const container = readContainer(bytes);
+  let tiff: ReturnType<typeof readTiff> = null;
+  let xmp: string | null = null;
+  if (container) {
+    for (const block of container.blocks) {
+      const tiffStart = getTiffStart(bytes, container, block);
+      if (tiffStart !== null && !tiff) tiff = readTiff(bytes, tiffStart);
+      else if (isXmpBlock(bytes, container, block) && xmp === null) xmp = readXmpText(bytes, container, block);
+    }
+  } else {
+    const tiffStart = findBareTiffStart(bytes);
+    if (tiffStart !== null) tiff = readTiff(bytes, tiffStart);
+  }
+  if (!tiff && xmp === null) return null;
+
+  const fields: Record<string, string> = {};
+  const ifd0 = tiff?.ifd0 ?? new Map<number, TagValue>();
+  const exif = tiff?.exif ?? new Map<number, TagValue>();
+  const gps = tiff?.gps ?? new Map<number, TagValue>();
+  const collect = (tags: Map<number, TagValue>, names: Record<number, string>) => {
+    tags.forEach((value, tag) => {
+      if (names[tag]) fields[names[tag]] = formatTagValue(value);
+    });
+  };
+  collect(ifd0, IFD0_TAGS);
+  collect(exif, EXIF_TAGS);
+  collect(gps, GPS_TAGS);
+
+  const xmpValue = (name: string) => (xmp !== null ? readXmpValue(xmp, name) : null);
+  const orientation = ifd0.get(ORIENTATION_TAG) ?? Number(xmpValue('tiff:Orientation'));
+  let location = readGps(gps);
+  if (!location) {
+    const latitude = parseXmpCoordinate(xmpValue('exif:GPSLatitude'));
+    const longitude = parseXmpCoordinate(xmpValue('exif:GPSLongitude'));
+    if (latitude !== null && longitude !== null) location = { latitude, longitude, altitude: null };
+  }
+
+  return {
+    orientation: typeof orientation === 'number' && orientation >= 1 && orientation <= 8 ? orientation : null,
+    captureDate: normalizeCaptureDate(
+      asString(exif.get(0x9003)) ??
+      xmpValue('exif:DateTimeOriginal') ??
+      xmpValue('photoshop:DateCreated') ??
+      xmpValue('xmp:CreateDate') ??
+      asString(ifd0.get(0x0132))
+    ),
+    cameraMake: asString(ifd0.get(0x010f)) ?? xmpValue('tiff:Make'),
+    cameraModel: asString(ifd0.get(0x0110)) ?? xmpValue('tiff:Model'),
+    software: asString(ifd0.get(0x0131)) ?? xmpValue('xmp:CreatorTool'),
+    gps: location,
+    hasXmp: xmp !== null,
+    fields,
+  };
+};
+
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata | null> => {
+  return parseImageMetadata(new Uint8Array(await blobToArrayBuffer(file)));
+};
+
+// Browsers apply the EXIF orientation when decoding, so drawing the image bakes the rotation into
+// the pixels. The canvas output carries no EXIF, so the rotation cannot be applied twice.
+export const applyExifOrientation = async (file: Blob): Promise<string> => {
+  const image = await loadImage(await fileToDataUrl(file));
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+  return encodeCanvasLike(canvas, file.type);
+};
+
+export const getOrientationLabel = (orientation: number): string =>
+  [
+    'Upright',
+    'Mirrored',
+    'Rotated 180°',
+    'Mirrored vertically',
+    'Mirrored and rotated 90° left',
+    'Rotated 90° right',
+    'Mirrored and rotated 90° right',
+    'Rotated 90° left',
+  ][orientation - 1] ?? `Unknown (${orientation})`;
+
+// --- Stripping ---
+
+// Zeroes the GPS directory and its out-of-line values, then drops the pointer to it from IFD0.
+// Throws on malformed data so callers can fall back to dropping the whole EXIF block.
+export const removeGpsFromTiff = (bytes: Uint8Array, tiffStart: number): boolean => {
+  const reader = createTiffReader(bytes, tiffStart);
+  if (!reader) throw new Error('Invalid TIFF header.');
+  const { view, little } = reader;
+  const ifd0 = tiffStart + view.getUint32(tiffStart + 4, little);
+  const count = view.getUint16(ifd0, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (view.getUint16(entry, little) !== GPS_IFD_POINTER) continue;
+
+    const gpsIfd = tiffStart + view.getUint32(entry + 8, little);
+    const gpsCount = view.getUint16(gpsIfd, little);
+    for (let j = 0; j < gpsCount; j++) {
+      const gpsEntry = gpsIfd + 2 + j * 12;
+      const total = (TYPE_SIZES[view.getUint16(gpsEntry + 2, little)] ?? 0) * view.getUint32(gpsEntry + 4, little);
+      if (total > 4) {
+        const valueOffset = tiffStart + view.getUint32(gpsEntry + 8, little);
+        if (valueOffset + total > bytes.length) throw new Error('GPS value out of range.');
+        bytes.fill(0, valueOffset, valueOffset + total);
+      }
+    }
+    bytes.fill(0, gpsIfd, gpsIfd + 2 + gpsCount * 12 + 4);
+
+    // Shift the remaining entries and the next-IFD offset up by one slot.
+    const tableEnd = ifd0 + 2 + count * 12 + 4;
+    bytes.copyWithin(entry, entry + 12, tableEnd);
+    bytes.fill(0, tableEnd - 12, tableEnd);
+    view.setUint16(ifd0, count - 1, little);
+    return true;
+  }
+  return false;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Text and timestamp chunks can hold author, location or device details, so "strip all" drops them too.
+const PNG_TEXT_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'tIME'];
+// Photoshop/IPTC (APP13) and comments (COM). ICC profiles (APP2) are kept so colours stay right.
+const JPEG_EXTRA_METADATA_MARKERS = ['ed', 'fe'];
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// A little-endian TIFF holding only the Orientation tag.
+const buildOrientationTiff = (orientation: number): Uint8Array => {
+  const tiff = new Uint8Array(26);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, 1, true);
+  view.setUint16(10, ORIENTATION_TAG, true);
+  view.setUint16(12, 3, true);
+  view.setUint32(14, 1, true);
+  view.setUint16(18, orientation, true);
+  return tiff;
+};
+
+// Original bytes are still stored unrotated, so "strip all" keeps Orientation in an EXIF block of its own.
+const buildOrientationBlock = (format: Container['format'], orientation: number): Uint8Array => {
+  const tiff = buildOrientationTiff(orientation);
+  if (format === 'jpeg') {
+    const length = 2 + 6 + tiff.length;
+    return concat([new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]), textEncoder.encode('Exif\0\0'), tiff]);
+  }
+  if (format === 'webp') {
+    const header = concat([textEncoder.encode('EXIF'), new Uint8Array(4)]);
+    new DataView(header.buffer).setUint32(4, tiff.length, true);
+    return concat([header, tiff]); // Already an even size, so no padding
+  }
+  const chunk = concat([new Uint8Array(4), textEncoder.encode('eXIf'), tiff, new Uint8Array(4)]);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, tiff.length);
+  view.setUint32(chunk.length - 4, crc32(chunk.subarray(4, chunk.length - 4)));
+  return chunk;
+};
+
+// Returns the input unchanged when it is not a JPEG, PNG or WebP file.
+export const stripMetadataBytes = (bytes: Uint8Array, policy: MetadataPolicy): Uint8Array => {
+  if (policy === 'keep') return bytes;
+  const container = readContainer(bytes);
+  if (!container) return bytes;
+
+  const headerEnd = container.format === 'jpeg' ? 2 : container.format === 'png' ? 8 : 12;
+  const parts: Uint8Array[] = [bytes.slice(0, headerEnd)];
+  let removedExif = false;
+  let removedXmp = false;
+
+  for (const block of container.blocks) {
+    const tiffStart = getTiffStart(bytes, container, block);
+    if (tiffStart !== null) {
+      if (policy === 'stripAll') {
+        const orientation = readTiff(bytes, tiffStart)?.ifd0.get(ORIENTATION_TAG);
+        if (typeof orientation === 'number' && orientation > 1 && orientation <= 8) {
+          parts.push(buildOrientationBlock(container.format, orientation));
+        } else {
+          removedExif = true;
+        }
+        continue;
+      }
+      const copy = bytes.slice(block.start, block.end);
+      try {
+        removeGpsFromTiff(copy, tiffStart - block.start);
+      } catch (error) {
+        console.warn('Could not remove GPS tags, dropping the EXIF block instead:', error);
+        removedExif = true;
+        continue;
+      }
+      if (container.format === 'png') {
+        new DataView(copy.buffer).setUint32(copy.length - 4, crc32(copy.subarray(4, copy.length - 4)));
+      }
+      parts.push(copy);
+      continue;
+    }
+    // XMP can repeat the GPS position, so it goes with either policy.
+    if (isXmpBlock(bytes, container, block) || (container.format === 'jpeg' && block.kind === 'e1')) {
+      removedXmp = true;
+      continue;
+    }
+    if (policy === 'stripAll') {
+      if (container.format === 'png' && PNG_TEXT_CHUNKS.includes(block.kind)) continue;
+      if (container.format === 'jpeg' && JPEG_EXTRA_METADATA_MARKERS.includes(block.kind)) continue;
+    }
+    parts.push(bytes.slice(block.start, block.end));
+  }
+  parts.push(bytes.slice(container.tailStart));
+  const out = concat(parts);
+
+  if (container.format === 'webp') {
+    const view = new DataView(out.buffer);
+    view.setUint32(4, out.length - 8, true);
+    // The VP8X header flags which optional chunks exist; clear the ones we removed.
+    if (startsWithAscii(out, 12, 'VP8X')) {
+      out[20] &= ~((removedExif ? 0x08 : 0) | (removedXmp ? 0x04 : 0));
+    }
+  }
+  return out;
+};
+
+export const stripMetadata = async (blob: Blob, policy: MetadataPolicy): Promise<Blob> => {
+  if (policy === 'keep') return blob;
+  const bytes = new Uint8Array(await blobToArrayBuffer(blob));
+  const stripped = stripMetadataBytes(bytes, policy);
+  return stripped === bytes ? blob : new Blob([stripped], { type: blob.type });
+};
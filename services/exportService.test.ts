@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './exportService';
+
+describe('toCsv', () => {
+  it('quotes delimiters and neutralises text that a spreadsheet would run as a formula', () => {
+    const csv = toCsv({
+      name: 'Receipts',
+      headers: ['Merchant', 'Item', 'Amount'],
+      rows: [
+        ['=HYPERLINK("http://x")', '@SUM(A1)', -4.5],
+        ['Acme, Inc.', '+1 coffee', null],
+        ['-discount', '\tTab', 3],
+      ],
+    });
+    expect(csv.split('\r\n')).toEqual([
+      'Merchant,Item,Amount',
+      `"'=HYPERLINK(""http://x"")",'@SUM(A1),-4.5`,
+      `"Acme, Inc.",'+1 coffee,`,
+      `'-discount,'\tTab,3`,
+    ]);
+  });
+});
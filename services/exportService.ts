@@ -0,0 +1,288 @@
+import JSZip from 'jszip';
+import {
+  ExportColumn,
+  ExportConfig,
+  LineItemExportField,
+  ReceiptExportField,
+  ReceiptResult,
+} from '../types';
+
+type CellValue = string | number | null;
+
+export interface ExportSource {
+  fileName: string;
+  historyStep: string; // Description of the history entry the results were produced from
+  ocrText?: string;
+  receipt?: ReceiptResult;
+  corrections?: string[]; // Fields the reviewer changed from the model output
+}
+
+export interface ExportFile {
+  blob: Blob;
+  fileName: string;
+}
+
+export interface Sheet {
+  name: string;
+  headers: string[];
+  rows: CellValue[][];
+}
+
+const column = <F extends string>(field: F, header: string, enabled = true): ExportColumn<F> => ({ field, header, enabled });
+
+export const DEFAULT_RECEIPT_COLUMNS: ExportColumn<ReceiptExportField>[] = [
+  column('sourceFile', 'Source File'),
+  column('historyStep', 'History Step'),
+  column('merchant', 'Merchant'),
+  column('address', 'Address'),
+  column('date', 'Date'),
+  column('currency', 'Currency'),
+  column('subtotal', 'Subtotal'),
+  column('tax', 'Tax'),
+  column('tip', 'Tip'),
+  column('total', 'Total'),
+  column('lineItemCount', 'Line Items'),
+  column('validationIssues', 'Validation Issues'),
+  column('corrections', 'Corrections'),
+  column('ocrText', 'OCR Text', false),
+];
+
+export const DEFAULT_LINE_ITEM_COLUMNS: ExportColumn<LineItemExportField>[] = [
+  column('sourceFile', 'Source File'),
+  column('historyStep', 'History Step'),
+  column('merchant', 'Merchant'),
+  column('date', 'Date'),
+  column('currency', 'Currency'),
+  column('description', 'Description'),
+  column('quantity', 'Quantity'),
+  column('unitPrice', 'Unit Price'),
+  column('amount', 'Amount'),
+];
+
+export const DEFAULT_EXPORT_CONFIG: ExportConfig = {
+  format: 'csv',
+  includeLineItems: false,
+  dateFormat: 'iso',
+  negateAmounts: false,
+  receiptColumns: DEFAULT_RECEIPT_COLUMNS,
+  lineItemColumns: DEFAULT_LINE_ITEM_COLUMNS,
+};
+
+// Only the receipt columns change between presets; provenance columns stay available to re-enable.
+const presetColumns = (selected: Array<[ReceiptExportField, string]>): ExportColumn<ReceiptExportField>[] => {
+  const chosen = selected.map(([field, header]) => column(field, header));
+  const rest = DEFAULT_RECEIPT_COLUMNS
+    .filter(c => !selected.some(([field]) => field === c.field))
+    .map(c => ({ ...c, enabled: false }));
+  return [...chosen, ...rest];
+};
+
+export const EXPORT_PRESETS: Array<{ id: string; label: string; config: Partial<ExportConfig> }> = [
+  { id: 'default', label: 'All fields', config: DEFAULT_EXPORT_CONFIG },
+  {
+    id: 'quickbooks',
+    label: 'QuickBooks Online (3-column CSV)',
+    config: {
+      format: 'csv',
+      dateFormat: 'us',
+      negateAmounts: true,
+      receiptColumns: presetColumns([['date', 'Date'], ['merchant', 'Description'], ['total', 'Amount']]),
+    },
+  },
+  {
+    id: 'xero',
+    label: 'Xero bank statement CSV',
+    config: {
+      format: 'csv',
+      dateFormat: 'eu',
+      negateAmounts: true,
+      receiptColumns: presetColumns([
+        ['date', '*Date'],
+        ['total', '*Amount'],
+        ['merchant', 'Payee'],
+        ['historyStep', 'Description'],
+        ['sourceFile', 'Reference'],
+      ]),
+    },
+  },
+];
+
+const formatDate = (isoDate: string | null, dateFormat: ExportConfig['dateFormat']): string | null => {
+  if (!isoDate) return null;
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match || dateFormat === 'iso') return isoDate;
+  const [, year, month, day] = match;
+  return dateFormat === 'us' ? `${month}/${day}/${year}` : `${day}/${month}/${year}`;
+};
+
+const money = (value: number | null, config: ExportConfig): number | null => {
+  if (value === null) return null;
+  return config.negateAmounts ? -value : value;
+};
+
+const receiptCell = (source: ExportSource, field: ReceiptExportField, config: ExportConfig): CellValue => {
+  const data = source.receipt?.data;
+  switch (field) {
+    case 'sourceFile': return source.fileName;
+    case 'historyStep': return source.historyStep;
+    case 'merchant': return data?.merchant ?? null;
+    case 'address': return data?.address ?? null;
+    case 'date': return formatDate(data?.date ?? null, config.dateFormat);
+    case 'currency': return data?.currency ?? null;
+    case 'subtotal': return money(data?.subtotal ?? null, config);
+    case 'tax': return data && data.taxes.length > 0
+      ? money(data.taxes.reduce((sum, tax) => sum + tax.amount, 0), config)
+      : null;
+    case 'tip': return money(data?.tip ?? null, config);
+    case 'total': return money(data?.total ?? null, config);
+    case 'lineItemCount': return data ? data.lineItems.length : null;
+    case 'validationIssues': return source.receipt ? source.receipt.validation.issues.join(' ') : null;
+    case 'ocrText': return source.ocrText ?? null;
+    case 'corrections': return source.corrections?.length ? source.corrections.join('; ') : null;
+  }
+};
+
+const lineItemRows = (sources: ExportSource[], columns: ExportColumn<LineItemExportField>[], config: ExportConfig): CellValue[][] => {
+  const rows: CellValue[][] = [];
+  for (const source of sources) {
+    const data = source.receipt?.data;
+    if (!data) continue;
+    for (const item of data.lineItems) {
+      rows.push(columns.map(({ field }) => {
+        switch (field) {
+          case 'sourceFile': return source.fileName;
+          case 'historyStep': return source.historyStep;
+          case 'merchant': return data.merchant;
+          case 'date': return formatDate(data.date, config.dateFormat);
+          case 'currency': return data.currency;
+          case 'description': return item.description;
+          case 'quantity': return item.quantity;
+          case 'unitPrice': return money(item.unitPrice, config);
+          case 'amount': return money(item.amount, config);
+        }
+      }));
+    }
+  }
+  return rows;
+};
+
+export const buildSheets = (sources: ExportSource[], config: ExportConfig): Sheet[] => {
+  const receiptColumns = config.receiptColumns.filter(c => c.enabled);
+  const sheets: Sheet[] = [{
+    name: 'Receipts',
+    headers: receiptColumns.map(c => c.header),
+    rows: sources.map(source => receiptColumns.map(c => receiptCell(source, c.field, config))),
+  }];
+
+  if (config.includeLineItems) {
+    const lineItemColumns = config.lineItemColumns.filter(c => c.enabled);
+    sheets.push({
+      name: 'Line Items',
+      headers: lineItemColumns.map(c => c.header),
+      rows: lineItemRows(sources, lineItemColumns, config),
+    });
+  }
+  return sheets;
+};
+
+// Spreadsheet apps run text cells starting with these as formulas. Merchant names and line items
+// come from model output, so such text gets a leading apostrophe. Numbers are written as they are.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing delimiters, quotes or line breaks, doubling embedded quotes.
+const escapeCsv = (value: CellValue): string => {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (sheet: Sheet): string => {
+  return [sheet.headers, ...sheet.rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+const toJson = (sheet: Sheet): Array<Record<string, CellValue>> => {
+  return sheet.rows.map(row => Object.fromEntries(sheet.headers.map((header, i) => [header, row[i]])));
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const worksheetXml = (sheet: Sheet): string => {
+  const rows = [sheet.headers, ...sheet.rows].map((row, rowIndex) => {
+    const cells = row.map((value, colIndex) => {
+      const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+      if (value === null || value === '') return '';
+      if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`;
+};
+
+// Builds a minimal OOXML workbook by hand so we don't need a spreadsheet library.
+export const toXlsx = async (sheets: Sheet[]): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+</Relationships>`);
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet)));
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+export const buildExportFiles = async (sources: ExportSource[], config: ExportConfig, baseName: string): Promise<ExportFile[]> => {
+  const sheets = buildSheets(sources, config);
+
+  switch (config.format) {
+    case 'csv':
+      // Spreadsheet apps need the BOM to detect UTF-8 in CSV files.
+      return sheets.map(sheet => ({
+        blob: new Blob(['\uFEFF' + toCsv(sheet)], { type: 'text/csv;charset=utf-8' }),
+        fileName: `${baseName}_${sheet.name.replace(/\s+/g, '_').toLowerCase()}.csv`,
+      }));
+    case 'json': {
+      const payload = Object.fromEntries(sheets.map(sheet => [sheet.name, toJson(sheet)]));
+      return [{
+        blob: new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+        fileName: `${baseName}.json`,
+      }];
+    }
+    case 'xlsx':
+      return [{ blob: await toXlsx(sheets), fileName: `${baseName}.xlsx` }];
+  }
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { dataURLtoBlob, fileToDataUrl, getFileNameParts } from './fileUtils';
+
+describe('getFileNameParts', () => {
+  it('splits the name at the last dot', () => {
+    expect(getFileNameParts('receipt.scan.jpg')).toEqual({ baseName: 'receipt.scan', extension: '.jpg' });
+  });
+
+  it('returns an empty extension when there is no dot', () => {
+    expect(getFileNameParts('receipt')).toEqual({ baseName: 'receipt', extension: '' });
+  });
+
+  it('treats a leading dot as part of the name', () => {
+    expect(getFileNameParts('.hidden')).toEqual({ baseName: '.hidden', extension: '' });
+  });
+});
+
+describe('data URL round trip', () => {
+  it('reads a blob back into the same data URL', async () => {
+    const blob = new Blob(['hello'], { type: 'text/plain' });
+    const dataUrl = await fileToDataUrl(blob);
+    expect(dataUrl).toBe('data:text/plain;base64,aGVsbG8=');
+
+    const decoded = await dataURLtoBlob(dataUrl);
+    expect(decoded.type).toBe('text/plain');
+    expect(await decoded.text()).toBe('hello');
+  });
+});
@@ -0,0 +1,48 @@
+// Helper to convert data URL to Blob for saving
+export async function dataURLtoBlob(dataUrl: string): Promise<Blob> {
+    const response = await fetch(dataUrl);
+    return await response.blob();
+}
+
+// Helper to read a File or Blob into a Base64 data URL
+export const fileToDataUrl = (file: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = e => {
+            if (typeof e.target?.result === 'string') {
+                resolve(e.target.result);
+            } else {
+                reject(new Error('Failed to read file as data URL.'));
+            }
+        };
+        reader.onerror = error => reject(error);
+        reader.readAsDataURL(file);
+    });
+};
+
+export const getFileNameParts = (fileName: string) => {
+    const dotIndex = fileName.lastIndexOf('.');
+    if (dotIndex === -1 || dotIndex === 0) {
+        return { baseName: fileName, extension: '' };
+    }
+    return {
+        baseName: fileName.substring(0, dotIndex),
+        extension: fileName.substring(dotIndex),
+    };
+};
+
+// Helper to read a File or Blob into raw bytes
+export const blobToArrayBuffer = (file: Blob): Promise<ArrayBuffer> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = e => {
+            if (e.target?.result instanceof ArrayBuffer) {
+                resolve(e.target.result);
+            } else {
+                reject(new Error('Failed to read file as bytes.'));
+            }
+        };
+        reader.onerror = error => reject(error);
+        reader.readAsArrayBuffer(file);
+    });
+};
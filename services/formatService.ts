@@ -0,0 +1,82 @@
+import { OutputFormatOptions, OutputMimeType } from '../types';
+import { LOSSY_MIME_TYPES, createCanvas, getDataUrlMimeType, loadImage } from './imageUtils';
+
+export const OUTPUT_FORMATS: Array<{ mimeType: OutputMimeType; label: string }> = [
+  { mimeType: 'image/jpeg', label: 'JPEG' },
+  { mimeType: 'image/png', label: 'PNG' },
+  { mimeType: 'image/webp', label: 'WebP' },
+  { mimeType: 'image/avif', label: 'AVIF' },
+];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormatOptions = {
+  mimeType: 'original',
+  quality: 0.9,
+};
+
+const MIME_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'image/gif': '.gif',
+  'image/bmp': '.bmp',
+  'image/tiff': '.tiff',
+  'image/heic': '.heic',
+  'image/svg+xml': '.svg',
+};
+
+// The extension must follow the bytes, not the source file name: Gemini often
+// answers a JPEG request with PNG data.
+export const getExtensionForMimeType = (mimeType: string, fallback = ''): string => {
+  return MIME_TYPE_EXTENSIONS[mimeType] ?? fallback;
+};
+
+export const getFormatLabel = (mimeType: string): string => {
+  const known = OUTPUT_FORMATS.find(f => f.mimeType === mimeType);
+  if (known) return known.label;
+  return mimeType.replace(/^image\//, '').toUpperCase() || 'Unknown';
+};
+
+export const isLossyFormat = (mimeType: string): boolean => LOSSY_MIME_TYPES.includes(mimeType);
+
+const encodingSupportCache = new Map<string, boolean>();
+
+// Browsers silently fall back to PNG for formats they cannot encode, so probe once and remember.
+export const isEncodingSupported = (mimeType: string): boolean => {
+  const cached = encodingSupportCache.get(mimeType);
+  if (cached !== undefined) return cached;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  const supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+  encodingSupportCache.set(mimeType, supported);
+  return supported;
+};
+
+export const describeFormat = (options: OutputFormatOptions): string => {
+  if (options.mimeType === 'original') return 'Original format';
+  const label = getFormatLabel(options.mimeType);
+  return isLossyFormat(options.mimeType) ? `${label} q${Math.round(options.quality * 100)}` : label;
+};
+
+export const convertImageFormat = async (imageDataUrl: string, options: OutputFormatOptions): Promise<string> => {
+  if (options.mimeType === 'original') return imageDataUrl;
+
+  const { mimeType, quality } = options;
+  if (getDataUrlMimeType(imageDataUrl) === mimeType && !isLossyFormat(mimeType)) {
+    // Lossless to the same lossless format would only burn CPU.
+    return imageDataUrl;
+  }
+  if (!isEncodingSupported(mimeType)) {
+    throw new Error(`${getFormatLabel(mimeType)} encoding is not supported by this browser.`);
+  }
+
+  const image = await loadImage(imageDataUrl);
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  if (mimeType === 'image/jpeg') {
+    // JPEG has no alpha channel; without this, transparent areas turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL(mimeType, quality);
+};
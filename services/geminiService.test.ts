@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  extractGeminiErrorPayload,
+  extractQuotaDetail,
+  fileToGenerativePart,
+  formatGeminiError,
+  isRetryableGeminiError,
+  parseOcrLayout,
+  GeminiApiError,
+} from './geminiService';
+
+const quotaFailure = {
+  '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+  violations: [{ quotaMetric: 'generativelanguage.googleapis.com/generate_content_free_tier_requests' }],
+};
+
+describe('extractGeminiErrorPayload', () => {
+  it('returns null for empty input', () => {
+    expect(extractGeminiErrorPayload(undefined)).toBeNull();
+    expect(extractGeminiErrorPayload('')).toBeNull();
+  });
+
+  it('parses JSON strings', () => {
+    expect(extractGeminiErrorPayload('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}')).toEqual({
+      error: { code: 429, status: 'RESOURCE_EXHAUSTED' },
+    });
+  });
+
+  it('wraps plain strings as a message', () => {
+    expect(extractGeminiErrorPayload('Something broke')).toEqual({ message: 'Something broke' });
+  });
+
+  it('parses JSON carried in an Error message', () => {
+    const error = new Error('{"error":{"message":"Bad image","status":"INVALID_ARGUMENT"}}');
+    expect(extractGeminiErrorPayload(error)).toEqual({ error: { message: 'Bad image', status: 'INVALID_ARGUMENT' } });
+  });
+
+  it('falls back to the Error message', () => {
+    expect(extractGeminiErrorPayload(new Error('Network down'))).toEqual({ message: 'Network down' });
+  });
+
+  it('passes objects through unchanged', () => {
+    const payload = { status: 503, message: 'Overloaded' };
+    expect(extractGeminiErrorPayload(payload)).toBe(payload);
+  });
+});
+
+describe('extractQuotaDetail', () => {
+  it('returns undefined without a QuotaFailure detail', () => {
+    expect(extractQuotaDetail(undefined)).toBeUndefined();
+    expect(extractQuotaDetail([{ '@type': 'type.googleapis.com/google.rpc.RetryInfo' }])).toBeUndefined();
+    expect(extractQuotaDetail([{ '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [] }])).toBeUndefined();
+  });
+
+  it('prefers the violation description', () => {
+    const details = [{ ...quotaFailure, violations: [{ description: 'Daily limit reached.', quotaMetric: 'x' }] }];
+    expect(extractQuotaDetail(details)).toBe('Daily limit reached.');
+  });
+
+  it('falls back to the quota metric', () => {
+    expect(extractQuotaDetail([quotaFailure])).toBe(
+      'Quota metric exceeded: generativelanguage.googleapis.com/generate_content_free_tier_requests'
+    );
+  });
+});
+
+describe('formatGeminiError', () => {
+  it('uses a generic message when nothing can be extracted', () => {
+    expect(formatGeminiError(null)).toBe('Gemini API request failed.');
+  });
+
+  it('combines the message, quota detail and quota hint', () => {
+    const error = new Error(JSON.stringify({
+      error: { code: 429, status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded.', details: [quotaFailure] },
+    }));
+    const message = formatGeminiError(error);
+    expect(message).toContain('Quota exceeded.');
+    expect(message).toContain('Quota metric exceeded:');
+    expect(message).toContain('no remaining quota');
+  });
+
+  it('returns just the message for other errors', () => {
+    expect(formatGeminiError({ error: { status: 'INVALID_ARGUMENT', message: 'Unsupported image.' } })).toBe('Unsupported image.');
+  });
+});
+
+describe('isRetryableGeminiError', () => {
+  it('retries rate limits and server errors only', () => {
+    expect(isRetryableGeminiError(new GeminiApiError('Slow down', 429))).toBe(true);
+    expect(isRetryableGeminiError(new GeminiApiError('Overloaded', 'UNAVAILABLE'))).toBe(true);
+    expect(isRetryableGeminiError({ status: 503 })).toBe(true);
+    expect(isRetryableGeminiError(new GeminiApiError('Bad request', 400))).toBe(false);
+    expect(isRetryableGeminiError(new Error('Something else'))).toBe(false);
+  });
+});
+
+describe('fileToGenerativePart', () => {
+  it('splits a data URL into mime type and base64 data', () => {
+    expect(fileToGenerativePart('data:image/png;base64,iVBORw0KGgo=')).toEqual({
+      inlineData: { data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+    });
+  });
+
+  it('rejects strings that are not base64 data URLs', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(() => fileToGenerativePart('https://example.com/image.png')).toThrow('Invalid data URL format');
+  });
+});
+
+describe('parseOcrLayout', () => {
+  it('converts boxes to fractions and drops words without text or a valid box', () => {
+    const layout = parseOcrLayout(JSON.stringify({
+      blocks: [{ lines: [{ words: [
+        { text: 'TOTAL', box_2d: [100, 200, 150, 400], confidence: 0.9 },
+        { text: '12.50', box_2d: [100, 450, 150, 600], confidence: 1.4 },
+        { text: '', box_2d: [0, 0, 10, 10] },
+        { text: 'lost', box_2d: [1, 2] },
+      ] }] }],
+    }));
+    const words = layout.blocks[0].lines[0].words;
+    expect(words.map(w => w.text)).toEqual(['TOTAL', '12.50']);
+    expect(words[0].box.x).toBeCloseTo(0.2);
+    expect(words[0].box.height).toBeCloseTo(0.05);
+    expect(words[1].confidence).toBe(1);
+  });
+
+  it('rejects responses without blocks', () => {
+    expect(() => parseOcrLayout('{"text": "hello"}')).toThrow('did not return valid JSON');
+  });
+});
@@ -1,5 +1,17 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, Modality, GenerateContentParameters, GenerateContentResponse, Type } from "@google/genai";
+import { GenerationOptions, OcrLayout, OcrWord, ReceiptData, ReceiptLineItem, ReceiptTaxLine } from '../types';
+import type { ChatTurn, ImageAIProvider, TextStreamOptions } from './aiService';
+import type { ImageGenerationSupport } from './generationService';
+import { boxFrom1000Grid, buildOcrLayout } from './ocrLayout';
+import { getBuiltInPrompt } from './promptLibrary';
+import { UsageMeasure, meterCall } from './usageService';
+
+export const GEMINI_MODELS = {
+  imageEditing: 'gemini-2.5-flash-image',
+  text: 'gemini-2.5-pro',
+  imageGeneration: 'imagen-4.0-generate-001',
+};
 
 const getApiKey = (): string => {
   const apiKey =
@@ -20,10 +32,11 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey: getApiKey() });
 };
 
-type GeminiErrorPayload = {
+export type GeminiErrorPayload = {
   status?: string | number;
   message?: string;
   error?: {
+    code?: number;
     status?: string;
     message?: string;
     details?: Array<Record<string, unknown>>;
@@ -38,7 +51,7 @@ const tryParseJson = (value: string) => {
   }
 };
 
-const extractGeminiErrorPayload = (error: unknown): GeminiErrorPayload | null => {
+export const extractGeminiErrorPayload = (error: unknown): GeminiErrorPayload | null => {
   if (!error) return null;
 
   if (typeof error === 'string') {
@@ -61,7 +74,7 @@ const extractGeminiErrorPayload = (error: unknown): GeminiErrorPayload | null =>
   return null;
 };
 
-const extractQuotaDetail = (details?: Array<Record<string, unknown>>): string | undefined => {
+export const extractQuotaDetail = (details?: Array<Record<string, unknown>>): string | undefined => {
   if (!details) return undefined;
   const quotaFailure = details.find(
     (detail) => typeof detail['@type'] === 'string' && (detail['@type'] as string).includes('QuotaFailure')
@@ -78,7 +91,7 @@ const extractQuotaDetail = (details?: Array<Record<string, unknown>>): string |
   );
 };
 
-const formatGeminiError = (error: unknown): string => {
+export const formatGeminiError = (error: unknown): string => {
   const payload = extractGeminiErrorPayload(error);
   const fallback = 'Gemini API request failed.';
 
@@ -97,15 +110,88 @@ const formatGeminiError = (error: unknown): string => {
   return [baseMessage, quotaMessage, quotaHint].filter(Boolean).join(' ');
 };
 
+const RETRYABLE_STATUSES = ['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED'];
+
+// Keeps the API status next to the formatted message so callers can decide whether to retry.
+export class GeminiApiError extends Error {
+  constructor(message: string, readonly status?: string | number) {
+    super(message);
+    this.name = 'GeminiApiError';
+  }
+}
+
+const extractGeminiStatus = (error: unknown): string | number | undefined => {
+  const payload = extractGeminiErrorPayload(error);
+  const httpStatus = error && typeof error === 'object' && 'status' in error
+    ? (error as { status?: unknown }).status
+    : undefined;
+  return (
+    payload?.error?.status ??
+    payload?.error?.code ??
+    payload?.status ??
+    (typeof httpStatus === 'number' || typeof httpStatus === 'string' ? httpStatus : undefined)
+  );
+};
+
+// Rate limits (429 / RESOURCE_EXHAUSTED) and server-side failures (5xx) are worth retrying; bad requests are not.
+export const isRetryableGeminiError = (error: unknown): boolean => {
+  const status = error instanceof GeminiApiError ? error.status : extractGeminiStatus(error);
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  if (typeof status === 'string') {
+    return RETRYABLE_STATUSES.includes(status) || /^(429|5\d\d)$/.test(status);
+  }
+  return false;
+};
+
 const withGeminiErrorHandling = async <T>(operation: () => Promise<T>): Promise<T> => {
   try {
     return await operation();
   } catch (error) {
-    throw new Error(formatGeminiError(error));
+    throw new GeminiApiError(formatGeminiError(error), extractGeminiStatus(error));
   }
 };
 
-const fileToGenerativePart = (fileDataUrl: string) => {
+// Thinking tokens are billed as output, so they are counted with the candidates.
+const measureTokens = (usage: GenerateContentResponse['usageMetadata']) => ({
+  inputTokens: usage?.promptTokenCount ?? 0,
+  outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+});
+
+const measureContentUsage = (response: GenerateContentResponse): UsageMeasure => ({
+  ...measureTokens(response.usageMetadata),
+  images: response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData).length ?? 0,
+});
+
+// Every generateContent request goes through here so it is recorded for the usage dashboard.
+const generateContent = (ai: GoogleGenAI, operation: string, params: GenerateContentParameters) =>
+  meterCall(params.model, operation, () => ai.models.generateContent(params), measureContentUsage);
+
+// Streams a text response, reporting the text so far after each chunk. When the caller aborts,
+// the text received until then is returned instead of an error. The model keeps generating after
+// the request is dropped and bills for all of it, so a stopped stream is recorded as incomplete:
+// its counts are only those seen before it stopped.
+const streamText = (ai: GoogleGenAI, operation: string, params: GenerateContentParameters, { signal, onText }: TextStreamOptions) => {
+  let usage: GenerateContentResponse['usageMetadata'];
+  return meterCall(params.model, operation, async () => {
+    let text = '';
+    try {
+      const stream = await ai.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: signal } });
+      for await (const chunk of stream) {
+        if (signal.aborted) break;
+        text += chunk.text ?? '';
+        usage = chunk.usageMetadata ?? usage;
+        onText(text);
+      }
+    } catch (error) {
+      if (!signal.aborted) throw error;
+    }
+    return text;
+  }, () => ({ ...measureTokens(usage), images: 0, incomplete: signal.aborted }));
+};
+
+export const fileToGenerativePart = (fileDataUrl: string) => {
   const match = fileDataUrl.match(/^data:(.+);base64,(.+)$/);
   if (!match) {
     console.error("Invalid data URL:", fileDataUrl.substring(0, 100) + "...");
@@ -122,12 +208,12 @@ const fileToGenerativePart = (fileDataUrl: string) => {
   };
 };
 
-const processImageWithPrompt = async (imageDataUrl: string, prompt: string): Promise<string> => {
+const processImageWithPrompt = async (imageDataUrl: string, prompt: string, operation: string): Promise<string> => {
     return withGeminiErrorHandling(async () => {
         const ai = getAiClient();
         const imagePart = fileToGenerativePart(imageDataUrl);
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
+        const response: GenerateContentResponse = await generateContent(ai, operation, {
+            model: GEMINI_MODELS.imageEditing,
             contents: [{
                 parts: [
                     imagePart,
@@ -158,24 +244,21 @@ const processImageWithPrompt = async (imageDataUrl: string, prompt: string): Pro
 
 
 export const preprocessImage = async (imageDataUrl: string): Promise<string> => {
-    const prompt = "Correct the perspective of this receipt. Make it look like a flat, top-down scan. De-skew and crop it tightly to the edges of the receipt. Do not change colors or add any effects.";
-    return processImageWithPrompt(imageDataUrl, prompt);
+    return processImageWithPrompt(imageDataUrl, getBuiltInPrompt('preprocess'), 'Preprocess');
 };
 
 export const enhanceForOcr = async (imageDataUrl: string): Promise<string> => {
-    const prompt = "Convert this image of a receipt to a high-contrast black and white image. Preserve all text details to ensure maximum OCR accuracy. Remove any shadows or noise."
-    return processImageWithPrompt(imageDataUrl, prompt);
+    return processImageWithPrompt(imageDataUrl, getBuiltInPrompt('enhanceForOcr'), 'Enhance for OCR');
 }
 
 export const performOcr = async (imageDataUrl: string): Promise<string> => {
   return withGeminiErrorHandling(async () => {
     const ai = getAiClient();
     const imagePart = fileToGenerativePart(imageDataUrl);
-    const prompt = "Perform OCR on this image and extract all text content exactly as it appears.";
     
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents: [{ parts: [imagePart, { text: prompt }] }]
+    const response = await generateContent(ai, 'OCR', {
+      model: GEMINI_MODELS.text,
+      contents: [{ parts: [imagePart, { text: getBuiltInPrompt('ocr') }] }]
     });
   
     const text = response.text;
@@ -187,35 +270,258 @@ export const performOcr = async (imageDataUrl: string): Promise<string> => {
   });
 };
 
-export const analyzeImage = async (imageDataUrl: string, prompt: string): Promise<string> => {
+export const performOcrStream = async (imageDataUrl: string, options: TextStreamOptions): Promise<string> => {
+  return withGeminiErrorHandling(async () => {
+    const ai = getAiClient();
+    const imagePart = fileToGenerativePart(imageDataUrl);
+    const text = await streamText(ai, 'OCR', {
+      model: GEMINI_MODELS.text,
+      contents: [{ parts: [imagePart, { text: getBuiltInPrompt('ocr') }] }],
+    }, options);
+
+    if (!text && !options.signal.aborted) {
+      throw new Error('OCR failed. No text was returned from the model.');
+    }
+    return text;
+  });
+};
+
+const ocrLayoutSchema = {
+  type: Type.OBJECT,
+  properties: {
+    blocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          lines: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                words: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      text: { type: Type.STRING },
+                      box_2d: {
+                        type: Type.ARRAY,
+                        items: { type: Type.NUMBER },
+                        description: 'Bounding box as [ymin, xmin, ymax, xmax] normalised to 0-1000.',
+                      },
+                      confidence: { type: Type.NUMBER, description: 'How sure you are of the text, from 0 to 1.' },
+                    },
+                    required: ['text', 'box_2d'],
+                    propertyOrdering: ['text', 'box_2d', 'confidence'],
+                  },
+                },
+              },
+              required: ['words'],
+            },
+          },
+        },
+        required: ['lines'],
+      },
+    },
+  },
+  required: ['blocks'],
+};
+
+// Words without a usable box are dropped; they cannot be highlighted and the plain OCR covers them.
+export const parseOcrLayout = (json: string): OcrLayout => {
+  const raw = tryParseJson(json);
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as Record<string, unknown>).blocks)) {
+    throw new Error('OCR failed. The model did not return valid JSON.');
+  }
+  const asArray = (value: unknown) => (Array.isArray(value) ? value as Array<Record<string, unknown>> : []);
+
+  return buildOcrLayout(asArray((raw as Record<string, unknown>).blocks).map(block =>
+    asArray(block.lines).map(line =>
+      asArray(line.words).flatMap((word): Array<Omit<OcrWord, 'id'>> => {
+        const text = toStringOrNull(word.text);
+        const box = Array.isArray(word.box_2d) ? boxFrom1000Grid(word.box_2d) : null;
+        if (!text || !box) return [];
+        const confidence = toNumberOrNull(word.confidence);
+        return [{ text, box, confidence: confidence === null ? null : Math.min(1, Math.max(0, confidence)) }];
+      })
+    )
+  ));
+};
+
+export const performOcrWithLayout = async (imageDataUrl: string): Promise<OcrLayout> => {
+  return withGeminiErrorHandling(async () => {
+    const ai = getAiClient();
+    const imagePart = fileToGenerativePart(imageDataUrl);
+    const prompt = getBuiltInPrompt('ocrLayout');
+
+    const response = await generateContent(ai, 'OCR with word positions', {
+      model: GEMINI_MODELS.text,
+      contents: [{ parts: [imagePart, { text: prompt }] }],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: ocrLayoutSchema,
+      },
+    });
+
+    const text = response.text;
+    if (typeof text !== 'string') {
+      console.error('OCR failed. No text returned from model.', { response });
+      throw new Error('OCR failed. No text was returned from the model.');
+    }
+    return parseOcrLayout(text);
+  });
+};
+
+const receiptSchema = {
+  type: Type.OBJECT,
+  properties: {
+    merchant: { type: Type.STRING, nullable: true },
+    address: { type: Type.STRING, nullable: true },
+    date: { type: Type.STRING, nullable: true, description: 'Purchase date in YYYY-MM-DD format.' },
+    currency: { type: Type.STRING, nullable: true, description: 'ISO 4217 currency code, e.g. USD.' },
+    lineItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          quantity: { type: Type.NUMBER, nullable: true },
+          unitPrice: { type: Type.NUMBER, nullable: true },
+          amount: { type: Type.NUMBER },
+        },
+        required: ['description', 'amount'],
+        propertyOrdering: ['description', 'quantity', 'unitPrice', 'amount'],
+      },
+    },
+    subtotal: { type: Type.NUMBER, nullable: true },
+    taxes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          rate: { type: Type.NUMBER, nullable: true, description: 'Percentage rate, e.g. 20 for 20%.' },
+          amount: { type: Type.NUMBER },
+        },
+        required: ['label', 'amount'],
+        propertyOrdering: ['label', 'rate', 'amount'],
+      },
+    },
+    tip: { type: Type.NUMBER, nullable: true },
+    total: { type: Type.NUMBER, nullable: true },
+  },
+  required: ['lineItems', 'taxes'],
+  propertyOrdering: ['merchant', 'address', 'date', 'currency', 'lineItems', 'subtotal', 'taxes', 'tip', 'total'],
+};
+
+const toNumberOrNull = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/[^0-9.-]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const toStringOrNull = (value: unknown): string | null => {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+};
+
+// The schema constrains the model, but we still coerce defensively so callers get a well-formed ReceiptData.
+const parseReceiptData = (json: string): ReceiptData => {
+  const raw = tryParseJson(json);
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Receipt extraction failed. The model did not return valid JSON.');
+  }
+  const record = raw as Record<string, unknown>;
+  const asArray = (value: unknown) => (Array.isArray(value) ? value as Array<Record<string, unknown>> : []);
+
+  const lineItems: ReceiptLineItem[] = asArray(record.lineItems).map(item => ({
+    description: toStringOrNull(item.description) ?? '',
+    quantity: toNumberOrNull(item.quantity),
+    unitPrice: toNumberOrNull(item.unitPrice),
+    amount: toNumberOrNull(item.amount) ?? 0,
+  }));
+
+  const taxes: ReceiptTaxLine[] = asArray(record.taxes).map(tax => ({
+    label: toStringOrNull(tax.label) ?? 'Tax',
+    rate: toNumberOrNull(tax.rate),
+    amount: toNumberOrNull(tax.amount) ?? 0,
+  }));
+
+  return {
+    merchant: toStringOrNull(record.merchant),
+    address: toStringOrNull(record.address),
+    date: toStringOrNull(record.date),
+    currency: toStringOrNull(record.currency)?.toUpperCase() ?? null,
+    lineItems,
+    subtotal: toNumberOrNull(record.subtotal),
+    taxes,
+    tip: toNumberOrNull(record.tip),
+    total: toNumberOrNull(record.total),
+  };
+};
+
+export const extractReceipt = async (imageDataUrl: string): Promise<ReceiptData> => {
+  return withGeminiErrorHandling(async () => {
+    const ai = getAiClient();
+    const imagePart = fileToGenerativePart(imageDataUrl);
+    const prompt = getBuiltInPrompt('extractReceipt');
+
+    const response = await generateContent(ai, 'Receipt extraction', {
+      model: GEMINI_MODELS.text,
+      contents: [{ parts: [imagePart, { text: prompt }] }],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: receiptSchema,
+      },
+    });
+
+    const text = response.text;
+    if (typeof text !== 'string') {
+      console.error('Receipt extraction failed. No text returned from model.', { response });
+      throw new Error('Receipt extraction failed. No data was returned from the model.');
+    }
+    return parseReceiptData(text);
+  });
+};
+
+export const chat = async (turns: ChatTurn[], options: TextStreamOptions): Promise<string> => {
     return withGeminiErrorHandling(async () => {
         const ai = getAiClient();
-        const imagePart = fileToGenerativePart(imageDataUrl);
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: [{ parts: [imagePart, { text: prompt }] }]
-        });
-    
-        const text = response.text;
-        if (typeof text !== 'string') {
-            console.error('Analysis failed. No text returned from model.', { response });
-            throw new Error('Analysis failed. No text was returned from the model.');
+        const text = await streamText(ai, 'Chat', {
+            model: GEMINI_MODELS.text,
+            contents: turns.map(turn => ({
+                role: turn.role,
+                parts: [...turn.images.map(fileToGenerativePart), { text: turn.text }],
+            })),
+        }, options);
+
+        if (!text && !options.signal.aborted) {
+            throw new Error('Chat failed. No reply was returned from the model.');
         }
         return text;
     });
-}
-
+};
 
-export const editImage = async (imageDataUrl: string, prompt: string): Promise<string> => {
+// The model takes no mask parameter, so the mask goes in as a second image the prompt refers to.
+// Callers still composite the result through the mask, as the model may touch other areas too.
+export const editImage = async (imageDataUrl: string, prompt: string, maskDataUrl?: string): Promise<string> => {
     return withGeminiErrorHandling(async () => {
         const ai = getAiClient();
         const imagePart = fileToGenerativePart(imageDataUrl);
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
+        const maskParts = maskDataUrl ? [fileToGenerativePart(maskDataUrl)] : [];
+        const text = maskDataUrl
+            ? `${prompt}\n\nThe second image is a mask of the first. Only change the area that is white in the mask and keep everything in the black area exactly as it is. Return an image the same size as the first.`
+            : prompt;
+        const response: GenerateContentResponse = await generateContent(ai, 'Image edit', {
+            model: GEMINI_MODELS.imageEditing,
             contents: [{
                 parts: [
                     imagePart,
-                    { text: prompt },
+                    ...maskParts,
+                    { text },
                 ],
             }],
             config: {
@@ -241,26 +547,49 @@ export const editImage = async (imageDataUrl: string, prompt: string): Promise<s
 };
 
 
-export const generateImage = async (prompt: string): Promise<string> => {
+// Imagen through the Gemini API rejects negative prompts and seeds.
+const imageGeneration: ImageGenerationSupport = {
+    model: GEMINI_MODELS.imageGeneration,
+    negativePrompt: false,
+    seed: false,
+};
+
+export const generateImages = async (prompt: string, options: GenerationOptions): Promise<string[]> => {
     return withGeminiErrorHandling(async () => {
         const ai = getAiClient();
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
+        const response = await meterCall(GEMINI_MODELS.imageGeneration, 'Image generation', () => ai.models.generateImages({
+            model: GEMINI_MODELS.imageGeneration,
             prompt,
             config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: '1:1',
+                numberOfImages: options.numberOfImages,
+                outputMimeType: options.outputMimeType,
+                aspectRatio: options.aspectRatio,
             },
+        }), generated => ({ inputTokens: 0, outputTokens: 0, images: generated.generatedImages?.length ?? 0 }));
+
+        const images = (response.generatedImages ?? []).flatMap(generated => {
+            const base64ImageBytes = generated.image?.imageBytes;
+            return base64ImageBytes ? [`data:${generated.image?.mimeType ?? options.outputMimeType};base64,${base64ImageBytes}`] : [];
         });
-    
-        const firstImage = response.generatedImages?.[0];
-        if (firstImage?.image?.imageBytes) {
-            const base64ImageBytes: string = firstImage.image.imageBytes;
-            return `data:image/jpeg;base64,${base64ImageBytes}`;
-        }
-        
+        if (images.length > 0) return images;
+
         console.error('Image generation failed.', { generationInfo: response.generationInfo });
         throw new Error("Image generation failed.");
     });
 };
+
+export const geminiProvider: ImageAIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  preprocessImage,
+  enhanceForOcr,
+  performOcr,
+  performOcrStream,
+  performOcrWithLayout,
+  extractReceipt,
+  chat,
+  editImage,
+  imageGeneration,
+  generateImages,
+  isRetryableError: isRetryableGeminiError,
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { GenerationParams } from '../types';
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  describeGenerationParams,
+  getGeneratedFileName,
+  getSupportedGenerationOptions,
+} from './generationService';
+
+const params = (changes: Partial<GenerationParams> = {}): GenerationParams => ({
+  ...DEFAULT_GENERATION_OPTIONS,
+  prompt: 'a cat wearing a spacesuit on Mars',
+  provider: 'Gemini',
+  model: 'imagen-4.0-generate-001',
+  variation: 1,
+  createdAt: Date.UTC(2024, 4, 1, 12, 0),
+  ...changes,
+});
+
+describe('getSupportedGenerationOptions', () => {
+  const options = { ...DEFAULT_GENERATION_OPTIONS, numberOfImages: 9, negativePrompt: ' text ', seed: 42 };
+
+  it('drops settings the model does not take and clamps the count', () => {
+    expect(getSupportedGenerationOptions(options, { model: 'imagen', negativePrompt: false, seed: false })).toEqual({
+      ...options,
+      numberOfImages: 4,
+      negativePrompt: '',
+      seed: null,
+    });
+  });
+
+  it('keeps supported settings', () => {
+    const supported = getSupportedGenerationOptions(options, { model: 'mock', negativePrompt: true, seed: true });
+    expect(supported.negativePrompt).toBe('text');
+    expect(supported.seed).toBe(42);
+  });
+});
+
+describe('getGeneratedFileName', () => {
+  it('keeps the whole prompt when it is short and numbers variations', () => {
+    expect(getGeneratedFileName(params())).toBe('a cat wearing a spacesuit on Mars.jpg');
+    expect(getGeneratedFileName(params({ numberOfImages: 3, variation: 2, outputMimeType: 'image/png' }))).toBe('a cat wearing a spacesuit on Mars-2.png');
+  });
+
+  it('cuts long prompts at a word boundary and replaces unsafe characters', () => {
+    const name = getGeneratedFileName(params({ prompt: 'receipt: a very long and detailed prompt/description that goes on well past sixty characters' }));
+    expect(name).toBe('receipt- a very long and detailed prompt-description that.jpg');
+  });
+});
+
+describe('describeGenerationParams', () => {
+  it('lists negative prompt and seed only when set', () => {
+    expect(describeGenerationParams(params()).map(([label]) => label)).not.toContain('Seed');
+    expect(describeGenerationParams(params({ seed: 7, negativePrompt: 'text' }))).toEqual(expect.arrayContaining([
+      ['Negative prompt', 'text'],
+      ['Seed', '7'],
+    ]));
+  });
+});
@@ -0,0 +1,65 @@
+import { GenerationAspectRatio, GenerationOptions, GenerationParams } from '../types';
+import { getExtensionForMimeType } from './formatService';
+
+export const MAX_GENERATED_IMAGES = 4;
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  aspectRatio: '1:1',
+  numberOfImages: 1,
+  outputMimeType: 'image/jpeg',
+  negativePrompt: '',
+  seed: null,
+};
+
+export const ASPECT_RATIO_LABELS: Record<GenerationAspectRatio, string> = {
+  '1:1': 'Square (1:1)',
+  '3:4': 'Portrait (3:4)',
+  '4:3': 'Landscape (4:3)',
+  '9:16': 'Tall (9:16)',
+  '16:9': 'Wide (16:9)',
+};
+
+// What an image generation model accepts besides the prompt, aspect ratio, count and format.
+export interface ImageGenerationSupport {
+  model: string;
+  negativePrompt: boolean;
+  seed: boolean;
+}
+
+// Drops the settings the model can't take, so what is recorded with each image is what was sent.
+export const getSupportedGenerationOptions = (options: GenerationOptions, support: ImageGenerationSupport): GenerationOptions => ({
+  ...options,
+  numberOfImages: Math.min(MAX_GENERATED_IMAGES, Math.max(1, Math.round(options.numberOfImages))),
+  negativePrompt: support.negativePrompt ? options.negativePrompt.trim() : '',
+  seed: support.seed ? options.seed : null,
+});
+
+const MAX_FILE_NAME_PROMPT_LENGTH = 60;
+
+// Readable file name from the prompt, cut at a word boundary. Variations of one request are numbered.
+export const getGeneratedFileName = (params: Pick<GenerationParams, 'prompt' | 'variation' | 'numberOfImages' | 'outputMimeType'>): string => {
+  const cleaned = params.prompt.replace(/[\\/:"*?<>|]/g, '-').replace(/\s+/g, ' ').trim();
+  let base = cleaned;
+  if (base.length > MAX_FILE_NAME_PROMPT_LENGTH) {
+    const cut = base.slice(0, MAX_FILE_NAME_PROMPT_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    base = lastSpace > MAX_FILE_NAME_PROMPT_LENGTH / 2 ? cut.slice(0, lastSpace) : cut;
+  }
+  const suffix = params.numberOfImages > 1 ? `-${params.variation}` : '';
+  return `${base || 'generated'}${suffix}${getExtensionForMimeType(params.outputMimeType, '.jpg')}`;
+};
+
+// Label and value pairs for showing the parameters next to the image.
+export const describeGenerationParams = (params: GenerationParams): Array<[string, string]> => {
+  const fields: Array<[string, string]> = [
+    ['Prompt', params.prompt],
+    ['Model', `${params.model} (${params.provider})`],
+    ['Aspect ratio', params.aspectRatio],
+    ['Variation', `${params.variation} of ${params.numberOfImages}`],
+    ['Format', params.outputMimeType],
+  ];
+  if (params.negativePrompt) fields.push(['Negative prompt', params.negativePrompt]);
+  if (params.seed !== null) fields.push(['Seed', String(params.seed)]);
+  fields.push(['Generated', new Date(params.createdAt).toISOString()]);
+  return fields;
+};
@@ -0,0 +1,98 @@
+import { ProcessedImage, UploadedFile } from '../types';
+import { dataUrlToBlobSync } from './imageUtils';
+
+// Pure helpers for the per-file history tree. Each returns a new UploadedFile so they can be
+// used directly inside setUploadedFiles updaters.
+
+let stepCounter = 0;
+
+export const createHistoryStep = (dataUrl: string, description: string, parentId: string | null): ProcessedImage => {
+  const blob = dataUrlToBlobSync(dataUrl);
+  return {
+    id: `step-${Date.now()}-${stepCounter++}`,
+    parentId,
+    dataUrl,
+    blob,
+    objectUrl: URL.createObjectURL(blob),
+    size: blob.size,
+    description,
+    createdAt: Date.now(),
+  };
+};
+
+export const getStep = (file: UploadedFile, stepId: string | null): ProcessedImage | undefined => {
+  return stepId === null ? undefined : file.history.find(step => step.id === stepId);
+};
+
+export const getCurrentStep = (file: UploadedFile): ProcessedImage | undefined => getStep(file, file.currentStepId);
+
+export const getStepChildren = (file: UploadedFile, parentId: string | null): ProcessedImage[] => {
+  return file.history.filter(step => step.parentId === parentId);
+};
+
+// Steps from the original down to (and including) `stepId`.
+export const getStepPath = (file: UploadedFile, stepId: string | null): ProcessedImage[] => {
+  const path: ProcessedImage[] = [];
+  let step = getStep(file, stepId);
+  while (step) {
+    path.unshift(step);
+    step = getStep(file, step.parentId);
+  }
+  return path;
+};
+
+// Drops the base64 copy of the current step; the Blob stays as the cheaper source of truth.
+const evictCurrent = (file: UploadedFile): ProcessedImage[] => {
+  return file.history.map(step =>
+    step.id === file.currentStepId && step.dataUrl ? { ...step, dataUrl: '' } : step
+  );
+};
+
+export const appendStep = (file: UploadedFile, step: ProcessedImage): UploadedFile => ({
+  ...file,
+  history: [...evictCurrent(file), step],
+  currentStepId: step.id,
+  redoStack: [],
+});
+
+export const canUndo = (file: UploadedFile): boolean => file.currentStepId !== null;
+
+export const canRedo = (file: UploadedFile): boolean => file.redoStack.length > 0;
+
+export const undoStep = (file: UploadedFile): UploadedFile => {
+  const current = getCurrentStep(file);
+  if (!current) return file;
+  return {
+    ...file,
+    history: evictCurrent(file),
+    currentStepId: current.parentId,
+    redoStack: [...file.redoStack, current.id],
+  };
+};
+
+export const redoStep = (file: UploadedFile): UploadedFile => {
+  if (!canRedo(file)) return file;
+  const redoStack = file.redoStack.slice(0, -1);
+  return {
+    ...file,
+    history: evictCurrent(file),
+    currentStepId: file.redoStack[file.redoStack.length - 1],
+    redoStack,
+  };
+};
+
+// Jumping around the tree is not an undo, so the redo stack is discarded.
+export const revertToStep = (file: UploadedFile, stepId: string | null): UploadedFile => {
+  if (stepId !== null && !getStep(file, stepId)) return file;
+  if (stepId === file.currentStepId) return file;
+  return {
+    ...file,
+    history: evictCurrent(file),
+    currentStepId: stepId,
+    redoStack: [],
+  };
+};
+
+export const revokeHistoryUrls = (file: UploadedFile) => {
+  file.history.forEach(step => URL.revokeObjectURL(step.objectUrl));
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeCanvasLike, getBase64Size, getDataUrlMimeType } from './imageUtils';
+
+describe('getBase64Size', () => {
+  it('accounts for padding characters', () => {
+    expect(getBase64Size('data:text/plain;base64,aGVsbG8=')).toBe(5); // "hello"
+    expect(getBase64Size('data:text/plain;base64,aGk=')).toBe(2); // "hi"
+    expect(getBase64Size('data:text/plain;base64,YQ==')).toBe(1); // "a"
+    expect(getBase64Size('data:text/plain;base64,YWJj')).toBe(3); // "abc"
+  });
+
+  it('returns 0 for strings that are not data URLs', () => {
+    expect(getBase64Size('not a data url')).toBe(0);
+  });
+});
+
+describe('getDataUrlMimeType', () => {
+  it('reads the mime type from the header', () => {
+    expect(getDataUrlMimeType('data:image/webp;base64,AAAA')).toBe('image/webp');
+  });
+});
+
+describe('encodeCanvasLike', () => {
+  it('keeps the source format, with a fixed quality for lossy formats only', () => {
+    const toDataURL = vi.fn(() => 'data:');
+    const canvas = { toDataURL } as unknown as HTMLCanvasElement;
+    encodeCanvasLike(canvas, 'image/jpeg');
+    encodeCanvasLike(canvas, 'image/webp');
+    encodeCanvasLike(canvas, 'image/png');
+    encodeCanvasLike(canvas, 'image/heic');
+    expect(toDataURL.mock.calls).toEqual([['image/jpeg', 0.92], ['image/webp', 0.92], ['image/png'], ['image/png']]);
+  });
+});
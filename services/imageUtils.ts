@@ -0,0 +1,89 @@
+// Shared helpers for working with data URLs and canvases in the browser.
+
+export const LOSSY_MIME_TYPES = ['image/jpeg', 'image/webp', 'image/avif'];
+// AVIF is left out on purpose: only some browsers can encode it from a canvas.
+const CANVAS_ENCODABLE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Efficiently and synchronously calculate size from a data URL.
+export function getBase64Size(dataUrl: string): number {
+    const base64Index = dataUrl.indexOf(',');
+    if (base64Index === -1) return 0;
+
+    const base64 = dataUrl.substring(base64Index + 1);
+
+    let padding = 0;
+    if (base64.endsWith('==')) {
+        padding = 2;
+    } else if (base64.endsWith('=')) {
+        padding = 1;
+    }
+
+    return (base64.length * 3 / 4) - padding;
+}
+
+// Synchronous counterpart of `fetch(dataUrl).blob()`, usable inside state updaters.
+export const dataUrlToBlobSync = (dataUrl: string): Blob => {
+    const commaIndex = dataUrl.indexOf(',');
+    if (!dataUrl.startsWith('data:') || commaIndex === -1) {
+        throw new Error('Invalid data URL format.');
+    }
+    const meta = dataUrl.substring(5, commaIndex);
+    const payload = dataUrl.substring(commaIndex + 1);
+    const mimeType = meta.split(';')[0] || 'application/octet-stream';
+
+    if (!meta.endsWith(';base64')) {
+        return new Blob([decodeURIComponent(payload)], { type: mimeType });
+    }
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const getDataUrlMimeType = (dataUrl: string): string => {
+    const match = dataUrl.match(/^data:([^;,]+)[;,]/);
+    return match ? match[1] : '';
+};
+
+// Canvas can only encode a handful of formats; anything else falls back to PNG.
+export const getCanvasOutputMimeType = (mimeType: string): string => {
+    return CANVAS_ENCODABLE_MIME_TYPES.includes(mimeType) ? mimeType : 'image/png';
+};
+
+// Quality for lossy images re-encoded after a local edit, high enough to keep small print sharp.
+// Browsers default WebP to a much lower quality, which would add up over a chain of edits.
+const LOSSY_EDIT_QUALITY: Record<string, number> = {
+    'image/jpeg': 0.92,
+    'image/webp': 0.92,
+};
+
+// Encodes a local edit in the format of the image it was made from, or PNG where the canvas can't.
+export const encodeCanvasLike = (canvas: HTMLCanvasElement, sourceMimeType: string): string => {
+    const mimeType = getCanvasOutputMimeType(sourceMimeType);
+    const quality = LOSSY_EDIT_QUALITY[mimeType];
+    return quality === undefined ? canvas.toDataURL(mimeType) : canvas.toDataURL(mimeType, quality);
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to decode image.'));
+        image.src = src;
+    });
+};
+
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available in this browser.');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    return { canvas, ctx };
+};
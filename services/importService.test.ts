@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { describeSource, getImportKind, getPdfRenderScale } from './importService';
+
+describe('getImportKind', () => {
+  it('recognises formats by mime type or extension', () => {
+    expect(getImportKind(new File([], 'IMG_0001.HEIC'))).toBe('heic');
+    expect(getImportKind(new File([], 'scan', { type: 'image/tiff' }))).toBe('tiff');
+    expect(getImportKind(new File([], 'invoice.pdf'))).toBe('pdf');
+    expect(getImportKind(new File([], 'photo.jpg', { type: 'image/jpeg' }))).toBe('image');
+    expect(getImportKind(new File([], 'notes.txt', { type: 'text/plain' }))).toBeNull();
+  });
+});
+
+describe('getPdfRenderScale', () => {
+  it('renders at 200 DPI unless the page is very large', () => {
+    expect(getPdfRenderScale(595, 842)).toBeCloseTo(200 / 72, 6);
+    expect(getPdfRenderScale(2000, 3000) * 3000).toBeCloseTo(4000, 6);
+  });
+});
+
+describe('describeSource', () => {
+  it('names the page for multi-page documents', () => {
+    const source = { id: 'doc', name: 'invoice.pdf', mimeType: 'application/pdf', page: 2, pageCount: 5 };
+    expect(describeSource(source)).toBe('invoice.pdf, page 2 of 5');
+    expect(describeSource({ ...source, name: 'IMG_1.heic', page: 1, pageCount: 1 })).toBe('Converted from IMG_1.heic');
+  });
+});
@@ -0,0 +1,180 @@
+import { ImageMetadata, SourceDocument } from '../types';
+import { blobToArrayBuffer, getFileNameParts } from './fileUtils';
+import { parseImageMetadata, readImageMetadata } from './exifService';
+import { createCanvas } from './imageUtils';
+
+// Turns every supported upload into one or more images the browser can decode. HEIC photos are
+// converted with libheif and TIFF pages with ImageMagick (both WASM), and each page of a TIFF or
+// PDF becomes its own image that remembers the document and page it came from. The decoders are
+// bundled and loaded on first use.
+
+export interface ImportedImage {
+  file: File;
+  source: SourceDocument | null; // Null for images the browser opens directly
+  metadata: ImageMetadata | null;
+}
+
+export type ImportKind = 'image' | 'heic' | 'tiff' | 'pdf';
+
+export const IMPORT_ACCEPT = 'image/*,.heic,.heif,.tif,.tiff,.pdf,application/pdf';
+
+// Pages are rendered at this resolution, capped so a poster-sized page doesn't exhaust memory.
+const PDF_RENDER_DPI = 200;
+const PDF_MAX_EDGE = 4000;
+const HEIC_QUALITY = 0.92;
+
+export const getImportKind = (file: File): ImportKind | null => {
+  const type = file.type.toLowerCase();
+  const extension = getFileNameParts(file.name).extension.toLowerCase();
+  if (type === 'image/heic' || type === 'image/heif' || extension === '.heic' || extension === '.heif') return 'heic';
+  if (type === 'image/tiff' || extension === '.tif' || extension === '.tiff') return 'tiff';
+  if (type === 'application/pdf' || extension === '.pdf') return 'pdf';
+  if (type.startsWith('image/')) return 'image';
+  return null;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the page as PNG.'))), 'image/png');
+  });
+
+const createSource = (file: File, page: number, pageCount: number, id: string): SourceDocument => ({
+  id,
+  name: file.name,
+  mimeType: file.type || 'application/octet-stream',
+  page,
+  pageCount,
+});
+
+const pageFileName = (file: File, page: number, pageCount: number, extension: string) => {
+  const { baseName } = getFileNameParts(file.name);
+  return pageCount > 1 ? `${baseName}_p${page}${extension}` : `${baseName}${extension}`;
+};
+
+type Importer = (file: File, buffer: ArrayBuffer, documentId: string) => Promise<ImportedImage[]>;
+
+// --- TIFF ---
+
+let magickPromise: Promise<typeof import('@imagemagick/magick-wasm')> | null = null;
+
+const loadMagick = () => {
+  magickPromise ??= Promise.all([
+    import('@imagemagick/magick-wasm'),
+    import('@imagemagick/magick-wasm/magick.wasm?url'),
+  ]).then(async ([magick, wasm]) => {
+    await magick.initializeImageMagick(new URL(wasm.default, window.location.href));
+    return magick;
+  });
+  return magickPromise;
+};
+
+const importTiff: Importer = async (file, buffer, documentId) => {
+  const { MagickFormat, MagickImageCollection } = await loadMagick();
+  const pages = MagickImageCollection.create(new Uint8Array(buffer));
+  try {
+    return pages.map((page, index) => {
+      page.autoOrient();
+      // The PNG bytes live in WASM memory and are freed after the callback, so they are copied out.
+      const blob = page.write(MagickFormat.Png, data => new Blob([data.slice()], { type: 'image/png' }));
+      return {
+        file: new File([blob], pageFileName(file, index + 1, pages.length, '.png'), { type: 'image/png' }),
+        source: createSource(file, index + 1, pages.length, documentId),
+        metadata: null,
+      };
+    });
+  } finally {
+    pages.dispose();
+  }
+};
+
+// --- PDF ---
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+const loadPdfjs = () => {
+  pdfjsPromise ??= Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]).then(([pdfjs, worker]) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+    return pdfjs;
+  });
+  return pdfjsPromise;
+};
+
+export const getPdfRenderScale = (pageWidthPt: number, pageHeightPt: number): number => {
+  const scale = PDF_RENDER_DPI / 72;
+  return Math.min(scale, PDF_MAX_EDGE / Math.max(pageWidthPt, pageHeightPt));
+};
+
+const importPdf: Importer = async (file, buffer, documentId) => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+  try {
+    const images: ImportedImage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: getPdfRenderScale(unscaled.width, unscaled.height) });
+      const { canvas, ctx } = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      // PDF pages are transparent by default; OCR and JPEG export expect paper white.
+      ctx.fillStyle = 'white';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+      const blob = await canvasToBlob(canvas);
+      images.push({
+        file: new File([blob], pageFileName(file, pageNumber, pdf.numPages, '.png'), { type: 'image/png' }),
+        source: createSource(file, pageNumber, pdf.numPages, documentId),
+        metadata: null,
+      });
+    }
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// --- HEIC ---
+
+const importHeic: Importer = async (file, _buffer, documentId) => {
+  const { heicTo } = await import('heic-to');
+  const blob = await heicTo({ blob: file, type: 'image/jpeg', quality: HEIC_QUALITY });
+  return [{
+    file: new File([blob], pageFileName(file, 1, 1, '.jpg'), { type: 'image/jpeg' }),
+    source: createSource(file, 1, 1, documentId),
+    metadata: null,
+  }];
+};
+
+export const importFile = async (file: File): Promise<ImportedImage[]> => {
+  const kind = getImportKind(file);
+  if (!kind) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+  if (kind === 'image') {
+    const metadata = await readImageMetadata(file).catch(error => {
+      console.warn(`Could not read metadata of ${file.name}:`, error);
+      return null;
+    });
+    return [{ file, source: null, metadata }];
+  }
+
+  const buffer = await blobToArrayBuffer(file);
+  const documentId = `${file.name}-${Date.now()}`;
+  const importers: Record<Exclude<ImportKind, 'image'>, Importer> = { heic: importHeic, tiff: importTiff, pdf: importPdf };
+  const images = await importers[kind](file, buffer, documentId);
+  if (images.length === 0) {
+    throw new Error(`${file.name} contains no pages.`);
+  }
+  // The converted pages carry no EXIF, so the first one keeps what the original file had. The
+  // decoders have already applied the orientation, so it must not be applied again.
+  if (kind !== 'pdf') {
+    const metadata = parseImageMetadata(new Uint8Array(buffer));
+    images[0].metadata = metadata && { ...metadata, orientation: null };
+  }
+  return images;
+};
+
+export const describeSource = (source: SourceDocument): string =>
+  source.pageCount > 1 ? `${source.name}, page ${source.page} of ${source.pageCount}` : `Converted from ${source.name}`;
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JobItem, JobQueueOptions, JobWorker, createJobQueue, getBackoffDelay } from './jobQueue';
+
+const FAST_OPTIONS: JobQueueOptions = { concurrency: 2, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+const items = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `f${i}`, label: `file ${i}.png` }));
+
+const statuses = (result: JobItem[]) => Object.fromEntries(result.map(item => [item.id, item.status]));
+
+const createQueue = (count: number, worker: JobWorker, options: Partial<JobQueueOptions> = {}, isRetryable: (error: unknown) => boolean = () => true) =>
+  createJobQueue(items(count), worker, { ...FAST_OPTIONS, ...options }, { onChange: () => {}, isRetryable });
+
+// Resolves the next time `check` passes, polling on the macrotask queue.
+const until = async (check: () => boolean) => {
+  while (!check()) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+describe('getBackoffDelay', () => {
+  it('doubles up to the maximum and jitters within the upper half', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(getBackoffDelay(0, options, () => 0)).toBe(500);
+    expect(getBackoffDelay(2, options, () => 1)).toBe(4000);
+    expect(getBackoffDelay(10, options, () => 1)).toBe(5000);
+  });
+});
+
+describe('createJobQueue', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    let running = 0;
+    let peak = 0;
+    const result = await createQueue(5, async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+    }).run();
+
+    expect(peak).toBe(2);
+    expect(result.every(item => item.status === 'done')).toBe(true);
+  });
+
+  it('retries transient errors with backoff and fails the rest without stopping the batch', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const attempts: Record<string, number> = {};
+    const result = await createQueue(3, async (id, { retry }) => {
+      await retry(async () => {
+        attempts[id] = (attempts[id] ?? 0) + 1;
+        if (id === 'f0' && attempts[id] < 3) throw new Error('503');
+        if (id === 'f1') throw new Error('400');
+      });
+    }, { concurrency: 1 }, (error) => error instanceof Error && error.message === '503').run();
+
+    expect(statuses(result)).toEqual({ f0: 'done', f1: 'failed', f2: 'done' });
+    expect(result[0].retries).toBe(2);
+    expect(attempts.f1).toBe(1);
+    expect(result[1].error).toBe('400');
+  });
+
+  it('removes its abort listener once a backoff delay is over', async () => {
+    let signal: AbortSignal | null = null;
+    const queue = createQueue(1, async (_id, context) => {
+      signal = context.signal;
+      vi.spyOn(signal, 'addEventListener');
+      vi.spyOn(signal, 'removeEventListener');
+      let failures = 0;
+      await context.retry(async () => {
+        if (failures++ < 2) throw new Error('503');
+      });
+    });
+    await queue.run();
+
+    expect(vi.mocked(signal!.addEventListener)).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(signal!.removeEventListener)).toHaveBeenCalledTimes(2);
+  });
+
+  it('starts no new jobs while paused', async () => {
+    const started: string[] = [];
+    let queue: ReturnType<typeof createQueue> | null = null;
+    queue = createQueue(3, async id => {
+      started.push(id);
+      if (id === 'f0') queue!.pause();
+    }, { concurrency: 1 });
+    const done = queue.run();
+
+    await until(() => started.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(started).toEqual(['f0']);
+
+    queue.resume();
+    expect(statuses(await done)).toEqual({ f0: 'done', f1: 'done', f2: 'done' });
+  });
+
+  it('skips the running and queued jobs on cancel with the given reason', async () => {
+    let queue: ReturnType<typeof createQueue> | null = null;
+    queue = createQueue(3, async (id, { signal }) => {
+      if (id !== 'f0') return;
+      queue!.cancel('Spending limit reached');
+      signal.throwIfAborted();
+    }, { concurrency: 1 });
+    const result = await queue.run();
+
+    expect(statuses(result)).toEqual({ f0: 'skipped', f1: 'skipped', f2: 'skipped' });
+    expect(result.every(item => item.error === 'Spending limit reached')).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+// A small in-memory job queue for batch operations: bounded parallelism, per-call retry with
+// exponential backoff, and pause / resume / cancel. It knows nothing about React; callers get
+// a fresh snapshot of every item through `onChange` whenever something moves.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface JobItem {
+  id: string;
+  label: string;
+  status: JobStatus;
+  message?: string; // Current stage or retry notice while running
+  error?: string; // Why the job failed or was skipped
+  retries: number;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  setStage: (message: string) => void;
+  // Runs one API call, retrying it with backoff when `isRetryable` says the error is transient.
+  retry: <T>(operation: () => Promise<T>) => Promise<T>;
+}
+
+export type JobWorker = (id: string, context: JobContext) => Promise<void>;
+
+export interface JobQueue {
+  run: () => Promise<JobItem[]>;
+  pause: () => void;
+  resume: () => void;
+  cancel: (reason?: string) => void; // The reason is shown on every item that gets skipped
+}
+
+export const DEFAULT_JOB_QUEUE_OPTIONS: JobQueueOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Full jitter keeps parallel lanes from hammering the API in lockstep after a shared 429.
+export const getBackoffDelay = (attempt: number, options: Pick<JobQueueOptions, 'baseDelayMs' | 'maxDelayMs'>, random = Math.random) => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+};
+
+export const createJobQueue = (
+  items: Array<{ id: string; label: string }>,
+  worker: JobWorker,
+  options: JobQueueOptions,
+  callbacks: {
+    onChange: (items: JobItem[]) => void;
+    isRetryable: (error: unknown) => boolean;
+  }
+): JobQueue => {
+  let state: JobItem[] = items.map(item => ({ ...item, status: 'queued', retries: 0 }));
+  let paused = false;
+  let cancelReason: string | undefined;
+  const controller = new AbortController();
+  const claimed = new Set<string>();
+  let resumeWaiters: Array<() => void> = [];
+
+  const emit = () => callbacks.onChange(state.map(item => ({ ...item })));
+
+  const update = (id: string, changes: Partial<JobItem>) => {
+    state = state.map(item => (item.id === id ? { ...item, ...changes } : item));
+    emit();
+  };
+
+  const wakeAll = () => {
+    resumeWaiters.forEach(wake => wake());
+    resumeWaiters = [];
+  };
+
+  // The abort listener is removed when the timer fires, so many retries don't pile up listeners.
+  const sleep = (ms: number) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Cancelled'));
+    };
+    const timer = setTimeout(() => {
+      controller.signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    controller.signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const runJob = async (item: JobItem) => {
+    const context: JobContext = {
+      signal: controller.signal,
+      setStage: (message) => update(item.id, { message }),
+      retry: async (operation) => {
+        for (let attempt = 0; ; attempt++) {
+          try {
+            return await operation();
+          } catch (error) {
+            if (controller.signal.aborted || attempt >= options.maxRetries || !callbacks.isRetryable(error)) {
+              throw error;
+            }
+            const delay = getBackoffDelay(attempt, options);
+            update(item.id, {
+              retries: attempt + 1,
+              message: `Retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 2}/${options.maxRetries + 1})`,
+            });
+            await sleep(delay);
+          }
+        }
+      },
+    };
+
+    update(item.id, { status: 'running', message: undefined, error: undefined });
+    try {
+      await worker(item.id, context);
+      update(item.id, { status: 'done', message: undefined });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        update(item.id, { status: 'skipped', message: undefined, error: cancelReason ?? 'Cancelled' });
+      } else {
+        console.error(`Job ${item.label} failed:`, error);
+        update(item.id, { status: 'failed', message: undefined, error: errorMessage(error) });
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (true) {
+      while (paused && !controller.signal.aborted) {
+        await new Promise<void>(resolve => resumeWaiters.push(resolve));
+      }
+      if (controller.signal.aborted) return;
+      const next = state.find(item => item.status === 'queued' && !claimed.has(item.id));
+      if (!next) return;
+      claimed.add(next.id);
+      await runJob(next);
+    }
+  };
+
+  return {
+    run: async () => {
+      emit();
+      const laneCount = Math.max(1, Math.min(options.concurrency, state.length));
+      await Promise.all(Array.from({ length: laneCount }, lane));
+      state = state.map(item =>
+        item.status === 'queued' ? { ...item, status: 'skipped', error: cancelReason ?? 'Cancelled before it started' } : item
+      );
+      emit();
+      return state;
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      wakeAll();
+    },
+    cancel: (reason) => {
+      if (!controller.signal.aborted) cancelReason = reason;
+      controller.abort();
+      wakeAll();
+    },
+  };
+};
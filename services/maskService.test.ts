@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { blendMasked, featherMask, toImagePixels } from './maskService';
+
+describe('toImagePixels', () => {
+  it('measures against the longer side', () => {
+    expect(toImagePixels(2, 400, 1000)).toBe(20);
+    expect(toImagePixels(2, 1000, 400)).toBe(20);
+  });
+});
+
+describe('featherMask', () => {
+  const width = 20;
+  const height = 1;
+  const hardEdge = new Float32Array(width).map((_, x) => (x < 10 ? 1 : 0));
+
+  it('leaves the mask untouched when the radius is too small to blur', () => {
+    expect(featherMask(hardEdge, width, height, 1)).toBe(hardEdge);
+  });
+
+  it('softens a hard edge into a ramp', () => {
+    const feathered = featherMask(hardEdge, width, height, 6);
+    expect(feathered[0]).toBeCloseTo(1);
+    expect(feathered[19]).toBeCloseTo(0);
+    expect(feathered[9]).toBeGreaterThan(0.5);
+    expect(feathered[9]).toBeLessThan(1);
+    expect(feathered[10]).toBeGreaterThan(0);
+    expect(feathered[10]).toBeLessThan(0.5);
+    for (let x = 1; x < width; x++) expect(feathered[x]).toBeLessThanOrEqual(feathered[x - 1] + 1e-6);
+  });
+});
+
+describe('blendMasked', () => {
+  it('keeps unmasked pixels and mixes partly masked ones', () => {
+    const original = new Uint8ClampedArray([10, 20, 30, 255, 10, 20, 30, 255, 10, 20, 30, 255]);
+    const edited = new Uint8ClampedArray([210, 220, 230, 255, 210, 220, 230, 255, 210, 220, 230, 255]);
+    const blended = blendMasked(original, edited, new Float32Array([0, 0.5, 1]));
+    expect(Array.from(blended)).toEqual([10, 20, 30, 255, 110, 120, 130, 255, 210, 220, 230, 255]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { Point } from './deskewService';
+import { boxMean } from './enhanceService';
+import { createCanvas, encodeCanvasLike, getDataUrlMimeType, loadImage } from './imageUtils';
+
+// Region-limited edits: the user paints a mask over the image, the model gets the mask alongside
+// the prompt, and the model's output is blended back over the original through the feathered
+// mask. Feathering softens the edge over a band on both sides of the painted outline; beyond that
+// band the original pixels are kept exactly, whatever the model changed.
+
+export type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+export interface MaskShape {
+  tool: MaskTool;
+  points: Point[]; // Image pixel coordinates
+  radius: number; // Brush and eraser radius in image pixels; unused for lasso
+}
+
+// Brush size and feather are set as a share of the image's longer side, so the same settings
+// behave alike on a phone photo and a flatbed scan.
+export const toImagePixels = (percent: number, width: number, height: number) => (percent / 100) * Math.max(width, height);
+
+export const drawMaskShapes = (ctx: CanvasRenderingContext2D, shapes: MaskShape[]) => {
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const shape of shapes) {
+    if (shape.points.length === 0) continue;
+    ctx.globalCompositeOperation = shape.tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.beginPath();
+    if (shape.tool !== 'lasso' && shape.points.length === 1) {
+      ctx.arc(shape.points[0].x, shape.points[0].y, shape.radius, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    ctx.moveTo(shape.points[0].x, shape.points[0].y);
+    shape.points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    if (shape.tool === 'lasso') {
+      ctx.closePath();
+      ctx.fill();
+    } else {
+      ctx.lineWidth = shape.radius * 2;
+      ctx.stroke();
+    }
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+// Coverage of each pixel from 0 to 1.
+export const rasterizeMask = (shapes: MaskShape[], width: number, height: number): Float32Array => {
+  const { ctx } = createCanvas(width, height);
+  drawMaskShapes(ctx, shapes);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const alpha = new Float32Array(width * height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = rgba[i * 4 + 3] / 255;
+  return alpha;
+};
+
+// Three box blurs approximate a Gaussian whose edge spreads over about `radius` pixels each way.
+export const featherMask = (alpha: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const boxRadius = Math.round(radius / 3);
+  if (boxRadius < 1) return alpha;
+  let blurred = alpha;
+  for (let pass = 0; pass < 3; pass++) blurred = boxMean(blurred, width, height, boxRadius);
+  return blurred;
+};
+
+// Mixes the edited pixels into the original in proportion to the mask.
+export const blendMasked = (original: Uint8ClampedArray, edited: Uint8ClampedArray, alpha: Float32Array): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(original.length);
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+    for (let c = 0; c < 4; c++) {
+      const index = i * 4 + c;
+      out[index] = original[index] + (edited[index] - original[index]) * a;
+    }
+  }
+  return out;
+};
+
+// White where the model may make changes, black elsewhere; sent to the model with the prompt.
+export const renderMaskDataUrl = (shapes: MaskShape[], width: number, height: number): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+  drawMaskShapes(ctx, shapes);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+// The model may answer at a different size; its output is scaled to the original's before blending.
+export const compositeMaskedEdit = async (
+  originalDataUrl: string,
+  editedDataUrl: string,
+  shapes: MaskShape[],
+  featherRadius: number
+): Promise<string> => {
+  const [original, edited] = await Promise.all([loadImage(originalDataUrl), loadImage(editedDataUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(edited, 0, 0, width, height);
+  const editedPixels = ctx.getImageData(0, 0, width, height);
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(original, 0, 0);
+  const originalPixels = ctx.getImageData(0, 0, width, height);
+
+  const alpha = featherMask(rasterizeMask(shapes, width, height), width, height, featherRadius);
+  originalPixels.data.set(blendMasked(originalPixels.data, editedPixels.data, alpha));
+  ctx.putImageData(originalPixels, 0, 0);
+  return encodeCanvasLike(canvas, getDataUrlMimeType(originalDataUrl));
+};
@@ -0,0 +1,188 @@
+import { GenerationOptions, OcrLayout, OcrWord, ReceiptData } from '../types';
+import type { ChatTurn, ImageAIProvider, TextStreamOptions } from './aiService';
+import { buildOcrLayout } from './ocrLayout';
+import { createCanvas, encodeCanvasLike, getDataUrlMimeType, loadImage } from './imageUtils';
+
+// Offline stand-in for the AI backend. Every result is derived locally and deterministically from
+// the input, so the app can be developed and tested end to end without an API key or network.
+
+export const MOCK_OCR_TEXT = `MOCK MARKET
+123 Test Street, Springfield
+2024-03-15 14:32
+
+Coffee beans 1kg        18.50
+Oat milk x2              5.00
+Croissant                3.25
+
+SUBTOTAL                26.75
+TAX 8%                   2.14
+TOTAL                   28.89
+
+THANK YOU FOR SHOPPING`;
+
+export const MOCK_RECEIPT: ReceiptData = {
+  merchant: 'Mock Market',
+  address: '123 Test Street, Springfield',
+  date: '2024-03-15',
+  currency: 'USD',
+  lineItems: [
+    { description: 'Coffee beans 1kg', quantity: 1, unitPrice: 18.5, amount: 18.5 },
+    { description: 'Oat milk', quantity: 2, unitPrice: 2.5, amount: 5 },
+    { description: 'Croissant', quantity: 1, unitPrice: 3.25, amount: 3.25 },
+  ],
+  subtotal: 26.75,
+  taxes: [{ label: 'Tax', rate: 8, amount: 2.14 }],
+  tip: null,
+  total: 28.89,
+};
+
+// Lays the mock text out like a monospaced receipt filling the image. Blank lines separate blocks,
+// and prices get a low confidence so the review highlighting has something to show.
+export const buildMockOcrLayout = (text: string = MOCK_OCR_TEXT): OcrLayout => {
+  const lines = text.split('\n');
+  const lineHeight = 0.9 / lines.length;
+  const charWidth = 0.9 / Math.max(...lines.map(line => line.length));
+  const blocks: Array<Array<Array<Omit<OcrWord, 'id'>>>> = [[]];
+
+  lines.forEach((line, row) => {
+    if (!line.trim()) {
+      blocks.push([]);
+      return;
+    }
+    const words = Array.from(line.matchAll(/\S+/g), match => ({
+      text: match[0],
+      box: { x: 0.05 + match.index! * charWidth, y: 0.05 + row * lineHeight, width: match[0].length * charWidth, height: lineHeight * 0.8 },
+      confidence: /^\d+\.\d{2}$/.test(match[0]) ? 0.55 : 0.97,
+    }));
+    blocks[blocks.length - 1].push(words);
+  });
+  return buildOcrLayout(blocks);
+};
+
+// Small stable hash so generated images differ per prompt but never between runs.
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const transformImage = async (
+  imageDataUrl: string,
+  draw: (ctx: CanvasRenderingContext2D, image: HTMLImageElement, canvas: HTMLCanvasElement) => void,
+  size?: (image: HTMLImageElement) => { width: number; height: number }
+): Promise<string> => {
+  const image = await loadImage(imageDataUrl);
+  const { width, height } = size ? size(image) : { width: image.naturalWidth, height: image.naturalHeight };
+  const { canvas, ctx } = createCanvas(width, height);
+  draw(ctx, image, canvas);
+  return encodeCanvasLike(canvas, getDataUrlMimeType(imageDataUrl));
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, text: string) => {
+  const fontSize = Math.max(12, Math.round(canvas.width / 30));
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, canvas.height - fontSize * 2, canvas.width, fontSize * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, fontSize / 2, canvas.height - fontSize, canvas.width - fontSize);
+};
+
+// Crops a fixed 5% margin, standing in for "de-skew and crop to the receipt".
+const preprocessImage = (imageDataUrl: string) => transformImage(
+  imageDataUrl,
+  (ctx, image, canvas) => {
+    const marginX = image.naturalWidth * 0.05;
+    const marginY = image.naturalHeight * 0.05;
+    ctx.drawImage(image, marginX, marginY, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  },
+  image => ({ width: image.naturalWidth * 0.9, height: image.naturalHeight * 0.9 })
+);
+
+// Fixed-threshold black and white, standing in for the model's high-contrast rendering.
+const enhanceForOcr = (imageDataUrl: string) => transformImage(imageDataUrl, (ctx, image, canvas) => {
+  ctx.drawImage(image, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    const value = luminance > 140 ? 255 : 0;
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+  ctx.putImageData(pixels, 0, 0);
+});
+
+// A masked edit tints the whole frame; the caller's compositing then shows it only inside the mask.
+const editImage = (imageDataUrl: string, prompt: string, maskDataUrl?: string) => transformImage(imageDataUrl, (ctx, image, canvas) => {
+  ctx.drawImage(image, 0, 0);
+  if (maskDataUrl) {
+    ctx.fillStyle = 'rgba(255, 0, 128, 0.35)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  drawCaption(ctx, canvas, `[mock edit] ${prompt}`);
+});
+
+const MOCK_IMAGE_LONG_EDGE = 512;
+
+// One gradient per variation. The seed shifts the colours, so the same prompt and seed repeat exactly.
+const generateImages = async (prompt: string, options: GenerationOptions): Promise<string[]> => {
+  const [ratioWidth, ratioHeight] = options.aspectRatio.split(':').map(Number);
+  const scale = MOCK_IMAGE_LONG_EDGE / Math.max(ratioWidth, ratioHeight);
+  const width = Math.round(ratioWidth * scale);
+  const height = Math.round(ratioHeight * scale);
+  return Array.from({ length: options.numberOfImages }, (_, index) => {
+    const hue = hashString(`${prompt}|${options.seed ?? ''}|${index}`) % 360;
+    const { canvas, ctx } = createCanvas(width, height);
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 60%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 90) % 360}, 60%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    drawCaption(ctx, canvas, `[mock] ${prompt}${options.negativePrompt ? ` (without ${options.negativePrompt})` : ''}`);
+    return canvas.toDataURL(options.outputMimeType, 0.9);
+  });
+};
+
+// Delay between streamed words, slow enough to watch the text arrive and to stop it midway.
+const MOCK_STREAM_DELAY_MS = 40;
+
+// Sends the text a word at a time, like a streamed model response.
+const streamMockText = async (text: string, { signal, onText }: TextStreamOptions, delayMs = MOCK_STREAM_DELAY_MS): Promise<string> => {
+  const chunks = text.match(/\S+\s*/g) ?? [];
+  let sent = '';
+  for (const chunk of chunks) {
+    if (signal.aborted) break;
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    if (signal.aborted) break;
+    sent += chunk;
+    onText(sent);
+  }
+  return sent;
+};
+
+const mockAnalysis = (prompt: string) =>
+  `Mock analysis for prompt: "${prompt}"\n\nThe image appears to be a receipt from Mock Market totalling 28.89 USD.`;
+
+const mockChatReply = (turns: ChatTurn[]) => {
+  const images = turns.reduce((count, turn) => count + turn.images.length, 0);
+  return `${mockAnalysis(turns[turns.length - 1]?.text ?? '')}\n\n(${turns.length} turns and ${images} images in this conversation.)`;
+};
+
+export const mockProvider: ImageAIProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  preprocessImage,
+  enhanceForOcr,
+  performOcr: async () => MOCK_OCR_TEXT,
+  performOcrStream: (_imageDataUrl, options) => streamMockText(MOCK_OCR_TEXT, options),
+  performOcrWithLayout: async () => buildMockOcrLayout(),
+  extractReceipt: async () => MOCK_RECEIPT,
+  chat: (turns, options) => streamMockText(mockChatReply(turns), options),
+  editImage,
+  imageGeneration: { model: 'mock-gradient', negativePrompt: true, seed: true },
+  generateImages,
+  isRetryableError: () => false,
+};
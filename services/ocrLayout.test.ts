@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { boxFrom1000Grid, buildOcrLayout, getLayoutWords, isLowConfidence, layoutToText } from './ocrLayout';
+
+const closeBox = (x: number, y: number, width: number, height: number) => ({
+  x: expect.closeTo(x), y: expect.closeTo(y), width: expect.closeTo(width), height: expect.closeTo(height),
+});
+
+const word = (text: string, x: number, y: number, confidence: number | null = 0.9) => ({
+  text,
+  box: { x, y, width: 0.1, height: 0.05 },
+  confidence,
+});
+
+describe('buildOcrLayout', () => {
+  const layout = buildOcrLayout([
+    [[word('Cafe', 0.1, 0.1), word('Nero', 0.25, 0.1)], [], [word('London', 0.1, 0.2)]],
+    [],
+    [[word('Total', 0.1, 0.8), word('4.20', 0.6, 0.8, 0.4)]],
+  ]);
+
+  it('drops empty lines and blocks and gives every word a unique id', () => {
+    expect(layout.blocks).toHaveLength(2);
+    const ids = getLayoutWords(layout).map(w => w.id);
+    expect(ids).toEqual(['0-0-0', '0-0-1', '0-1-0', '2-0-0', '2-0-1']);
+  });
+
+  it('derives line and block boxes from their words', () => {
+    expect(layout.blocks[0].lines[0].box).toEqual(closeBox(0.1, 0.1, 0.25, 0.05));
+    expect(layout.blocks[0].box).toEqual(closeBox(0.1, 0.1, 0.25, 0.15));
+  });
+
+  it('joins the words back into plain text in reading order', () => {
+    expect(layoutToText(layout)).toBe('Cafe Nero\nLondon\n\nTotal 4.20');
+  });
+});
+
+describe('isLowConfidence', () => {
+  it('flags words below the threshold but not words without a score', () => {
+    expect(isLowConfidence({ ...word('a', 0, 0, 0.4), id: '1' })).toBe(true);
+    expect(isLowConfidence({ ...word('a', 0, 0, 0.95), id: '1' })).toBe(false);
+    expect(isLowConfidence({ ...word('a', 0, 0, null), id: '1' })).toBe(false);
+  });
+});
+
+describe('boxFrom1000Grid', () => {
+  it('converts [ymin, xmin, ymax, xmax] to a clamped fractional box', () => {
+    expect(boxFrom1000Grid([100, 200, 300, 600])).toEqual(closeBox(0.2, 0.1, 0.4, 0.2));
+    expect(boxFrom1000Grid([-50, 900, 100, 1200])).toEqual(closeBox(0.9, 0, 0.1, 0.1));
+    expect(boxFrom1000Grid([1, 2, 3])).toBeNull();
+  });
+});
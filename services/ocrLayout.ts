@@ -0,0 +1,57 @@
+import { OcrBlock, OcrBox, OcrLayout, OcrLine, OcrWord } from '../types';
+
+// Helpers for OCR results with word positions. Providers return words grouped into lines and
+// blocks; the line and block boxes are derived from the words they contain.
+
+// Words the model is less sure about than this are flagged for review.
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const isLowConfidence = (word: OcrWord): boolean =>
+  word.confidence !== null && word.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+const EMPTY_BOX: OcrBox = { x: 0, y: 0, width: 0, height: 0 };
+
+export const unionBoxes = (boxes: OcrBox[]): OcrBox => {
+  if (boxes.length === 0) return EMPTY_BOX;
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Builds a layout from words grouped as blocks -> lines -> words, assigning ids and derived boxes.
+// Empty lines and blocks are dropped.
+export const buildOcrLayout = (blocks: Array<Array<Array<Omit<OcrWord, 'id'>>>>): OcrLayout => ({
+  blocks: blocks
+    .map((lines, blockIndex): OcrBlock => {
+      const builtLines = lines
+        .filter(words => words.length > 0)
+        .map((words, lineIndex): OcrLine => {
+          const withIds = words.map((word, wordIndex) => ({ ...word, id: `${blockIndex}-${lineIndex}-${wordIndex}` }));
+          return { box: unionBoxes(withIds.map(w => w.box)), words: withIds };
+        });
+      return { box: unionBoxes(builtLines.map(l => l.box)), lines: builtLines };
+    })
+    .filter(block => block.lines.length > 0),
+});
+
+export const getLayoutWords = (layout: OcrLayout): OcrWord[] =>
+  layout.blocks.flatMap(block => block.lines.flatMap(line => line.words));
+
+// Plain text reading order: words joined by spaces, lines by newlines, blocks by a blank line.
+export const layoutToText = (layout: OcrLayout): string =>
+  layout.blocks
+    .map(block => block.lines.map(line => line.words.map(word => word.text).join(' ')).join('\n'))
+    .join('\n\n');
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Gemini reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+export const boxFrom1000Grid = (box: number[]): OcrBox | null => {
+  if (box.length !== 4 || box.some(v => typeof v !== 'number' || !Number.isFinite(v))) return null;
+  const [ymin, xmin, ymax, xmax] = box.map(v => clamp01(v / 1000));
+  const top = Math.min(ymin, ymax);
+  const left = Math.min(xmin, xmax);
+  return { x: left, y: top, width: Math.abs(xmax - xmin), height: Math.abs(ymax - ymin) };
+};
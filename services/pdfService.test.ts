@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PDF_EXPORT_OPTIONS, buildPdf, encodeWinAnsi, getPageLayout } from './pdfService';
+
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+describe('encodeWinAnsi', () => {
+  it('keeps Latin-1 and maps Windows-1252 extras', () => {
+    expect(encodeWinAnsi('Aé€')).toEqual([0x41, 0xe9, 0x80]);
+  });
+
+  it('replaces characters outside WinAnsi', () => {
+    expect(encodeWinAnsi('日\t')).toEqual([0x3f, 0x3f]);
+  });
+});
+
+describe('getPageLayout', () => {
+  it('turns the paper to landscape for wide images and centres them inside the margins', () => {
+    const layout = getPageLayout({ width: 2000, height: 1000 }, { ...DEFAULT_PDF_EXPORT_OPTIONS, pageSize: 'a4', marginMm: 10 });
+    expect(layout.pageWidth).toBeCloseTo(841.89, 2);
+    expect(layout.pageHeight).toBeCloseTo(595.28, 2);
+    const margin = (10 * 72) / 25.4;
+    expect(layout.image.x).toBeCloseTo(margin, 6);
+    expect(layout.image.width).toBeCloseTo(841.89 - 2 * margin, 6);
+    expect(layout.image.y).toBeCloseTo((595.28 - layout.image.height) / 2, 6);
+  });
+
+  it('sizes the page to the image plus margins', () => {
+    const layout = getPageLayout({ width: 96, height: 192 }, { ...DEFAULT_PDF_EXPORT_OPTIONS, pageSize: 'image', marginMm: 0 });
+    expect(layout.pageWidth).toBeCloseTo(72, 6);
+    expect(layout.pageHeight).toBeCloseTo(144, 6);
+  });
+});
+
+describe('buildPdf', () => {
+  const pages = [
+    { jpeg, width: 100, height: 200, text: 'Total 12.50\n\nThanks (again)' },
+    { jpeg, width: 300, height: 100 },
+  ];
+
+  it('writes one page per image with a valid cross-reference table', () => {
+    const bytes = buildPdf(pages, DEFAULT_PDF_EXPORT_OPTIONS);
+    const text = latin1(bytes);
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/Count 2');
+    expect(text.match(/\/Subtype \/Image/g)).toHaveLength(2);
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    const entries = text.slice(startxref).match(/(\d{10}) 00000 n /g)!;
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+  });
+
+  it('adds an invisible text layer only when asked', () => {
+    const withText = latin1(buildPdf(pages, DEFAULT_PDF_EXPORT_OPTIONS));
+    expect(withText).toContain('3 Tr');
+    expect(withText).toContain(`<${Array.from('Thanks (again)', c => c.charCodeAt(0).toString(16)).join('')}> Tj`);
+    expect(withText.match(/ Tj/g)).toHaveLength(2);
+
+    const withoutText = latin1(buildPdf(pages, { ...DEFAULT_PDF_EXPORT_OPTIONS, textLayer: false }));
+    expect(withoutText).not.toContain('3 Tr');
+    expect(withoutText).not.toContain('/Font << /F1');
+  });
+
+  it('refuses to write an empty document', () => {
+    expect(() => buildPdf([], DEFAULT_PDF_EXPORT_OPTIONS)).toThrow('There are no pages to export.');
+  });
+});
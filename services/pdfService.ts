@@ -0,0 +1,194 @@
+import { PdfExportOptions, PdfPageSize } from '../types';
+import { blobToArrayBuffer, dataURLtoBlob, fileToDataUrl } from './fileUtils';
+import { createCanvas, loadImage } from './imageUtils';
+
+// A minimal PDF writer: one JPEG image per page, optionally with the OCR text drawn invisibly
+// (text render mode 3) over it, which is how scanners make searchable PDFs.
+
+export interface PdfPage {
+  jpeg: Uint8Array;
+  width: number; // Image size in pixels
+  height: number;
+  text?: string; // OCR text for the invisible layer
+}
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  fileName: 'expense_report',
+  pageSize: 'a4',
+  marginMm: 10,
+  textLayer: true,
+};
+
+// Portrait sizes in points (1/72 inch).
+const PAGE_SIZES: Record<Exclude<PdfPageSize, 'image'>, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+// Pages sized to the image treat one pixel as one CSS pixel (96 DPI).
+const POINTS_PER_PIXEL = 72 / 96;
+const POINTS_PER_MM = 72 / 25.4;
+const JPEG_QUALITY = 0.9;
+// Helvetica's average glyph width as a fraction of the font size, used to stretch each line to the image width.
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+// Windows-1252 code points above 0x7f that are not Latin-1.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// The standard Helvetica font only covers WinAnsi, so other characters become "?" in the text layer.
+export const encodeWinAnsi = (text: string): number[] =>
+  Array.from(text, char => {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+  });
+
+const toHex = (bytes: number[]) => bytes.map(b => b.toString(16).padStart(2, '0')).join('');
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+export const getPageLayout = (page: { width: number; height: number }, options: PdfExportOptions) => {
+  const margin = Math.max(0, options.marginMm) * POINTS_PER_MM;
+  const imageWidth = page.width * POINTS_PER_PIXEL;
+  const imageHeight = page.height * POINTS_PER_PIXEL;
+
+  if (options.pageSize === 'image') {
+    return {
+      pageWidth: imageWidth + margin * 2,
+      pageHeight: imageHeight + margin * 2,
+      image: { x: margin, y: margin, width: imageWidth, height: imageHeight },
+    };
+  }
+
+  // Turn the paper to match the image so landscape scans are not shrunk onto a portrait page.
+  const paper = PAGE_SIZES[options.pageSize];
+  const landscape = page.width > page.height;
+  const pageWidth = landscape ? paper.height : paper.width;
+  const pageHeight = landscape ? paper.width : paper.height;
+  const scale = Math.min((pageWidth - margin * 2) / imageWidth, (pageHeight - margin * 2) / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return {
+    pageWidth,
+    pageHeight,
+    image: { x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height },
+  };
+};
+
+// Spreads the OCR lines evenly over the image, each stretched to the image width. The text has no
+// positions, so this only approximates where words are, but search and copy work on every page.
+const buildTextLayer = (text: string, box: { x: number; y: number; width: number; height: number }): string => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+  if (lines.length === 0) return '';
+
+  const lineHeight = box.height / lines.length;
+  const fontSize = Math.max(1, lineHeight * 0.8);
+  const commands = ['BT', '3 Tr', `/F1 ${formatNumber(fontSize)} Tf`];
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const naturalWidth = trimmed.length * fontSize * AVERAGE_GLYPH_WIDTH;
+    const stretch = Math.max(1, Math.min(1000, (box.width / naturalWidth) * 100));
+    const baseline = box.y + box.height - (index + 1) * lineHeight + (lineHeight - fontSize) / 2;
+    commands.push(
+      `${formatNumber(stretch)} Tz`,
+      `1 0 0 1 ${formatNumber(box.x)} ${formatNumber(baseline)} Tm`,
+      `<${toHex(encodeWinAnsi(trimmed))}> Tj`
+    );
+  });
+  commands.push('ET');
+  return commands.join('\n');
+};
+
+const textEncoder = new TextEncoder();
+
+export const buildPdf = (pages: PdfPage[], options: PdfExportOptions): Uint8Array => {
+  if (pages.length === 0) throw new Error('There are no pages to export.');
+
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? textEncoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects 1-3 are the catalog, page tree and font; each page then takes three: page, content, image.
+  const withText = options.textLayer && pages.some(page => page.text?.trim());
+  const pageIds = pages.map((_, index) => 4 + index * 3);
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Marks the file as binary for transfer tools
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const { pageWidth, pageHeight, image } = getPageLayout(page, options);
+    const drawImage = `q ${formatNumber(image.width)} 0 0 ${formatNumber(image.height)} ${formatNumber(image.x)} ${formatNumber(image.y)} cm /Im1 Do Q`;
+    const textLayer = withText && page.text ? buildTextLayer(page.text, image) : '';
+    const content = textEncoder.encode(textLayer ? `${drawImage}\n${textLayer}` : drawImage);
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] ` +
+        `/Resources << /XObject << /Im1 ${pageId + 2} 0 R >>${withText ? ' /Font << /F1 3 0 R >>' : ''} >> /Contents ${pageId + 1} 0 R >>`
+    );
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    );
+  });
+
+  const objectCount = pageIds[pageIds.length - 1] + 3;
+  const xrefOffset = length;
+  const xref = ['xref', `0 ${objectCount}`, '0000000000 65535 f '];
+  for (let id = 1; id < objectCount; id++) {
+    xref.push(`${String(offsets[id]).padStart(10, '0')} 00000 n `);
+  }
+  write(`${xref.join('\n')}\ntrailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+};
+
+// Re-encodes any browser-decodable image as an RGB JPEG. Transparent areas become white.
+export const imageToPdfPage = async (source: string | Blob, text?: string): Promise<PdfPage> => {
+  const image = await loadImage(typeof source === 'string' ? source : await fileToDataUrl(source));
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0);
+  const blob = await dataURLtoBlob(canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+  return {
+    jpeg: new Uint8Array(await blobToArrayBuffer(blob)),
+    width: canvas.width,
+    height: canvas.height,
+    text,
+  };
+};
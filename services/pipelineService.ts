@@ -0,0 +1,211 @@
+import { BuiltInPromptId, Pipeline, PipelineStep, PipelineStepType, PromptLibrary, ReceiptData } from '../types';
+import { preprocessImage, enhanceForOcr, editImage, performOcr, extractReceipt } from './aiService';
+import { resizeImage, describeResize, DEFAULT_RESIZE_OPTIONS } from './resizeService';
+import { convertImageFormat, describeFormat } from './formatService';
+import { deskewImage } from './deskewService';
+import { JobContext } from './jobQueue';
+import { fillPromptVariables, getMissingBuiltInVariables, getMissingVariables } from './promptLibrary';
+
+const STORAGE_KEY = 'gemini-image-studio.pipelines';
+
+export const PIPELINE_STEP_TYPES: Array<{ type: PipelineStepType; label: string; usesAi: boolean }> = [
+  { type: 'preprocess', label: 'De-skew & crop', usesAi: false }, // New steps default to the local method
+  { type: 'enhance', label: 'Enhance for OCR', usesAi: true },
+  { type: 'edit', label: 'Edit with prompt', usesAi: true },
+  { type: 'resize', label: 'Resize', usesAi: false },
+  { type: 'convert', label: 'Convert / compress', usesAi: false },
+  { type: 'ocr', label: 'OCR', usesAi: true },
+  { type: 'extractReceipt', label: 'Extract receipt data', usesAi: true },
+  { type: 'saveImage', label: 'Save image', usesAi: false },
+  { type: 'saveOcrText', label: 'Save OCR text', usesAi: false },
+];
+
+let idCounter = 0;
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${idCounter++}`;
+
+export const createPipelineStep = (type: PipelineStepType): PipelineStep => {
+  const id = newId('pstep');
+  switch (type) {
+    case 'preprocess': return { id, type, method: 'local' };
+    case 'edit': return { id, type, prompt: '' };
+    case 'resize': return { id, type, options: DEFAULT_RESIZE_OPTIONS };
+    case 'convert': return { id, type, format: { mimeType: 'image/webp', quality: 0.8 } };
+    case 'saveImage': return { id, type, suffix: 'Processed' };
+    default: return { id, type } as PipelineStep;
+  }
+};
+
+export const createPipeline = (name: string, steps: PipelineStep[] = []): Pipeline => ({
+  id: newId('pipeline'),
+  name,
+  steps,
+});
+
+export const getStepLabel = (type: PipelineStepType): string =>
+  PIPELINE_STEP_TYPES.find(t => t.type === type)?.label ?? type;
+
+// Like getStepLabel, but also names the preprocess method.
+export const describePipelineStep = (step: PipelineStep): string =>
+  step.type === 'preprocess'
+    ? `${getStepLabel(step.type)} (${step.method === 'local' ? 'local' : 'AI'})`
+    : getStepLabel(step.type);
+
+const stepUsesAi = (step: PipelineStep): boolean =>
+  step.type === 'preprocess'
+    ? step.method !== 'local'
+    : !!PIPELINE_STEP_TYPES.find(t => t.type === step.type)?.usesAi;
+
+export const pipelineUsesAi = (pipeline: Pipeline): boolean => pipeline.steps.some(stepUsesAi);
+
+export const BUILT_IN_PIPELINES: Pipeline[] = [
+  {
+    id: 'builtin-auto-process',
+    name: 'Auto-Process & Save',
+    builtIn: true,
+    steps: [
+      { id: 'builtin-auto-1', type: 'preprocess', method: 'ai' },
+      { id: 'builtin-auto-2', type: 'enhance' },
+      { id: 'builtin-auto-3', type: 'ocr' },
+      { id: 'builtin-auto-4', type: 'saveImage', suffix: 'Enhanced_for_OCR' },
+      { id: 'builtin-auto-5', type: 'saveOcrText' },
+    ],
+  },
+  {
+    id: 'builtin-deskew-ocr',
+    name: 'De-skew + OCR',
+    builtIn: true,
+    steps: [
+      { id: 'builtin-deskew-1', type: 'preprocess', method: 'local' },
+      { id: 'builtin-deskew-2', type: 'ocr' },
+    ],
+  },
+  {
+    id: 'builtin-compress',
+    name: 'Resize, compress & save (no AI)',
+    builtIn: true,
+    steps: [
+      { id: 'builtin-compress-1', type: 'resize', options: { ...DEFAULT_RESIZE_OPTIONS, mode: 'longestEdge', longestEdge: 1600 } },
+      { id: 'builtin-compress-2', type: 'convert', format: { mimeType: 'image/webp', quality: 0.8 } },
+      { id: 'builtin-compress-3', type: 'saveImage', suffix: 'Compressed' },
+    ],
+  },
+];
+
+export const loadSavedPipelines = (): Pipeline[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to load saved pipelines:', error);
+    return [];
+  }
+};
+
+export const savePipelines = (pipelines: Pipeline[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(pipelines.filter(p => !p.builtIn)));
+};
+
+// The built-in prompt an AI step sends, if any.
+const getStepPromptId = (step: PipelineStep): BuiltInPromptId | null => {
+  switch (step.type) {
+    case 'preprocess': return step.method === 'local' ? null : 'preprocess';
+    case 'enhance': return 'enhanceForOcr';
+    case 'ocr': return 'ocr';
+    case 'extractReceipt': return 'extractReceipt';
+    default: return null;
+  }
+};
+
+// Returns problems that would make the pipeline fail on every file, so we can refuse to start it.
+// Edit prompts and built-in prompts may use `{{variables}}`, which need a value in the library.
+export const validatePipeline = (pipeline: Pipeline, library: PromptLibrary): string[] => {
+  const problems: string[] = [];
+  if (pipeline.steps.length === 0) problems.push('The pipeline has no steps.');
+  let hasOcr = false;
+  pipeline.steps.forEach((step, index) => {
+    if (step.type === 'ocr') hasOcr = true;
+    if (step.type === 'edit' && !step.prompt.trim()) problems.push(`Step ${index + 1}: the edit prompt is empty.`);
+    if (step.type === 'saveOcrText' && !hasOcr) problems.push(`Step ${index + 1}: "Save OCR text" needs an OCR step before it.`);
+    const promptId = getStepPromptId(step);
+    const missing = step.type === 'edit'
+      ? getMissingVariables(step.prompt, library.variables)
+      : promptId ? getMissingBuiltInVariables(library, [promptId]) : [];
+    if (missing.length > 0) {
+      problems.push(`Step ${index + 1}: enter a value for ${missing.map(name => `{{${name}}}`).join(', ')} in the Prompt Library.`);
+    }
+  });
+  return problems;
+};
+
+export interface PipelineContext extends JobContext {
+  commitImage: (dataUrl: string, description: string) => void;
+  commitOcr: (text: string) => void;
+  commitReceipt: (data: ReceiptData) => void;
+  saveImage: (dataUrl: string, suffix: string) => Promise<void>;
+  saveText: (text: string, suffix: string) => Promise<void>;
+}
+
+// Image steps feed their output straight into the next step instead of reading it back from React state.
+export const runPipeline = async (pipeline: Pipeline, initialDataUrl: string, context: PipelineContext): Promise<void> => {
+  const { retry, signal, setStage } = context;
+  let currentDataUrl = initialDataUrl;
+  let ocrText: string | null = null;
+
+  const applyImageStep = async (description: string, operation: (dataUrl: string) => Promise<string>) => {
+    const input = currentDataUrl;
+    currentDataUrl = await retry(() => operation(input));
+    signal.throwIfAborted();
+    context.commitImage(currentDataUrl, description);
+  };
+
+  for (let i = 0; i < pipeline.steps.length; i++) {
+    const step = pipeline.steps[i];
+    setStage(`Step ${i + 1}/${pipeline.steps.length}: ${describePipelineStep(step)}`);
+
+    switch (step.type) {
+      case 'preprocess':
+        if (step.method === 'local') {
+          await applyImageStep('De-skewed (local)', deskewImage);
+        } else {
+          await applyImageStep('Preprocessed', preprocessImage);
+        }
+        break;
+      case 'enhance':
+        await applyImageStep('Enhanced for OCR', enhanceForOcr);
+        break;
+      case 'edit': {
+        const prompt = fillPromptVariables(step.prompt);
+        await applyImageStep(`Edited: ${prompt.substring(0, 30)}...`, dataUrl => editImage(dataUrl, prompt));
+        break;
+      }
+      case 'resize':
+        await applyImageStep(describeResize(step.options), dataUrl => resizeImage(dataUrl, step.options));
+        break;
+      case 'convert':
+        await applyImageStep(`Converted to ${describeFormat(step.format)}`, dataUrl => convertImageFormat(dataUrl, step.format));
+        break;
+      case 'ocr': {
+        const input = currentDataUrl;
+        ocrText = await retry(() => performOcr(input));
+        signal.throwIfAborted();
+        context.commitOcr(ocrText);
+        break;
+      }
+      case 'extractReceipt': {
+        const input = currentDataUrl;
+        const data = await retry(() => extractReceipt(input));
+        signal.throwIfAborted();
+        context.commitReceipt(data);
+        break;
+      }
+      case 'saveImage':
+        await context.saveImage(currentDataUrl, step.suffix);
+        break;
+      case 'saveOcrText':
+        if (ocrText === null) throw new Error('There is no OCR text to save. Add an OCR step first.');
+        await context.saveText(ocrText, 'OCR_TEXT');
+        break;
+    }
+  }
+};
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ActiveTool, PromptLibrary } from '../types';
+import {
+  BUILT_IN_PROMPTS,
+  EMPTY_PROMPT_LIBRARY,
+  createSavedPrompt,
+  fillTemplate,
+  getBuiltInPrompt,
+  getMissingBuiltInVariables,
+  getMissingVariables,
+  getOverrideVariables,
+  getTemplateVariables,
+  mergePromptLibraries,
+  parsePromptLibraryJson,
+  parseTags,
+  promptLibraryToJson,
+  setActivePromptLibrary,
+} from './promptLibrary';
+
+const template = 'Translate the totals to {{ currency }} and answer in {{language}}. Keep {{currency}} symbols.';
+
+describe('templates', () => {
+  it('lists each placeholder once in order', () => {
+    expect(getTemplateVariables(template)).toEqual(['currency', 'language']);
+  });
+
+  it('fills known values and leaves the rest in place', () => {
+    expect(fillTemplate(template, { currency: 'EUR', language: ' ' })).toBe(
+      'Translate the totals to EUR and answer in {{language}}. Keep EUR symbols.'
+    );
+    expect(getMissingVariables(template, { currency: 'EUR', language: ' ' })).toEqual(['language']);
+  });
+
+  it('splits tags on commas without duplicates', () => {
+    expect(parseTags('receipt, Travel ,receipt,')).toEqual(['receipt', 'Travel']);
+  });
+});
+
+describe('built-in prompts', () => {
+  afterEach(() => setActivePromptLibrary(EMPTY_PROMPT_LIBRARY));
+
+  it('uses the override with variables filled, and the default when it is blank', () => {
+    setActivePromptLibrary({
+      prompts: [],
+      overrides: { ocr: 'Read this {{language}} receipt.', preprocess: '  ' },
+      variables: { language: 'German' },
+    });
+    expect(getBuiltInPrompt('ocr')).toBe('Read this German receipt.');
+    expect(getBuiltInPrompt('preprocess')).toBe(BUILT_IN_PROMPTS.preprocess.text);
+  });
+
+  it('lists the placeholders of overrides and the ones a Processor action is missing', () => {
+    const library: PromptLibrary = {
+      prompts: [],
+      overrides: { ocr: 'Read this {{language}} receipt.', extractReceipt: 'Amounts are in {{currency}}, text in {{language}}.' },
+      variables: { language: 'German' },
+    };
+    expect(getOverrideVariables(library)).toEqual(['language', 'currency']);
+    expect(getMissingBuiltInVariables(library, ['ocr', 'preprocess'])).toEqual([]);
+    expect(getMissingBuiltInVariables(library, ['ocr', 'extractReceipt'])).toEqual(['currency']);
+  });
+});
+
+describe('import and export', () => {
+  const saved = createSavedPrompt(ActiveTool.Editor, 'Remove glare', 'remove the glare in {{area}}', ['cleanup']);
+  const library: PromptLibrary = { prompts: [saved], overrides: { ocr: 'Custom OCR' }, variables: { area: 'the top' } };
+
+  it('round-trips a library', () => {
+    expect(parsePromptLibraryJson(promptLibraryToJson(library))).toEqual(library);
+  });
+
+  it('rejects files that are not a prompt library and drops malformed entries', () => {
+    expect(() => parsePromptLibraryJson('not json')).toThrow('not valid JSON');
+    expect(() => parsePromptLibraryJson('{"prompts": []}')).toThrow('not an exported prompt library');
+    const exported = JSON.parse(promptLibraryToJson(library));
+    exported.prompts.push({ name: 'No tool', text: 'x' });
+    exported.overrides.unknown = 'ignored';
+    expect(parsePromptLibraryJson(JSON.stringify(exported))).toEqual(library);
+  });
+
+  it('merges imported prompts over saved ones with the same id', () => {
+    const other = createSavedPrompt(ActiveTool.Generator, 'Logo', 'a flat logo');
+    const current: PromptLibrary = { prompts: [saved, other], overrides: {}, variables: { area: 'the bottom', shop: 'Acme' } };
+    const merged = mergePromptLibraries(current, { ...library, prompts: [{ ...saved, text: 'updated' }] });
+    expect(merged.prompts.map(prompt => [prompt.name, prompt.text])).toEqual([['Logo', 'a flat logo'], ['Remove glare', 'updated']]);
+    expect(merged.variables).toEqual({ area: 'the top', shop: 'Acme' });
+    expect(merged.overrides).toEqual({ ocr: 'Custom OCR' });
+  });
+});
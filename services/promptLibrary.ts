@@ -0,0 +1,162 @@
+import { ActiveTool, BuiltInPromptId, PromptLibrary, SavedPrompt } from '../types';
+
+// Saved prompts per tool, overrides for the prompts the app sends on its own, and the values for
+// `{{variable}}` placeholders. Kept in localStorage and shared between people as a JSON file.
+
+const STORAGE_KEY = 'gemini-image-studio.prompt-library';
+const EXPORT_FORMAT = 'gemini-image-studio/prompt-library';
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_PROMPTS: Record<BuiltInPromptId, { label: string; text: string }> = {
+  preprocess: {
+    label: 'Preprocess with AI',
+    text: 'Correct the perspective of this receipt. Make it look like a flat, top-down scan. De-skew and crop it tightly to the edges of the receipt. Do not change colors or add any effects.',
+  },
+  enhanceForOcr: {
+    label: 'Enhance for OCR with AI',
+    text: 'Convert this image of a receipt to a high-contrast black and white image. Preserve all text details to ensure maximum OCR accuracy. Remove any shadows or noise.',
+  },
+  ocr: {
+    label: 'OCR',
+    text: 'Perform OCR on this image and extract all text content exactly as it appears.',
+  },
+  ocrLayout: {
+    label: 'OCR with word positions',
+    text: 'Perform OCR on this image. Return every word exactly as it appears with its bounding box, grouped into lines and the lines into blocks in reading order. Give a lower confidence for words that are blurred, cut off or ambiguous.',
+  },
+  extractReceipt: {
+    label: 'Receipt extraction',
+    text: 'Extract the structured data from this receipt. Use the exact amounts printed on the receipt. Use null for any field that is not present; do not guess.',
+  },
+};
+
+export const EMPTY_PROMPT_LIBRARY: PromptLibrary = { prompts: [], overrides: {}, variables: {} };
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// Placeholder names in the order they first appear.
+export const getTemplateVariables = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+export const getMissingVariables = (text: string, values: Record<string, string>): string[] =>
+  getTemplateVariables(text).filter(name => !values[name]?.trim());
+
+// Placeholders without a value are left in place, so a half-filled template is easy to spot.
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => (values[name]?.trim() ? values[name] : placeholder));
+
+// "receipt, Travel ,receipt" -> ['receipt', 'Travel']
+export const parseTags = (input: string): string[] => [...new Set(input.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+let nextPromptId = 0;
+const newPromptId = () => `prompt-${Date.now()}-${++nextPromptId}`;
+
+export const createSavedPrompt = (tool: ActiveTool, name: string, text: string, tags: string[] = []): SavedPrompt => ({
+  id: newPromptId(),
+  name,
+  tool,
+  text,
+  tags,
+});
+
+// Services read built-in prompts from here, so edits apply to the next request without a reload.
+let activeLibrary: PromptLibrary = EMPTY_PROMPT_LIBRARY;
+
+export const setActivePromptLibrary = (library: PromptLibrary) => {
+  activeLibrary = library;
+};
+
+const getBuiltInTemplate = (library: PromptLibrary, id: BuiltInPromptId): string =>
+  library.overrides[id]?.trim() || BUILT_IN_PROMPTS[id].text;
+
+export const getBuiltInPrompt = (id: BuiltInPromptId): string =>
+  fillTemplate(getBuiltInTemplate(activeLibrary, id), activeLibrary.variables);
+
+// For prompts typed outside a tool's prompt box, such as a pipeline's edit steps.
+export const fillPromptVariables = (text: string): string => fillTemplate(text, activeLibrary.variables);
+
+// Placeholders used by the changed built-in prompts, so they can be given values.
+export const getOverrideVariables = (library: PromptLibrary): string[] =>
+  [...new Set(Object.values(library.overrides).flatMap(text => getTemplateVariables(text ?? '')))];
+
+// Checked before a Processor action runs, so a placeholder is never sent to the model as is.
+export const getMissingBuiltInVariables = (library: PromptLibrary, ids: BuiltInPromptId[]): string[] =>
+  [...new Set(ids.flatMap(id => getMissingVariables(getBuiltInTemplate(library, id), library.variables)))];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toSavedPrompt = (value: unknown): SavedPrompt | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || typeof value.text !== 'string') return null;
+  if (!Object.values(ActiveTool).includes(value.tool as ActiveTool)) return null;
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : newPromptId(),
+    name: value.name,
+    tool: value.tool as ActiveTool,
+    text: value.text,
+    tags: Array.isArray(value.tags) ? value.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+  };
+};
+
+// Keeps whatever is well-formed and drops the rest, so one bad entry doesn't lose the whole library.
+const normalizeLibrary = (value: unknown): PromptLibrary => {
+  if (!isRecord(value)) return EMPTY_PROMPT_LIBRARY;
+  const prompts = Array.isArray(value.prompts) ? value.prompts.map(toSavedPrompt).filter((p): p is SavedPrompt => !!p) : [];
+  const overrides: PromptLibrary['overrides'] = {};
+  if (isRecord(value.overrides)) {
+    for (const id of Object.keys(BUILT_IN_PROMPTS) as BuiltInPromptId[]) {
+      const text = value.overrides[id];
+      if (typeof text === 'string' && text.trim()) overrides[id] = text;
+    }
+  }
+  const variables: Record<string, string> = {};
+  if (isRecord(value.variables)) {
+    for (const [name, text] of Object.entries(value.variables)) {
+      if (typeof text === 'string') variables[name] = text;
+    }
+  }
+  return { prompts, overrides, variables };
+};
+
+export const loadPromptLibrary = (): PromptLibrary => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeLibrary(JSON.parse(raw)) : EMPTY_PROMPT_LIBRARY;
+  } catch (error) {
+    console.error('Failed to load the prompt library:', error);
+    return EMPTY_PROMPT_LIBRARY;
+  }
+};
+
+export const savePromptLibrary = (library: PromptLibrary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+};
+
+export const promptLibraryToJson = (library: PromptLibrary): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, ...library }, null, 2);
+
+export const parsePromptLibraryJson = (json: string): PromptLibrary => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not an exported prompt library.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+    throw new Error('The prompt library was exported by a newer version of the app.');
+  }
+  return normalizeLibrary(parsed);
+};
+
+// Imported prompts replace saved ones with the same id; imported overrides and variables win.
+export const mergePromptLibraries = (current: PromptLibrary, imported: PromptLibrary): PromptLibrary => {
+  const importedIds = new Set(imported.prompts.map(prompt => prompt.id));
+  return {
+    prompts: [...current.prompts.filter(prompt => !importedIds.has(prompt.id)), ...imported.prompts],
+    overrides: { ...current.overrides, ...imported.overrides },
+    variables: { ...current.variables, ...imported.variables },
+  };
+};
@@ -0,0 +1,71 @@
+import { ReceiptData, ReceiptResult, ReceiptValidation } from '../types';
+
+// Receipts round per line, so allow a couple of cents of drift before flagging.
+const TOLERANCE_CENTS = 2;
+
+const toCents = (value: number) => Math.round(value * 100);
+
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+export const validateReceipt = (data: ReceiptData): ReceiptValidation => {
+  const issues: string[] = [];
+
+  const lineItemsCents = data.lineItems.reduce((sum, item) => sum + toCents(item.amount), 0);
+  const taxCents = data.taxes.reduce((sum, tax) => sum + toCents(tax.amount), 0);
+  const tipCents = data.tip !== null ? toCents(data.tip) : 0;
+
+  data.lineItems.forEach((item, index) => {
+    if (item.quantity !== null && item.unitPrice !== null) {
+      const expected = Math.round(item.quantity * item.unitPrice * 100);
+      if (Math.abs(expected - toCents(item.amount)) > TOLERANCE_CENTS) {
+        issues.push(
+          `Line ${index + 1} (${item.description || 'unnamed'}): ${item.quantity} x ${item.unitPrice} does not equal ${item.amount}.`
+        );
+      }
+    }
+  });
+
+  if (data.total === null) {
+    issues.push('No total was found on the receipt.');
+  }
+
+  if (data.lineItems.length > 0) {
+    if (data.subtotal !== null) {
+      const subtotalCents = toCents(data.subtotal);
+      if (Math.abs(lineItemsCents - subtotalCents) > TOLERANCE_CENTS) {
+        issues.push(`Line items sum to ${formatAmount(lineItemsCents)} but the subtotal is ${formatAmount(subtotalCents)}.`);
+      }
+    } else if (data.total !== null) {
+      const expectedItemsCents = toCents(data.total) - taxCents - tipCents;
+      if (Math.abs(lineItemsCents - expectedItemsCents) > TOLERANCE_CENTS) {
+        issues.push(
+          `Line items sum to ${formatAmount(lineItemsCents)} but total minus tax and tip is ${formatAmount(expectedItemsCents)}.`
+        );
+      }
+    }
+  }
+
+  if (data.subtotal !== null && data.total !== null) {
+    const expectedTotalCents = toCents(data.subtotal) + taxCents + tipCents;
+    if (Math.abs(expectedTotalCents - toCents(data.total)) > TOLERANCE_CENTS) {
+      issues.push(
+        `Subtotal + tax + tip is ${formatAmount(expectedTotalCents)} but the total is ${formatAmount(toCents(data.total))}.`
+      );
+    }
+  }
+
+  return {
+    isConsistent: issues.length === 0,
+    issues,
+    lineItemsSum: lineItemsCents / 100,
+  };
+};
+
+// Receipts without a printed date fall back to the day the photo was taken, flagged so the user can check it.
+export const createReceiptResult = (name: string, data: ReceiptData, captureDate: string | null): ReceiptResult => {
+  if (data.date || !captureDate) {
+    return { name, data, validation: validateReceipt(data) };
+  }
+  const dated = { ...data, date: captureDate.slice(0, 10) };
+  return { name, data: dated, validation: validateReceipt(dated), dateFromCapture: true };
+};
@@ -0,0 +1,199 @@
+import { ResizeOptions } from '../types';
+import {
+  LOSSY_MIME_TYPES,
+  createCanvas,
+  getBase64Size,
+  getCanvasOutputMimeType,
+  getDataUrlMimeType,
+  loadImage,
+} from './imageUtils';
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ResizePlan {
+  canvasWidth: number;
+  canvasHeight: number;
+  sourceRect: Rect; // Region of the source image to sample
+  destRect: Rect; // Where the sampled region lands on the output canvas
+}
+
+const DEFAULT_QUALITY = 0.92;
+const MIN_QUALITY = 0.05;
+const QUALITY_SEARCH_STEPS = 8;
+
+export const DEFAULT_RESIZE_OPTIONS: ResizeOptions = {
+  mode: 'longestEdge',
+  width: 1200,
+  height: 1600,
+  longestEdge: 1600,
+  percentage: 50,
+  fit: 'contain',
+};
+
+export const describeResize = (options: ResizeOptions): string => {
+  const budget = options.maxBytes ? ` (max ${Math.round(options.maxBytes / 1024)} KB)` : '';
+  switch (options.mode) {
+    case 'dimensions':
+      return `Resized ${options.width}x${options.height} ${options.fit}${budget}`;
+    case 'longestEdge':
+      return `Resized longest edge ${options.longestEdge}px${budget}`;
+    case 'percentage':
+      return `Resized ${options.percentage}%${budget}`;
+  }
+};
+
+const planResize = (sourceWidth: number, sourceHeight: number, options: ResizeOptions): ResizePlan => {
+  const fullSource: Rect = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  const scaled = (scale: number): ResizePlan => {
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    return {
+      canvasWidth: width,
+      canvasHeight: height,
+      sourceRect: fullSource,
+      destRect: { x: 0, y: 0, width, height },
+    };
+  };
+
+  if (options.mode === 'percentage') {
+    if (!(options.percentage > 0)) throw new Error('Resize percentage must be greater than 0.');
+    return scaled(options.percentage / 100);
+  }
+
+  if (options.mode === 'longestEdge') {
+    if (!(options.longestEdge > 0)) throw new Error('Longest edge must be greater than 0.');
+    return scaled(options.longestEdge / Math.max(sourceWidth, sourceHeight));
+  }
+
+  const { width, height, fit } = options;
+  if (!(width > 0) || !(height > 0)) throw new Error('Target width and height must be greater than 0.');
+
+  if (fit === 'stretch') {
+    return {
+      canvasWidth: width,
+      canvasHeight: height,
+      sourceRect: fullSource,
+      destRect: { x: 0, y: 0, width, height },
+    };
+  }
+
+  if (fit === 'cover') {
+    // Scale so the image covers the box, then sample only the centered region that survives the crop.
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+    const sampleWidth = width / scale;
+    const sampleHeight = height / scale;
+    return {
+      canvasWidth: width,
+      canvasHeight: height,
+      sourceRect: {
+        x: (sourceWidth - sampleWidth) / 2,
+        y: (sourceHeight - sampleHeight) / 2,
+        width: sampleWidth,
+        height: sampleHeight,
+      },
+      destRect: { x: 0, y: 0, width, height },
+    };
+  }
+
+  // 'contain': letterbox the whole image inside the box.
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const drawWidth = Math.max(1, Math.round(sourceWidth * scale));
+  const drawHeight = Math.max(1, Math.round(sourceHeight * scale));
+  return {
+    canvasWidth: width,
+    canvasHeight: height,
+    sourceRect: fullSource,
+    destRect: {
+      x: Math.round((width - drawWidth) / 2),
+      y: Math.round((height - drawHeight) / 2),
+      width: drawWidth,
+      height: drawHeight,
+    },
+  };
+};
+
+// Halves the image repeatedly before the final draw. A single large downscale with
+// drawImage skips source pixels and aliases badly, which hurts small receipt text.
+const downscaleInSteps = (
+  image: CanvasImageSource,
+  sourceRect: Rect,
+  targetWidth: number,
+  targetHeight: number
+): { source: CanvasImageSource; rect: Rect } => {
+  let source = image;
+  let rect = sourceRect;
+
+  while (rect.width / 2 >= targetWidth && rect.height / 2 >= targetHeight) {
+    const { canvas, ctx } = createCanvas(rect.width / 2, rect.height / 2);
+    ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+    source = canvas;
+    rect = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  }
+
+  return { source, rect };
+};
+
+// Searches JPEG/WebP quality until the encoded output fits the byte budget.
+const encodeWithinBudget = (canvas: HTMLCanvasElement, mimeType: string, maxBytes: number): string => {
+  const best = canvas.toDataURL(mimeType, DEFAULT_QUALITY);
+  if (getBase64Size(best) <= maxBytes) return best;
+
+  let low = MIN_QUALITY;
+  let high = DEFAULT_QUALITY;
+  let fitting: string | null = null;
+
+  for (let i = 0; i < QUALITY_SEARCH_STEPS; i++) {
+    const quality = (low + high) / 2;
+    const candidate = canvas.toDataURL(mimeType, quality);
+    if (getBase64Size(candidate) <= maxBytes) {
+      fitting = candidate;
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+
+  if (!fitting) {
+    const lowest = canvas.toDataURL(mimeType, MIN_QUALITY);
+    if (getBase64Size(lowest) <= maxBytes) return lowest;
+    throw new Error(
+      `Could not compress image below ${(maxBytes / 1024).toFixed(0)} KB even at the lowest quality. Try smaller dimensions.`
+    );
+  }
+  return fitting;
+};
+
+export const resizeImage = async (imageDataUrl: string, options: ResizeOptions): Promise<string> => {
+  const image = await loadImage(imageDataUrl);
+  const plan = planResize(image.naturalWidth, image.naturalHeight, options);
+
+  let outputMimeType = getCanvasOutputMimeType(getDataUrlMimeType(imageDataUrl));
+  if (options.maxBytes && !LOSSY_MIME_TYPES.includes(outputMimeType)) {
+    // PNG has no quality knob, so a byte budget requires a lossy format.
+    outputMimeType = 'image/jpeg';
+  }
+
+  const { canvas, ctx } = createCanvas(plan.canvasWidth, plan.canvasHeight);
+  if (outputMimeType === 'image/jpeg') {
+    // JPEG has no alpha channel; without this, transparent areas and letterboxing turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const { source, rect } = downscaleInSteps(image, plan.sourceRect, plan.destRect.width, plan.destRect.height);
+  ctx.drawImage(
+    source,
+    rect.x, rect.y, rect.width, rect.height,
+    plan.destRect.x, plan.destRect.y, plan.destRect.width, plan.destRect.height
+  );
+
+  if (options.maxBytes) {
+    return encodeWithinBudget(canvas, outputMimeType, options.maxBytes);
+  }
+  return canvas.toDataURL(outputMimeType, DEFAULT_QUALITY);
+};
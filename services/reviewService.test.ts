@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { FileReview, ReceiptData, ReceiptResult } from '../types';
+import { createReceiptResult } from './receiptValidation';
+import {
+  describeCorrections,
+  findNextWithStatus,
+  getAttentionReasons,
+  getReviewStatus,
+  getReviewedOcrText,
+  getReviewedReceipt,
+  invalidateReview,
+  updateReview,
+} from './reviewService';
+
+const receiptData: ReceiptData = {
+  merchant: 'Corner Shop',
+  address: null,
+  date: '2024-05-01',
+  currency: 'EUR',
+  lineItems: [{ description: 'Bread', quantity: 1, unitPrice: 2.5, amount: 2.5 }],
+  subtotal: 2.5,
+  taxes: [],
+  tip: null,
+  total: 2.5,
+};
+
+const receipt: ReceiptResult = createReceiptResult('shop.png', receiptData, null);
+const ocr = { name: 'shop.png', text: 'Corner Shop\nBread 2.50' };
+
+const review = (changes: Partial<FileReview>): FileReview => updateReview(undefined, changes);
+
+describe('updateReview', () => {
+  it('starts unreviewed without corrections and keeps earlier fields', () => {
+    const first = updateReview(undefined, { ocrText: 'fixed' });
+    expect(first).toMatchObject({ status: 'unreviewed', ocrText: 'fixed', receipt: null });
+    expect(updateReview(first, { status: 'approved' })).toMatchObject({ status: 'approved', ocrText: 'fixed' });
+    expect(getReviewStatus(undefined)).toBe('unreviewed');
+  });
+
+  it('resets the status and drops only the correction for a replaced result', () => {
+    const approved = updateReview(undefined, { status: 'approved', ocrText: 'fixed', receipt: receiptData });
+    expect(invalidateReview(approved)).toMatchObject({ status: 'unreviewed', ocrText: 'fixed', receipt: receiptData });
+    expect(invalidateReview(approved, 'receipt')).toMatchObject({ status: 'unreviewed', ocrText: 'fixed', receipt: null });
+    expect(invalidateReview(approved, 'ocrText')).toMatchObject({ status: 'unreviewed', ocrText: null, receipt: receiptData });
+    const unreviewed = review({ ocrText: 'fixed' });
+    expect(invalidateReview(unreviewed, 'receipt')).toBe(unreviewed);
+  });
+});
+
+describe('reviewed results', () => {
+  it('prefers corrections over the model output without changing it', () => {
+    expect(getReviewedOcrText(ocr, undefined)).toBe(ocr.text);
+    expect(getReviewedOcrText(ocr, review({ ocrText: 'Corner Shop\nBread 2.60' }))).toBe('Corner Shop\nBread 2.60');
+
+    const corrected = getReviewedReceipt(receipt, review({ receipt: { ...receiptData, total: 3 } }))!;
+    expect(corrected.data.total).toBe(3);
+    expect(corrected.validation.isConsistent).toBe(false);
+    expect(receipt.data.total).toBe(2.5);
+  });
+
+  it('lists each corrected field for the audit trail', () => {
+    const corrected = review({
+      ocrText: 'edited',
+      receipt: { ...receiptData, merchant: 'Corner Shop Ltd', tip: 0.5, lineItems: [] },
+    });
+    expect(describeCorrections(ocr, receipt, corrected)).toEqual([
+      'OCR text edited',
+      'merchant: Corner Shop -> Corner Shop Ltd',
+      'tip: (empty) -> 0.5',
+      'line items edited',
+    ]);
+    expect(describeCorrections(ocr, receipt, review({ status: 'approved' }))).toEqual([]);
+  });
+
+  it('explains why a file may need attention', () => {
+    const inconsistent = createReceiptResult('shop.png', { ...receiptData, total: 9 }, null);
+    expect(getAttentionReasons(ocr, inconsistent)).toEqual(inconsistent.validation.issues);
+    expect(getAttentionReasons(ocr, receipt)).toEqual([]);
+  });
+});
+
+describe('findNextWithStatus', () => {
+  const ids = ['a', 'b', 'c', 'd'];
+  const reviews = { a: review({ status: 'approved' }), c: review({ status: 'needsAttention' }) };
+
+  it('finds the next match after the current file, wrapping around', () => {
+    expect(findNextWithStatus(ids, reviews, 'b', 'unreviewed')).toBe('d');
+    expect(findNextWithStatus(ids, reviews, 'd', 'unreviewed')).toBe('b');
+    expect(findNextWithStatus(ids, reviews, null, 'needsAttention')).toBe('c');
+  });
+
+  it('returns null when no other file matches', () => {
+    expect(findNextWithStatus(ids, reviews, 'c', 'needsAttention')).toBeNull();
+    expect(findNextWithStatus([], {}, null, 'unreviewed')).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { FileReview, OcrResult, ReceiptData, ReceiptResult, ReviewStatus } from '../types';
+import { getLayoutWords, isLowConfidence } from './ocrLayout';
+import { validateReceipt } from './receiptValidation';
+
+// Review state per file. Files without a review record count as unreviewed.
+
+export type ReviewFilter = ReviewStatus | 'all';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['unreviewed', 'needsAttention', 'approved'];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  unreviewed: 'Unreviewed',
+  needsAttention: 'Needs attention',
+  approved: 'Approved',
+};
+
+export const REVIEW_STATUS_COLORS: Record<ReviewStatus, string> = {
+  unreviewed: '#aaa',
+  needsAttention: '#e8a33d',
+  approved: '#4caf50',
+};
+
+export const getReviewStatus = (review: FileReview | undefined): ReviewStatus => review?.status ?? 'unreviewed';
+
+export const updateReview = (review: FileReview | undefined, changes: Partial<Omit<FileReview, 'updatedAt'>>): FileReview => ({
+  status: 'unreviewed',
+  ocrText: null,
+  receipt: null,
+  ...review,
+  ...changes,
+  updatedAt: Date.now(),
+});
+
+// A review covers the image and results the reviewer saw. When either changes the file is
+// unreviewed again; only the correction made against a replaced result is dropped, so the other
+// stays for the audit trail. Returns the same object when there is nothing to change.
+export const invalidateReview = (review: FileReview, replaced?: 'ocrText' | 'receipt'): FileReview => {
+  if (review.status === 'unreviewed' && (!replaced || review[replaced] === null)) return review;
+  return updateReview(review, replaced ? { status: 'unreviewed', [replaced]: null } : { status: 'unreviewed' });
+};
+
+// What exports use: the reviewer's corrections where there are any, otherwise the model output.
+export const getReviewedOcrText = (ocr: OcrResult | undefined, review: FileReview | undefined): string | undefined =>
+  review?.ocrText ?? ocr?.text;
+
+export const getReviewedReceipt = (receipt: ReceiptResult | undefined, review: FileReview | undefined): ReceiptResult | undefined => {
+  if (!receipt || !review?.receipt) return receipt;
+  const data = review.receipt;
+  return {
+    name: receipt.name,
+    data,
+    validation: validateReceipt(data),
+    // The capture-date note only applies while the date is still the one that was filled in.
+    ...(receipt.dateFromCapture && data.date === receipt.data.date ? { dateFromCapture: true } : {}),
+  };
+};
+
+const SCALAR_FIELDS: Array<keyof Omit<ReceiptData, 'lineItems' | 'taxes'>> = [
+  'merchant', 'address', 'date', 'currency', 'subtotal', 'tip', 'total',
+];
+
+const show = (value: string | number | null) => (value === null || value === '' ? '(empty)' : String(value));
+
+// One entry per corrected field, e.g. "total: 12.30 -> 12.50", so exports show what was changed by hand.
+export const describeCorrections = (
+  ocr: OcrResult | undefined,
+  receipt: ReceiptResult | undefined,
+  review: FileReview | undefined
+): string[] => {
+  const corrections: string[] = [];
+  if (review?.ocrText != null && review.ocrText !== ocr?.text) corrections.push('OCR text edited');
+  if (receipt && review?.receipt) {
+    const original = receipt.data;
+    const corrected = review.receipt;
+    for (const field of SCALAR_FIELDS) {
+      if (original[field] !== corrected[field]) {
+        corrections.push(`${field}: ${show(original[field])} -> ${show(corrected[field])}`);
+      }
+    }
+    if (JSON.stringify(original.lineItems) !== JSON.stringify(corrected.lineItems)) corrections.push('line items edited');
+    if (JSON.stringify(original.taxes) !== JSON.stringify(corrected.taxes)) corrections.push('taxes edited');
+  }
+  return corrections;
+};
+
+// Hints for the reviewer: receipt arithmetic that does not add up and words the OCR was unsure of.
+export const getAttentionReasons = (ocr: OcrResult | undefined, receipt: ReceiptResult | undefined): string[] => {
+  const reasons = receipt ? [...receipt.validation.issues] : [];
+  const lowConfidence = ocr?.layout ? getLayoutWords(ocr.layout).filter(isLowConfidence).length : 0;
+  if (lowConfidence > 0) reasons.push(`${lowConfidence} OCR words have low confidence.`);
+  return reasons;
+};
+
+// The next file after `currentId` in list order with the given status, wrapping around.
+export const findNextWithStatus = (
+  fileIds: string[],
+  reviews: Record<string, FileReview>,
+  currentId: string | null,
+  status: ReviewStatus
+): string | null => {
+  const start = currentId ? fileIds.indexOf(currentId) : -1;
+  for (let offset = 1; offset <= fileIds.length; offset++) {
+    const id = fileIds[(start + offset + fileIds.length) % fileIds.length];
+    if (id !== currentId && getReviewStatus(reviews[id]) === status) return id;
+  }
+  return null;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { clampCropRect, fitCropToAspect, getStraightenScale, roundCropRect } from './transformService';
+
+describe('getStraightenScale', () => {
+  it('does not scale when the angle is zero', () => {
+    expect(getStraightenScale(400, 300, 0)).toBeCloseTo(1, 10);
+  });
+
+  it('shrinks the frame so the rotated image covers it', () => {
+    const width = 400;
+    const height = 300;
+    const angle = 5;
+    const scale = getStraightenScale(width, height, angle);
+    expect(scale).toBeLessThan(1);
+
+    // Every corner of the scaled frame, rotated back into the source, stays inside the source.
+    const radians = (angle * Math.PI) / 180;
+    for (const [sx, sy] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+      const x = (sx * width * scale) / 2;
+      const y = (sy * height * scale) / 2;
+      const rx = x * Math.cos(radians) + y * Math.sin(radians);
+      const ry = -x * Math.sin(radians) + y * Math.cos(radians);
+      expect(Math.abs(rx)).toBeLessThanOrEqual(width / 2 + 1e-9);
+      expect(Math.abs(ry)).toBeLessThanOrEqual(height / 2 + 1e-9);
+    }
+  });
+
+  it('treats negative angles like positive ones', () => {
+    expect(getStraightenScale(400, 300, -7)).toBeCloseTo(getStraightenScale(400, 300, 7), 10);
+  });
+});
+
+describe('clampCropRect', () => {
+  it('keeps the rectangle inside the image', () => {
+    expect(clampCropRect({ x: -10, y: 90, width: 50, height: 50 }, 100, 100)).toEqual({ x: 0, y: 50, width: 50, height: 50 });
+    expect(clampCropRect({ x: 0, y: 0, width: 500, height: 0 }, 100, 80)).toEqual({ x: 0, y: 0, width: 100, height: 1 });
+  });
+});
+
+describe('fitCropToAspect', () => {
+  it('fits the ratio inside the current rectangle, centred', () => {
+    expect(fitCropToAspect({ x: 0, y: 0, width: 200, height: 100 }, 1, 200, 100)).toEqual({ x: 50, y: 0, width: 100, height: 100 });
+  });
+
+  it('never grows past the image', () => {
+    const rect = fitCropToAspect({ x: 0, y: 0, width: 100, height: 100 }, 16 / 9, 100, 100);
+    expect(rect.width).toBeLessThanOrEqual(100);
+    expect(rect.width / rect.height).toBeCloseTo(16 / 9, 6);
+  });
+});
+
+describe('roundCropRect', () => {
+  it('rounds to whole pixels with a minimum size of one', () => {
+    expect(roundCropRect({ x: 1.4, y: 2.6, width: 0.2, height: 9.5 })).toEqual({ x: 1, y: 3, width: 1, height: 10 });
+  });
+});
@@ -0,0 +1,134 @@
+import { createCanvas, encodeCanvasLike, getDataUrlMimeType, loadImage } from './imageUtils';
+
+// Local geometric edits for the Transform tool. All coordinates are in source image pixels.
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type FlipAxis = 'horizontal' | 'vertical';
+
+export const ASPECT_RATIOS: Array<{ label: string; value: number | 'original' | null }> = [
+  { label: 'Free', value: null },
+  { label: 'Original', value: 'original' },
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '2:3', value: 2 / 3 },
+  { label: '16:9', value: 16 / 9 },
+];
+
+const redraw = async (
+  imageDataUrl: string,
+  getSize: (width: number, height: number) => { width: number; height: number },
+  draw: (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => void
+): Promise<string> => {
+  const image = await loadImage(imageDataUrl);
+  const size = getSize(image.naturalWidth, image.naturalHeight);
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+  draw(ctx, image, canvas.width, canvas.height);
+  return encodeCanvasLike(canvas, getDataUrlMimeType(imageDataUrl));
+};
+
+// Positive quarter turns rotate clockwise.
+export const rotateImage = (imageDataUrl: string, quarterTurns: number): Promise<string> => {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  return redraw(
+    imageDataUrl,
+    (width, height) => (turns % 2 === 1 ? { width: height, height: width } : { width, height }),
+    (ctx, image, width, height) => {
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate((turns * Math.PI) / 2);
+      ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+    }
+  );
+};
+
+export const flipImage = (imageDataUrl: string, axis: FlipAxis): Promise<string> =>
+  redraw(
+    imageDataUrl,
+    (width, height) => ({ width, height }),
+    (ctx, image, width, height) => {
+      if (axis === 'horizontal') {
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+      } else {
+        ctx.translate(0, height);
+        ctx.scale(1, -1);
+      }
+      ctx.drawImage(image, 0, 0);
+    }
+  );
+
+// How much a straightened image must be scaled down so the rotated frame leaves no empty corners.
+export const getStraightenScale = (width: number, height: number, angleDegrees: number): number => {
+  const angle = (Math.abs(angleDegrees) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+};
+
+// Rotates by a small angle and crops to the largest centred rectangle with the original aspect ratio.
+export const straightenImage = (imageDataUrl: string, angleDegrees: number): Promise<string> =>
+  redraw(
+    imageDataUrl,
+    (width, height) => {
+      const scale = getStraightenScale(width, height, angleDegrees);
+      return { width: width * scale, height: height * scale };
+    },
+    (ctx, image, width, height) => {
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate((angleDegrees * Math.PI) / 180);
+      ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+    }
+  );
+
+export const cropImage = (imageDataUrl: string, rect: CropRect): Promise<string> =>
+  redraw(
+    imageDataUrl,
+    () => ({ width: rect.width, height: rect.height }),
+    (ctx, image, width, height) => {
+      ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, width, height);
+    }
+  );
+
+// Keeps the rectangle inside the image and at least one pixel in size.
+export const clampCropRect = (rect: CropRect, imageWidth: number, imageHeight: number): CropRect => {
+  const width = Math.min(imageWidth, Math.max(1, rect.width));
+  const height = Math.min(imageHeight, Math.max(1, rect.height));
+  return {
+    x: Math.min(imageWidth - width, Math.max(0, rect.x)),
+    y: Math.min(imageHeight - height, Math.max(0, rect.y)),
+    width,
+    height,
+  };
+};
+
+// Largest rectangle with the given aspect ratio (width / height) centred on the current one that fits in the image.
+export const fitCropToAspect = (rect: CropRect, aspect: number, imageWidth: number, imageHeight: number): CropRect => {
+  let width = rect.width;
+  let height = width / aspect;
+  if (height > rect.height) {
+    height = rect.height;
+    width = height * aspect;
+  }
+  const scale = Math.min(1, imageWidth / width, imageHeight / height);
+  width *= scale;
+  height *= scale;
+  return clampCropRect(
+    { x: rect.x + (rect.width - width) / 2, y: rect.y + (rect.height - height) / 2, width, height },
+    imageWidth,
+    imageHeight
+  );
+};
+
+export const roundCropRect = (rect: CropRect): CropRect => ({
+  x: Math.round(rect.x),
+  y: Math.round(rect.y),
+  width: Math.max(1, Math.round(rect.width)),
+  height: Math.max(1, Math.round(rect.height)),
+});
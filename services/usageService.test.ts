@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { UsageRecord } from '../types';
+import {
+  clearUsage,
+  estimateCost,
+  formatCost,
+  getLimitBreach,
+  getUsageRecords,
+  loadSpendingLimits,
+  meterCall,
+  saveSpendingLimits,
+  sumCost,
+  summarizeUsage,
+  withUsageScope,
+} from './usageService';
+
+const noUsage = { inputTokens: 0, outputTokens: 0, images: 0 };
+
+const usageRecord = (changes: Partial<UsageRecord>): UsageRecord => ({
+  id: 'r',
+  timestamp: 0,
+  model: 'gemini-2.5-pro',
+  operation: 'OCR',
+  fileId: null,
+  batchId: null,
+  ...noUsage,
+  latencyMs: 100,
+  cost: 0,
+  ok: true,
+  ...changes,
+});
+
+afterEach(() => clearUsage());
+
+describe('estimateCost', () => {
+  it('prices tokens per million and images per image', () => {
+    expect(estimateCost('gemini-2.5-pro', { inputTokens: 1_000_000, outputTokens: 100_000, images: 0 })).toBeCloseTo(2.25);
+    expect(estimateCost('imagen-4.0-generate-001', { ...noUsage, images: 2 })).toBeCloseTo(0.08);
+    expect(estimateCost('unknown-model', { inputTokens: 5000, outputTokens: 5000, images: 1 })).toBe(0);
+  });
+});
+
+describe('meterCall', () => {
+  it('records the call against the scope it was started in', async () => {
+    const call = withUsageScope({ fileId: 'f1', batchId: 'b1' }, () =>
+      meterCall('gemini-2.5-pro', 'OCR', async () => 'text', () => ({ inputTokens: 1000, outputTokens: 200, images: 0 }))
+    );
+    // The scope ends as soon as the call has started, before it resolves.
+    await meterCall('gemini-2.5-pro', 'Analysis', async () => 'other', () => noUsage);
+    await call;
+
+    const scoped = getUsageRecords().find(record => record.operation === 'OCR')!;
+    const unscoped = getUsageRecords().find(record => record.operation === 'Analysis')!;
+    expect(scoped).toMatchObject({ operation: 'OCR', fileId: 'f1', batchId: 'b1', inputTokens: 1000, outputTokens: 200, ok: true });
+    expect(scoped.cost).toBeCloseTo(0.00325);
+    expect(unscoped).toMatchObject({ operation: 'Analysis', fileId: null, batchId: null });
+  });
+
+  it('records failed calls and rethrows', async () => {
+    await expect(meterCall('gemini-2.5-pro', 'OCR', () => Promise.reject(new Error('quota')), () => noUsage)).rejects.toThrow('quota');
+    expect(getUsageRecords()).toEqual([expect.objectContaining({ ok: false, cost: 0 })]);
+  });
+
+  it('keeps calls measured as incomplete flagged in the record', async () => {
+    await meterCall('gemini-2.5-pro', 'Chat', async () => 'partial', () => ({ ...noUsage, outputTokens: 50, incomplete: true }));
+    expect(getUsageRecords()).toEqual([expect.objectContaining({ ok: true, outputTokens: 50, incomplete: true })]);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals the session, each model and each file', () => {
+    const summary = summarizeUsage([
+      usageRecord({ fileId: 'a', inputTokens: 100, cost: 0.5 }),
+      usageRecord({ fileId: 'a', model: 'gemini-2.5-flash-image', images: 1, cost: 0.25, ok: false }),
+      usageRecord({ cost: 0.25, incomplete: true }),
+    ]);
+    expect(summary.total).toMatchObject({ calls: 3, failed: 1, incomplete: 1, inputTokens: 100, images: 1, latencyMs: 300, cost: 1 });
+    expect(summary.byModel['gemini-2.5-pro'].cost).toBe(0.75);
+    expect(Object.keys(summary.byFile)).toEqual(['a']);
+    expect(summary.byFile.a.calls).toBe(2);
+  });
+
+  it('sums a single batch', () => {
+    const records = [usageRecord({ batchId: 'b', cost: 0.5 }), usageRecord({ batchId: 'c', cost: 0.25 })];
+    expect(sumCost(records, 'b')).toBe(0.5);
+    expect(sumCost(records)).toBe(0.75);
+  });
+});
+
+describe('getLimitBreach', () => {
+  it('stops when spending plus the projected cost would pass a limit', () => {
+    const limits = { perBatch: 1, perSession: 5 };
+    expect(getLimitBreach(limits, { session: 2, batch: 0.5 }, 0.4)).toBeNull();
+    expect(getLimitBreach(limits, { session: 2, batch: 0.5 }, 0.6)).toBe('Batch spending limit of $1.00 reached');
+    expect(getLimitBreach(limits, { session: 5, batch: 0 }, 0)).toBe('Session spending limit of $5.00 reached');
+    expect(getLimitBreach({ perBatch: null, perSession: null }, { session: 100, batch: 100 }, 10)).toBeNull();
+  });
+});
+
+describe('spending limits', () => {
+  it('round-trips through storage and ignores invalid values', () => {
+    expect(loadSpendingLimits()).toEqual({ perBatch: null, perSession: null });
+    saveSpendingLimits({ perBatch: 0.5, perSession: null });
+    expect(loadSpendingLimits()).toEqual({ perBatch: 0.5, perSession: null });
+    localStorage.setItem('gemini-image-studio.spending-limits', '{"perBatch":-1,"perSession":"2"}');
+    expect(loadSpendingLimits()).toEqual({ perBatch: null, perSession: null });
+  });
+
+  it('formats small costs with more precision', () => {
+    expect(formatCost(0.0032)).toBe('$0.0032');
+    expect(formatCost(1.5)).toBe('$1.50');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
@@ -0,0 +1,181 @@
+import { SpendingLimits, UsageRecord } from '../types';
+
+// Records every model request with its token counts, latency and an estimated cost, so the app
+// can show what a session or batch has spent and stop a batch before it passes a spending limit.
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number; // USD per million output tokens, image tokens included
+  perImage: number; // USD per returned image, for models billed per image
+}
+
+// List prices at the time of writing. They change, so costs shown in the app are estimates.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10, perImage: 0 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+  'imagen-4.0-generate-001': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+};
+
+export interface UsageMeasure {
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  incomplete?: boolean; // The counts miss part of what was billed, see UsageRecord
+}
+
+export interface UsageScope {
+  fileId: string | null;
+  batchId: string | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  incomplete: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byFile: Record<string, UsageTotals>;
+}
+
+const SPENDING_LIMITS_KEY = 'gemini-image-studio.spending-limits';
+
+let records: UsageRecord[] = [];
+let listeners: Array<(records: UsageRecord[]) => void> = [];
+let currentScope: UsageScope = { fileId: null, batchId: null };
+let nextId = 0;
+
+export const estimateCost = (model: string, usage: UsageMeasure): number => {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+    + usage.images * price.perImage;
+};
+
+export const getUsageRecords = (): UsageRecord[] => records;
+
+export const subscribeToUsage = (listener: (records: UsageRecord[]) => void) => {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(l => l !== listener);
+  };
+};
+
+export const recordUsage = (record: Omit<UsageRecord, 'id'>): UsageRecord => {
+  const stored = { ...record, id: `usage-${++nextId}` };
+  records = [...records, stored];
+  listeners.forEach(listener => listener(records));
+  return stored;
+};
+
+export const clearUsage = () => {
+  records = [];
+  listeners.forEach(listener => listener(records));
+};
+
+// Attributes the calls `operation` starts to a file and batch. Browsers have no async context,
+// so the scope is read when a call starts: wrap the call itself, not code that awaits first.
+export const withUsageScope = <T>(scope: Partial<UsageScope>, operation: () => T): T => {
+  const previous = currentScope;
+  currentScope = { ...previous, ...scope };
+  try {
+    return operation();
+  } finally {
+    currentScope = previous;
+  }
+};
+
+// Runs one model request and records it, failed requests included since they can still be billed
+// for input. `measure` reads the token and image counts from a successful response.
+export const meterCall = async <T>(
+  model: string,
+  operation: string,
+  call: () => Promise<T>,
+  measure: (response: T) => UsageMeasure
+): Promise<T> => {
+  const scope = currentScope;
+  const started = Date.now();
+  const record = (usage: UsageMeasure, ok: boolean) => recordUsage({
+    timestamp: started,
+    model,
+    operation,
+    ...scope,
+    ...usage,
+    latencyMs: Date.now() - started,
+    cost: estimateCost(model, usage),
+    ok,
+  });
+
+  try {
+    const response = await call();
+    record(measure(response), true);
+    return response;
+  } catch (error) {
+    record({ inputTokens: 0, outputTokens: 0, images: 0 }, false);
+    throw error;
+  }
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, failed: 0, incomplete: 0, inputTokens: 0, outputTokens: 0, images: 0, latencyMs: 0, cost: 0 });
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord) => {
+  totals.calls++;
+  if (!record.ok) totals.failed++;
+  if (record.incomplete) totals.incomplete++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.images += record.images;
+  totals.latencyMs += record.latencyMs;
+  totals.cost += record.cost;
+};
+
+export const summarizeUsage = (usage: UsageRecord[]): UsageSummary => {
+  const summary: UsageSummary = { total: emptyTotals(), byModel: {}, byFile: {} };
+  for (const record of usage) {
+    addToTotals(summary.total, record);
+    addToTotals(summary.byModel[record.model] ??= emptyTotals(), record);
+    if (record.fileId) addToTotals(summary.byFile[record.fileId] ??= emptyTotals(), record);
+  }
+  return summary;
+};
+
+export const sumCost = (usage: UsageRecord[], batchId?: string): number =>
+  usage.reduce((sum, record) => (batchId === undefined || record.batchId === batchId ? sum + record.cost : sum), 0);
+
+export const formatCost = (cost: number): string => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+// Returns why the next item must not start, or null when it fits within the limits. `projected`
+// is what the items about to run are expected to add on top of what has been spent.
+export const getLimitBreach = (
+  limits: SpendingLimits,
+  spent: { session: number; batch: number },
+  projected: number
+): string | null => {
+  const exceeds = (cost: number, limit: number | null) => limit !== null && (cost >= limit || cost + projected > limit);
+  if (exceeds(spent.session, limits.perSession)) return `Session spending limit of ${formatCost(limits.perSession!)} reached`;
+  if (exceeds(spent.batch, limits.perBatch)) return `Batch spending limit of ${formatCost(limits.perBatch!)} reached`;
+  return null;
+};
+
+export const loadSpendingLimits = (): SpendingLimits => {
+  try {
+    const raw = localStorage.getItem(SPENDING_LIMITS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    const toLimit = (value: unknown) => (typeof value === 'number' && value >= 0 ? value : null);
+    return { perBatch: toLimit(parsed?.perBatch), perSession: toLimit(parsed?.perSession) };
+  } catch (error) {
+    console.error('Failed to load spending limits:', error);
+    return { perBatch: null, perSession: null };
+  }
+};
+
+export const saveSpendingLimits = (limits: SpendingLimits) => {
+  localStorage.setItem(SPENDING_LIMITS_KEY, JSON.stringify(limits));
+};
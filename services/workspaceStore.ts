@@ -0,0 +1,253 @@
+import { GenerationParams, ImageHashes, ImageMetadata, ProcessedImage, SourceDocument, UploadedFile } from '../types';
+
+// IndexedDB-backed persistence for the workspace. Original files and history steps are stored as
+// Blobs (never base64), small app state is stored as JSON-compatible values in the `meta` store.
+
+const DB_NAME = 'gemini-image-studio';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const STEPS_STORE = 'steps';
+const META_STORE = 'meta';
+
+interface FileRecord {
+  id: string;
+  file: File;
+  order: number;
+  currentStepId: string | null;
+  redoStack: string[];
+  metadata?: ImageMetadata | null; // Absent in workspaces saved before metadata was read
+  source?: SourceDocument | null; // Absent in workspaces saved before document import
+  hashes?: ImageHashes | null; // Absent in workspaces saved before duplicate detection
+  generation?: GenerationParams | null; // Absent in workspaces saved before generation settings were kept
+}
+
+interface StepRecord {
+  id: string;
+  fileId: string;
+  parentId: string | null;
+  blob: Blob;
+  description: string;
+  createdAt: number;
+}
+
+export interface RestoredWorkspace {
+  files: UploadedFile[];
+  meta: Record<string, unknown>;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction was aborted.'));
+  });
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STEPS_STORE)) {
+          const steps = db.createObjectStore(STEPS_STORE, { keyPath: 'id' });
+          steps.createIndex('fileId', 'fileId');
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toStep = (record: StepRecord): ProcessedImage => ({
+  id: record.id,
+  parentId: record.parentId,
+  dataUrl: '', // Loaded lazily from the Blob when the step is used
+  blob: record.blob,
+  objectUrl: URL.createObjectURL(record.blob),
+  size: record.blob.size,
+  description: record.description,
+  createdAt: record.createdAt,
+});
+
+export const loadWorkspace = async (): Promise<RestoredWorkspace> => {
+  const db = await openDb();
+  const tx = db.transaction([FILES_STORE, STEPS_STORE, META_STORE], 'readonly');
+  const [fileRecords, stepRecords, metaKeys, metaValues] = await Promise.all([
+    requestToPromise(tx.objectStore(FILES_STORE).getAll() as IDBRequest<FileRecord[]>),
+    requestToPromise(tx.objectStore(STEPS_STORE).getAll() as IDBRequest<StepRecord[]>),
+    requestToPromise(tx.objectStore(META_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(META_STORE).getAll()),
+  ]);
+
+  const stepsByFile = new Map<string, StepRecord[]>();
+  for (const step of stepRecords) {
+    const list = stepsByFile.get(step.fileId) ?? [];
+    list.push(step);
+    stepsByFile.set(step.fileId, list);
+  }
+
+  const files = fileRecords
+    .sort((a, b) => a.order - b.order)
+    .map((record): UploadedFile => ({
+      id: record.id,
+      file: record.file,
+      thumbnailUrl: URL.createObjectURL(record.file),
+      history: (stepsByFile.get(record.id) ?? []).sort((a, b) => a.createdAt - b.createdAt).map(toStep),
+      currentStepId: record.currentStepId,
+      redoStack: record.redoStack,
+      metadata: record.metadata ?? null,
+      source: record.source ?? null,
+      hashes: record.hashes ?? null,
+      generation: record.generation ?? null,
+    }));
+
+  const meta: Record<string, unknown> = {};
+  metaKeys.forEach((key, i) => {
+    meta[String(key)] = metaValues[i];
+  });
+
+  return { files, meta };
+};
+
+export const saveMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+export const clearWorkspace = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([FILES_STORE, STEPS_STORE, META_STORE], 'readwrite');
+  tx.objectStore(FILES_STORE).clear();
+  tx.objectStore(STEPS_STORE).clear();
+  tx.objectStore(META_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Asks the browser not to evict our data under storage pressure. Best effort; browsers may refuse.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+// Tracks what has already been written so each sync only touches new or changed records.
+// Steps are immutable once created, so they are written exactly once.
+export const createWorkspaceSync = () => {
+  const savedSteps = new Set<string>();
+  const savedFiles = new Map<string, string>(); // file id -> fingerprint of its mutable fields
+  let queue: Promise<void> = Promise.resolve();
+
+  const fingerprint = (file: UploadedFile, order: number) =>
+    JSON.stringify([order, file.currentStepId, file.redoStack, file.hashes]);
+
+  const writeFiles = async (files: UploadedFile[]) => {
+    const db = await openDb();
+    const tx = db.transaction([FILES_STORE, STEPS_STORE], 'readwrite');
+    const filesStore = tx.objectStore(FILES_STORE);
+    const stepsStore = tx.objectStore(STEPS_STORE);
+    const written: Array<() => void> = [];
+
+    files.forEach((file, order) => {
+      const print = fingerprint(file, order);
+      if (savedFiles.get(file.id) !== print) {
+        const record: FileRecord = {
+          id: file.id,
+          file: file.file,
+          order,
+          currentStepId: file.currentStepId,
+          redoStack: file.redoStack,
+          metadata: file.metadata,
+          source: file.source,
+          hashes: file.hashes,
+          generation: file.generation,
+        };
+        filesStore.put(record);
+        written.push(() => savedFiles.set(file.id, print));
+      }
+      for (const step of file.history) {
+        if (savedSteps.has(step.id)) continue;
+        const record: StepRecord = {
+          id: step.id,
+          fileId: file.id,
+          parentId: step.parentId,
+          blob: step.blob,
+          description: step.description,
+          createdAt: step.createdAt,
+        };
+        stepsStore.put(record);
+        written.push(() => savedSteps.add(step.id));
+      }
+    });
+
+    const currentIds = new Set(files.map(f => f.id));
+    for (const fileId of Array.from(savedFiles.keys())) {
+      if (currentIds.has(fileId)) continue;
+      filesStore.delete(fileId);
+      const stepKeys = await requestToPromise(stepsStore.index('fileId').getAllKeys(fileId));
+      stepKeys.forEach(key => {
+        stepsStore.delete(key);
+        savedSteps.delete(String(key));
+      });
+      written.push(() => savedFiles.delete(fileId));
+    }
+
+    await transactionDone(tx);
+    written.forEach(markWritten => markWritten());
+  };
+
+  return {
+    // Records a freshly restored workspace as already persisted.
+    markLoaded(files: UploadedFile[]) {
+      files.forEach((file, order) => {
+        savedFiles.set(file.id, fingerprint(file, order));
+        file.history.forEach(step => savedSteps.add(step.id));
+      });
+    },
+    syncFiles(files: UploadedFile[]): Promise<void> {
+      // Serialize writes so two syncs never race on the same records.
+      queue = queue.catch(() => undefined).then(() => writeFiles(files));
+      return queue;
+    },
+    reset() {
+      savedSteps.clear();
+      savedFiles.clear();
+    },
+  };
+};
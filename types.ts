@@ -2,16 +2,63 @@ export interface UploadedFile {
   id: string;
   file: File;
   thumbnailUrl: string; // Lightweight URL for thumbnails, from URL.createObjectURL()
-  // History of transformations. Does not include the original image.
-  // The last element is the current state with a dataUrl.
-  // Previous elements have their dataUrl pruned to save memory.
+  // Every transformation ever applied, in creation order. Does not include the original image.
+  // Steps form a tree through `parentId`, so editing an older step starts a new branch.
   history: ProcessedImage[];
+  currentStepId: string | null; // null means the original file is current
+  redoStack: string[]; // Step ids popped by undo, most recent last
+  metadata: ImageMetadata | null; // Read from the original file on import; processed steps carry none
+  source: SourceDocument | null; // Set when the image was converted from a HEIC photo or a TIFF/PDF page
+  hashes: ImageHashes | null; // Computed in the background after upload; null until then or if decoding failed
+  generation: GenerationParams | null; // Set when the image was made in the Generator
 }
 
+// 64-bit perceptual hashes as 16 hex digits, used to spot the same receipt uploaded twice.
+export interface ImageHashes {
+  dHash: string;
+  pHash: string;
+}
+
+// The uploaded file an image was converted from. Pages of one document share the id.
+export interface SourceDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  page: number; // 1-based
+  pageCount: number;
+}
+
+export interface GpsLocation {
+  latitude: number; // Decimal degrees, negative for south
+  longitude: number; // Decimal degrees, negative for west
+  altitude: number | null; // Metres above sea level
+}
+
+// EXIF / XMP metadata of an imported image. Missing values are null.
+export interface ImageMetadata {
+  orientation: number | null; // EXIF orientation, 1 (upright) to 8
+  captureDate: string | null; // Local time as YYYY-MM-DDTHH:MM:SS
+  cameraMake: string | null;
+  cameraModel: string | null;
+  software: string | null;
+  gps: GpsLocation | null;
+  hasXmp: boolean;
+  fields: Record<string, string>; // Every readable tag, by name, for the full metadata view
+}
+
+// What to keep when saving images. Images produced by the app carry no metadata to begin with.
+export type MetadataPolicy = 'keep' | 'stripGps' | 'stripAll';
+
 export interface ProcessedImage {
-  dataUrl: string; // Can be an empty string for pruned history states
+  id: string;
+  parentId: string | null; // null when the step was derived from the original file
+  // Only the current step keeps its base64 form; other steps are evicted to `blob`.
+  dataUrl: string;
+  blob: Blob;
+  objectUrl: string; // For display, from URL.createObjectURL(blob)
   size: number; // in bytes
   description: string; // e.g., "Preprocessed", "Grayscale"
+  createdAt: number;
 }
 
 export interface LoadingState {
@@ -22,6 +69,282 @@ export interface LoadingState {
 export enum ActiveTool {
   Processor = 'Processor',
   Editor = 'Editor',
+  Transform = 'Transform',
   Generator = 'Generator',
   Analyzer = 'Analyzer',
+  Review = 'Review',
+  Pipelines = 'Pipelines',
+}
+
+export type ResizeMode = 'dimensions' | 'longestEdge' | 'percentage';
+
+// How the source is fitted into exact target dimensions.
+// 'contain' letterboxes, 'cover' center-crops, 'stretch' ignores aspect ratio.
+export type FitMode = 'contain' | 'cover' | 'stretch';
+
+export interface ResizeOptions {
+  mode: ResizeMode;
+  width: number; // Used by 'dimensions'
+  height: number; // Used by 'dimensions'
+  longestEdge: number; // Used by 'longestEdge'
+  percentage: number; // Used by 'percentage', e.g. 50 for half size
+  fit: FitMode; // Only applies to 'dimensions'
+  maxBytes?: number; // Optional size budget; switches to a lossy encoding if needed
+}
+
+export type OutputMimeType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/avif';
+
+export interface OutputFormatOptions {
+  mimeType: OutputMimeType | 'original'; // 'original' keeps whatever encoding the image already has
+  quality: number; // 0-1, only used by lossy formats
+}
+
+export type GenerationAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+// Generator settings. Negative prompt and seed are only sent to providers that support them.
+export interface GenerationOptions {
+  aspectRatio: GenerationAspectRatio;
+  numberOfImages: number; // 1 to 4
+  outputMimeType: 'image/jpeg' | 'image/png';
+  negativePrompt: string; // Empty for none
+  seed: number | null; // null lets the model pick one
+}
+
+// Everything a generated image was made from, kept with the file.
+export interface GenerationParams extends GenerationOptions {
+  prompt: string;
+  provider: string; // Label of the AI provider
+  model: string;
+  variation: number; // 1-based position in the batch it was generated in
+  createdAt: number;
+}
+
+export type BinarizationMode = 'none' | 'otsu' | 'adaptive';
+
+// Local OCR clean-up filters, applied in the order listed. A value of 0 turns a filter off.
+export interface EnhanceOptions {
+  grayscale: boolean;
+  shadowRemoval: number; // Background estimate radius in px; the image is divided by it to flatten shadows
+  denoise: number; // Median filter radius in px
+  contrastStretch: number; // Percent of darkest and lightest pixels clipped before stretching
+  sharpenAmount: number; // Unsharp mask strength
+  sharpenRadius: number; // Unsharp mask blur radius in px
+  binarization: BinarizationMode; // Anything but 'none' implies grayscale
+  adaptiveWindow: number; // Neighbourhood radius in px for adaptive thresholding
+  adaptiveOffset: number; // How much darker than its neighbourhood a pixel must be to turn black
+}
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  amount: number;
+}
+
+export interface ReceiptTaxLine {
+  label: string; // e.g., "VAT 20%", "State tax"
+  rate: number | null; // Percentage, e.g. 20 for 20%
+  amount: number;
+}
+
+// Structured receipt fields as extracted by the model. Missing values are null, never guessed.
+export interface ReceiptData {
+  merchant: string | null;
+  address: string | null;
+  date: string | null; // ISO 8601 (YYYY-MM-DD)
+  currency: string | null; // ISO 4217 code, e.g. "USD"
+  lineItems: ReceiptLineItem[];
+  subtotal: number | null;
+  taxes: ReceiptTaxLine[];
+  tip: number | null;
+  total: number | null;
+}
+
+export interface ReceiptValidation {
+  isConsistent: boolean;
+  issues: string[];
+  lineItemsSum: number;
+}
+
+export interface ReceiptResult {
+  name: string;
+  data: ReceiptData;
+  validation: ReceiptValidation;
+  dateFromCapture?: boolean; // The receipt had no date, so the photo's capture date was used
+}
+
+// Rectangle in image coordinates normalised to 0..1, measured from the top-left corner.
+export interface OcrBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrWord {
+  id: string; // Unique within one result, e.g. "2-0-3" for block 2, line 0, word 3
+  text: string;
+  box: OcrBox;
+  confidence: number | null; // 0..1 as reported by the model
+}
+
+export interface OcrLine {
+  box: OcrBox;
+  words: OcrWord[];
+}
+
+export interface OcrBlock {
+  box: OcrBox;
+  lines: OcrLine[];
+}
+
+export interface OcrLayout {
+  blocks: OcrBlock[];
+}
+
+export interface OcrResult {
+  name: string;
+  text: string;
+  layout?: OcrLayout; // Only when OCR ran with word positions
+  stepId?: string | null; // History step the boxes refer to; null for the original file
+  partial?: boolean; // Streaming was stopped or failed before the model finished
+}
+
+// One message of an Analyzer conversation about an image.
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  attachedFileIds: string[]; // Other workspace images sent along with this message
+  timestamp: number;
+  partial?: boolean; // The reply was stopped or failed before the model finished
+}
+
+export type ReviewStatus = 'unreviewed' | 'needsAttention' | 'approved';
+
+// A reviewer's verdict on one file. Corrections are kept next to the model output, never written
+// over it, so exports can show what was changed by hand.
+export interface FileReview {
+  status: ReviewStatus;
+  ocrText: string | null; // Corrected OCR text; null when the model's text is used
+  receipt: ReceiptData | null; // Corrected receipt fields; null when the model's fields are used
+  updatedAt: number;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type ReceiptExportField =
+  | 'sourceFile'
+  | 'historyStep'
+  | 'merchant'
+  | 'address'
+  | 'date'
+  | 'currency'
+  | 'subtotal'
+  | 'tax'
+  | 'tip'
+  | 'total'
+  | 'lineItemCount'
+  | 'validationIssues'
+  | 'ocrText'
+  | 'corrections';
+
+export type LineItemExportField =
+  | 'sourceFile'
+  | 'historyStep'
+  | 'merchant'
+  | 'date'
+  | 'currency'
+  | 'description'
+  | 'quantity'
+  | 'unitPrice'
+  | 'amount';
+
+export interface ExportColumn<F extends string> {
+  field: F;
+  header: string; // Column name written to the file, so it can match an accounting tool's import format
+  enabled: boolean;
+}
+
+export interface ExportConfig {
+  format: ExportFormat;
+  includeLineItems: boolean;
+  dateFormat: 'iso' | 'us' | 'eu'; // YYYY-MM-DD, MM/DD/YYYY, DD/MM/YYYY
+  negateAmounts: boolean; // Some bank-feed importers expect spending as negative numbers
+  receiptColumns: ExportColumn<ReceiptExportField>[];
+  lineItemColumns: ExportColumn<LineItemExportField>[];
+}
+
+// One model request, successful or not. Costs are estimates in US dollars from published list prices.
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  model: string;
+  operation: string; // e.g. "OCR", "Image edit"
+  fileId: string | null; // The file the request was made for, when known
+  batchId: string | null; // Set for requests made by a batch job
+  inputTokens: number;
+  outputTokens: number;
+  images: number; // Images returned by the model
+  latencyMs: number;
+  cost: number;
+  ok: boolean;
+  incomplete?: boolean; // Stopped by the user mid-stream: billed for more than the counts seen
+}
+
+// Spending caps in US dollars; null means no limit.
+export interface SpendingLimits {
+  perBatch: number | null;
+  perSession: number | null;
+}
+
+export type PdfPageSize = 'a4' | 'letter' | 'image'; // 'image' sizes each page to its image
+
+export interface PdfExportOptions {
+  fileName: string; // Without the .pdf extension
+  pageSize: PdfPageSize;
+  marginMm: number;
+  textLayer: boolean; // Adds the OCR text invisibly behind each image so the PDF is searchable
+}
+
+// 'local' warps the detected document outline on a canvas; 'ai' asks the model to redraw the image.
+export type PreprocessMethod = 'local' | 'ai';
+
+// One step of a user-defined pipeline. Image steps add a history entry; the others read the current image.
+export type PipelineStep =
+  | { id: string; type: 'preprocess'; method?: PreprocessMethod } // Older saved pipelines have no method and use AI
+  | { id: string; type: 'enhance' }
+  | { id: string; type: 'edit'; prompt: string }
+  | { id: string; type: 'resize'; options: ResizeOptions }
+  | { id: string; type: 'convert'; format: OutputFormatOptions }
+  | { id: string; type: 'ocr' }
+  | { id: string; type: 'extractReceipt' }
+  | { id: string; type: 'saveImage'; suffix: string }
+  | { id: string; type: 'saveOcrText' };
+
+export type PipelineStepType = PipelineStep['type'];
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  steps: PipelineStep[];
+  builtIn?: boolean; // Built-in pipelines can be copied but not edited or deleted
+}
+
+// A named prompt saved for one tool. `{{name}}` placeholders are filled in when it is run.
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  tool: ActiveTool;
+  text: string;
+  tags: string[];
+}
+
+// Prompts the app sends on its own for the Processor actions.
+export type BuiltInPromptId = 'preprocess' | 'enhanceForOcr' | 'ocr' | 'ocrLayout' | 'extractReceipt';
+
+export interface PromptLibrary {
+  prompts: SavedPrompt[];
+  overrides: Partial<Record<BuiltInPromptId, string>>; // Replaces the built-in text; absent means the default
+  variables: Record<string, string>; // Values for `{{name}}` placeholders, shared by every prompt
 }
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY?: string;
   readonly VITE_API_KEY?: string;
+  readonly VITE_AI_PROVIDER?: 'gemini' | 'mock';
 }
 
 interface ImportMeta {
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -18,6 +19,14 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./vitest.setup.ts'],
+        env: {
+          VITE_GEMINI_API_KEY: 'test-api-key',
+          VITE_AI_PROVIDER: 'gemini',
+        },
       }
     };
 });
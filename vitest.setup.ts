@@ -0,0 +1,15 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom has no object URLs; the app only needs them to be unique strings.
+let objectUrlCounter = 0;
+URL.createObjectURL = vi.fn(() => `blob:test/${objectUrlCounter++}`);
+URL.revokeObjectURL = vi.fn();
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+// jsdom cannot encode canvases; behave like a browser that only supports PNG.
+HTMLCanvasElement.prototype.toDataURL = vi.fn(() => 'data:image/png;base64,');